@@ -1,4 +1,6 @@
+const crypto = require('crypto');
 const jwt = require('jsonwebtoken');
+const { pool } = require('./db');
 
 const cookieName = 'jukebox_session';
 const jwtSecret = process.env.JWT_SECRET;
@@ -15,12 +17,16 @@ const cookieOptions = {
 };
 
 const sessionDurationMs = 7 * 24 * 60 * 60 * 1000;
+// Sessions are extended back to the full duration once less than half of it remains,
+// so an active user is never logged out and the cookie is reissued at most every few days.
+const sessionRenewalThresholdMs = sessionDurationMs / 2;
+const sessionTouchIntervalMs = 5 * 60 * 1000;
 
-function setSession(res, user) {
+function issueSessionCookie(res, session) {
   const token = jwt.sign(
-    { sub: user.id, spotifyId: user.spotify_id },
+    { sub: session.userId, spotifyId: session.spotifyId },
     jwtSecret,
-    { expiresIn: '7d' }
+    { expiresIn: Math.floor(sessionDurationMs / 1000), jwtid: session.id }
   );
 
   res.cookie(cookieName, token, {
@@ -29,25 +35,97 @@ function setSession(res, user) {
   });
 }
 
-function clearSession(res) {
+async function setSession(req, res, user) {
+  const sessionId = crypto.randomBytes(16).toString('hex');
+  await pool.query(
+    'DELETE FROM sessions WHERE user_id = $1 AND (expires_at < NOW() OR revoked_at IS NOT NULL)',
+    [user.id]
+  );
+  await pool.query(
+    `INSERT INTO sessions (id, user_id, user_agent, ip, expires_at)
+     VALUES ($1, $2, $3, $4, NOW() + $5 * INTERVAL '1 millisecond')`,
+    [
+      sessionId,
+      user.id,
+      req.get('user-agent')?.slice(0, 512) || null,
+      req.ip || null,
+      sessionDurationMs,
+    ]
+  );
+
+  issueSessionCookie(res, { id: sessionId, userId: user.id, spotifyId: user.spotify_id });
+}
+
+// Revokes the session behind the request (if any) and clears the cookie.
+async function clearSession(req, res) {
+  const session = await getSession(req);
+  if (session) {
+    await pool.query(
+      'UPDATE sessions SET revoked_at = NOW() WHERE id = $1 AND revoked_at IS NULL',
+      [session.jti]
+    );
+  }
   res.clearCookie(cookieName, cookieOptions);
 }
 
-function getSession(req) {
+async function loadSession(req) {
   const token = req.cookies?.[cookieName];
   if (!token) {
     return null;
   }
 
+  let payload;
   try {
-    return jwt.verify(token, jwtSecret);
+    payload = jwt.verify(token, jwtSecret);
   } catch (err) {
     return null;
   }
+
+  // Tokens issued before sessions were tracked carry no jti and are no longer accepted.
+  if (!payload.jti) {
+    return null;
+  }
+
+  const result = await pool.query(
+    `SELECT id, user_id, last_seen_at, expires_at
+     FROM sessions
+     WHERE id = $1 AND revoked_at IS NULL AND expires_at > NOW()`,
+    [payload.jti]
+  );
+  const row = result.rows[0];
+  if (!row || String(row.user_id) !== String(payload.sub)) {
+    return null;
+  }
+
+  const now = Date.now();
+  const renew = new Date(row.expires_at).getTime() - now < sessionRenewalThresholdMs;
+  if (renew || now - new Date(row.last_seen_at).getTime() > sessionTouchIntervalMs) {
+    await pool.query(
+      `UPDATE sessions
+       SET last_seen_at = NOW(),
+           expires_at = CASE WHEN $2::boolean THEN NOW() + $3 * INTERVAL '1 millisecond' ELSE expires_at END
+       WHERE id = $1`,
+      [row.id, renew, sessionDurationMs]
+    );
+  }
+
+  if (renew && req.res && !req.res.headersSent) {
+    issueSessionCookie(req.res, { id: row.id, userId: payload.sub, spotifyId: payload.spotifyId });
+  }
+
+  return payload;
+}
+
+// Resolved once per request: the rate limiter and the route handler share the lookup.
+function getSession(req) {
+  if (!req.sessionLookup) {
+    req.sessionLookup = loadSession(req);
+  }
+  return req.sessionLookup;
 }
 
-function requireAuth(req, res, next) {
-  const session = getSession(req);
+async function requireAuth(req, res, next) {
+  const session = await getSession(req);
   if (!session) {
     return res.status(401).json({ error: 'unauthorized' });
   }
@@ -0,0 +1,63 @@
+const { pool } = require('./db');
+const { getAlbumCards } = require('./catalog');
+
+const maxBacklogItems = 500;
+
+const backlogOrder = `
+  CASE priority WHEN 'high' THEN 0 WHEN 'normal' THEN 1 ELSE 2 END, position ASC, id ASC`;
+
+function toBacklogItem(row, albumCards) {
+  return {
+    id: row.id,
+    spotify_album_id: row.spotify_album_id,
+    album: albumCards.get(row.spotify_album_id) || null,
+    priority: row.priority,
+    position: row.position,
+    created_at: row.created_at,
+  };
+}
+
+// The whole queue in listening order. It is capped at maxBacklogItems, so it is not paginated.
+async function fetchBacklog(userId) {
+  const result = await pool.query(
+    `SELECT id, spotify_album_id, priority, position, created_at
+     FROM backlog_items
+     WHERE user_id = $1
+     ORDER BY ${backlogOrder}`,
+    [userId]
+  );
+  const albumCards = await getAlbumCards(result.rows.map((row) => row.spotify_album_id));
+  return result.rows.map((row) => toBacklogItem(row, albumCards));
+}
+
+async function fetchBacklogItem(userId, albumId) {
+  const result = await pool.query(
+    `SELECT id, spotify_album_id, priority, position, created_at
+     FROM backlog_items
+     WHERE user_id = $1 AND spotify_album_id = $2`,
+    [userId, albumId]
+  );
+  if (result.rows.length === 0) {
+    return null;
+  }
+  const albumCards = await getAlbumCards([albumId]);
+  return toBacklogItem(result.rows[0], albumCards);
+}
+
+// Positions follow `order`, which holds every album in the queue exactly once.
+async function writeBacklogOrder(client, userId, order) {
+  await client.query(
+    `UPDATE backlog_items b
+     SET position = ordered.position
+     FROM UNNEST($2::text[]) WITH ORDINALITY AS ordered (spotify_album_id, position)
+     WHERE b.user_id = $1 AND b.spotify_album_id = ordered.spotify_album_id`,
+    [userId, order]
+  );
+}
+
+module.exports = {
+  maxBacklogItems,
+  fetchBacklog,
+  fetchBacklogItem,
+  writeBacklogOrder,
+};
@@ -0,0 +1,244 @@
+const { pool } = require('./db');
+
+// A store holds entries of the shape { value, freshUntil, staleUntil } (epoch ms) by key.
+// Stores must not throw on misses; the cache layer treats store errors as misses.
+
+function createMemoryStore({ maxEntries = 500 } = {}) {
+  const entries = new Map();
+
+  return {
+    name: 'memory',
+    async get(key) {
+      const entry = entries.get(key);
+      if (!entry) {
+        return null;
+      }
+      // Re-inserting moves the key to the end so the first key is always least recently used.
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry;
+    },
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      while (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value);
+      }
+    },
+    async delete(key) {
+      entries.delete(key);
+    },
+    size() {
+      return entries.size;
+    },
+  };
+}
+
+function createPostgresStore({ pruneIntervalMs = 5 * 60_000 } = {}) {
+  const timer = setInterval(() => {
+    pool
+      .query('DELETE FROM cache_entries WHERE stale_until < NOW()')
+      .catch((err) => console.error('Cache prune failed:', err?.message));
+  }, pruneIntervalMs);
+  timer.unref();
+
+  return {
+    name: 'postgres',
+    async get(key) {
+      const result = await pool.query(
+        `SELECT value, fresh_until, stale_until
+         FROM cache_entries
+         WHERE key = $1 AND stale_until > NOW()`,
+        [key]
+      );
+      const row = result.rows[0];
+      if (!row) {
+        return null;
+      }
+      return {
+        value: row.value,
+        freshUntil: new Date(row.fresh_until).getTime(),
+        staleUntil: new Date(row.stale_until).getTime(),
+      };
+    },
+    async set(key, entry) {
+      await pool.query(
+        `INSERT INTO cache_entries (key, value, fresh_until, stale_until)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (key) DO UPDATE
+         SET value = EXCLUDED.value,
+             fresh_until = EXCLUDED.fresh_until,
+             stale_until = EXCLUDED.stale_until`,
+        [
+          key,
+          JSON.stringify(entry.value),
+          new Date(entry.freshUntil).toISOString(),
+          new Date(entry.staleUntil).toISOString(),
+        ]
+      );
+    },
+    async delete(key) {
+      await pool.query('DELETE FROM cache_entries WHERE key = $1', [key]);
+    },
+    size() {
+      return null;
+    },
+  };
+}
+
+function emptyCounters() {
+  return { hits: 0, stale_hits: 0, outage_hits: 0, misses: 0, errors: 0 };
+}
+
+// `namespaces` maps a namespace to { ttlMs, staleMs, outageMs }. staleMs is how long past ttlMs
+// an entry may still be served while it is refreshed in the background (0 disables stale reads).
+// outageMs keeps entries even longer, but getOrLoad only serves them when the loader fails with
+// an error `isOutage` accepts (the upstream is down or throttling us).
+function createCache({ store, namespaces, isOutage = () => false }) {
+  const counters = new Map();
+  const revalidating = new Set();
+
+  function getPolicy(namespace) {
+    const policy = namespaces[namespace];
+    if (!policy) {
+      throw new Error(`Unknown cache namespace: ${namespace}`);
+    }
+    return policy;
+  }
+
+  function count(namespace, field) {
+    if (!counters.has(namespace)) {
+      counters.set(namespace, emptyCounters());
+    }
+    counters.get(namespace)[field] += 1;
+  }
+
+  // Returns the entry and whether it is 'fresh', 'stale' or only usable during an 'outage'.
+  async function read(namespace, key) {
+    const { outageMs = 0 } = getPolicy(namespace);
+    let entry = null;
+    try {
+      entry = await store.get(`${namespace}:${key}`);
+    } catch (err) {
+      count(namespace, 'errors');
+      console.error('Cache read failed:', err?.message);
+    }
+
+    const now = Date.now();
+    if (!entry || now > entry.staleUntil) {
+      return null;
+    }
+    if (now <= entry.freshUntil) {
+      return { entry, state: 'fresh' };
+    }
+    return { entry, state: now <= entry.staleUntil - outageMs ? 'stale' : 'outage' };
+  }
+
+  async function get(namespace, key) {
+    const cached = await read(namespace, key);
+    if (!cached || cached.state === 'outage') {
+      count(namespace, 'misses');
+      return null;
+    }
+
+    const stale = cached.state === 'stale';
+    count(namespace, stale ? 'stale_hits' : 'hits');
+    return { value: cached.entry.value, stale };
+  }
+
+  async function set(namespace, key, value) {
+    const { ttlMs, staleMs = 0, outageMs = 0 } = getPolicy(namespace);
+    const now = Date.now();
+    try {
+      await store.set(`${namespace}:${key}`, {
+        value,
+        freshUntil: now + ttlMs,
+        staleUntil: now + ttlMs + staleMs + outageMs,
+      });
+    } catch (err) {
+      count(namespace, 'errors');
+      console.error('Cache write failed:', err?.message);
+    }
+  }
+
+  // Runs `loader` once per key at a time and stores what it returns; failures keep the stale entry.
+  // A loader that writes its own entries (e.g. a batch refresh) returns undefined.
+  function revalidate(namespace, key, loader) {
+    const id = `${namespace}:${key}`;
+    if (revalidating.has(id)) {
+      return;
+    }
+
+    revalidating.add(id);
+    Promise.resolve()
+      .then(loader)
+      .then((value) => (value === undefined ? undefined : set(namespace, key, value)))
+      .catch((err) => console.error('Cache revalidation failed:', err?.message))
+      .finally(() => revalidating.delete(id));
+  }
+
+  // Stale-while-revalidate read: fresh and stale entries are served immediately,
+  // misses wait for the loader. Returns { value, status: 'HIT' | 'STALE' | 'MISS' }.
+  async function getOrLoad(namespace, key, loader) {
+    const cached = await read(namespace, key);
+    if (cached?.state === 'fresh') {
+      count(namespace, 'hits');
+      return { value: cached.entry.value, status: 'HIT' };
+    }
+
+    if (cached?.state === 'stale') {
+      count(namespace, 'stale_hits');
+      revalidate(namespace, key, loader);
+      return { value: cached.entry.value, status: 'STALE' };
+    }
+
+    count(namespace, 'misses');
+    let value;
+    try {
+      value = await loader();
+    } catch (err) {
+      if (cached && isOutage(err)) {
+        count(namespace, 'outage_hits');
+        return { value: cached.entry.value, status: 'STALE' };
+      }
+      throw err;
+    }
+
+    await set(namespace, key, value);
+    return { value, status: 'MISS' };
+  }
+
+  function stats() {
+    return {
+      backend: store.name,
+      entries: store.size(),
+      namespaces: Object.fromEntries(
+        Object.keys(namespaces).map((namespace) => [
+          namespace,
+          counters.get(namespace) || emptyCounters(),
+        ])
+      ),
+    };
+  }
+
+  return { get, set, revalidate, getOrLoad, stats };
+}
+
+function createStoreFromEnv() {
+  const backend = process.env.CACHE_BACKEND || 'memory';
+  if (backend === 'postgres') {
+    return createPostgresStore();
+  }
+  if (backend !== 'memory') {
+    throw new Error(`Unsupported CACHE_BACKEND: ${backend}`);
+  }
+  const maxEntries = parseInt(process.env.CACHE_MAX_ENTRIES || '500', 10);
+  return createMemoryStore({ maxEntries });
+}
+
+module.exports = {
+  createMemoryStore,
+  createPostgresStore,
+  createCache,
+  createStoreFromEnv,
+};
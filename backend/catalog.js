@@ -0,0 +1,267 @@
+const { pool, withTransaction } = require('./db');
+const { spotify } = require('./spotify');
+
+const catalogRefreshIntervalMs = 10 * 60_000;
+const catalogStaleAfter = '7 days';
+const catalogRefreshBatchSize = 100;
+// Spotify returns nothing for ids it does not know or has taken down; they are tried again
+// after this long instead of on every run.
+const catalogMissRetryAfter = '1 day';
+
+// Spotify returns albums as a single object (/albums/:id), an `albums` array (/albums?ids=)
+// or `albums.items` (search). Search results are simplified and carry no label or genres.
+function extractAlbums(data) {
+  if (!data || typeof data !== 'object') {
+    return [];
+  }
+
+  if (data.type === 'album' && data.id) {
+    return [data];
+  }
+
+  if (Array.isArray(data.albums)) {
+    return data.albums.filter((album) => album && album.id);
+  }
+
+  if (Array.isArray(data.albums?.items)) {
+    return data.albums.items.filter((album) => album && album.id);
+  }
+
+  return [];
+}
+
+async function upsertAlbums(albums) {
+  if (albums.length === 0) {
+    return;
+  }
+
+  const sorted = [...albums].sort((a, b) => a.id.localeCompare(b.id));
+
+  await withTransaction(async (client) => {
+    for (const album of sorted) {
+      const hasDetails = Object.prototype.hasOwnProperty.call(album, 'label');
+      await client.query(
+        `INSERT INTO albums (spotify_id, name, release_date, total_tracks, label, genres, images, has_details, fetched_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, NOW())
+         ON CONFLICT (spotify_id) DO UPDATE
+         SET name = EXCLUDED.name,
+             release_date = EXCLUDED.release_date,
+             total_tracks = EXCLUDED.total_tracks,
+             label = CASE WHEN EXCLUDED.has_details THEN EXCLUDED.label ELSE albums.label END,
+             genres = CASE WHEN EXCLUDED.has_details THEN EXCLUDED.genres ELSE albums.genres END,
+             images = EXCLUDED.images,
+             has_details = albums.has_details OR EXCLUDED.has_details,
+             fetched_at = NOW()`,
+        [
+          album.id,
+          album.name,
+          album.release_date || null,
+          album.total_tracks ?? null,
+          hasDetails ? album.label || null : null,
+          hasDetails ? album.genres || [] : null,
+          JSON.stringify(album.images || []),
+          hasDetails,
+        ]
+      );
+
+      const artists = (album.artists || []).filter((artist) => artist && artist.id);
+      for (const artist of artists) {
+        await client.query(
+          `INSERT INTO artists (spotify_id, name)
+           VALUES ($1, $2)
+           ON CONFLICT (spotify_id) DO UPDATE SET name = EXCLUDED.name, updated_at = NOW()`,
+          [artist.id, artist.name]
+        );
+      }
+
+      await client.query('DELETE FROM album_artists WHERE album_id = $1', [album.id]);
+      if (artists.length > 0) {
+        await client.query(
+          `INSERT INTO album_artists (album_id, artist_id, position)
+           SELECT $1, artist_id, position - 1
+           FROM UNNEST($2::text[]) WITH ORDINALITY AS entry(artist_id, position)
+           ON CONFLICT DO NOTHING`,
+          [album.id, artists.map((artist) => artist.id)]
+        );
+      }
+    }
+  });
+}
+
+// Fire-and-forget: a catalog write must never fail the request that fetched the data.
+function recordAlbums(data) {
+  const albums = extractAlbums(data);
+  if (albums.length === 0) {
+    return;
+  }
+
+  upsertAlbums(albums).catch((err) => {
+    console.error('Album catalog update failed:', err?.message);
+  });
+}
+
+function toAlbumCard(row) {
+  const images = Array.isArray(row.images) ? row.images : [];
+  return {
+    id: row.spotify_id,
+    name: row.name,
+    artists: row.artists || [],
+    image: images[1]?.url || images[0]?.url || null,
+  };
+}
+
+function toAlbumDetail(row) {
+  return {
+    id: row.spotify_id,
+    name: row.name,
+    artists: row.artists || [],
+    images: Array.isArray(row.images) ? row.images : [],
+    release_date: row.release_date,
+    total_tracks: row.total_tracks,
+    label: row.label,
+    genres: row.genres || [],
+  };
+}
+
+async function fetchCatalogRows(albumIds, { detailedOnly }) {
+  const result = await pool.query(
+    `SELECT a.spotify_id, a.name, a.release_date, a.total_tracks, a.label, a.genres, a.images,
+            COALESCE(
+              ARRAY_AGG(ar.name ORDER BY aa.position) FILTER (WHERE ar.spotify_id IS NOT NULL),
+              '{}'
+            ) AS artists
+     FROM albums a
+     LEFT JOIN album_artists aa ON aa.album_id = a.spotify_id
+     LEFT JOIN artists ar ON ar.spotify_id = aa.artist_id
+     WHERE a.spotify_id = ANY($1)${detailedOnly ? ' AND a.has_details = true' : ''}
+     GROUP BY a.spotify_id`,
+    [albumIds]
+  );
+  return result.rows;
+}
+
+// Compact cards for inlining into review, list and profile payloads.
+async function getAlbumCards(albumIds) {
+  const ids = Array.from(new Set(albumIds.filter(Boolean)));
+  if (ids.length === 0) {
+    return new Map();
+  }
+
+  const rows = await fetchCatalogRows(ids, { detailedOnly: false });
+  return new Map(rows.map((row) => [row.spotify_id, toAlbumCard(row)]));
+}
+
+// Full album metadata (without tracks), only for albums fetched from the album endpoints.
+async function getAlbumDetails(albumIds) {
+  if (albumIds.length === 0) {
+    return new Map();
+  }
+
+  const rows = await fetchCatalogRows(albumIds, { detailedOnly: true });
+  return new Map(rows.map((row) => [row.spotify_id, toAlbumDetail(row)]));
+}
+
+// Albums people reference but the catalog has never seen come first, then the stalest entries.
+// Ids Spotify recently returned nothing for are skipped.
+async function findAlbumIdsToRefresh(limit) {
+  const missingResult = await pool.query(
+    `SELECT referenced.spotify_album_id AS spotify_id
+     FROM (
+       SELECT spotify_album_id FROM reviews
+       UNION
+       SELECT spotify_album_id FROM list_items
+       UNION
+       SELECT spotify_album_id FROM diary_entries
+       UNION
+       SELECT spotify_album_id FROM backlog_items
+     ) referenced
+     LEFT JOIN albums a ON a.spotify_id = referenced.spotify_album_id
+     LEFT JOIN album_fetch_misses m ON m.spotify_id = referenced.spotify_album_id
+     WHERE a.spotify_id IS NULL AND referenced.spotify_album_id ~ '^[A-Za-z0-9]{22}$'
+       AND (m.spotify_id IS NULL OR m.attempted_at < NOW() - $2::interval)
+     ORDER BY m.attempted_at ASC NULLS FIRST
+     LIMIT $1`,
+    [limit, catalogMissRetryAfter]
+  );
+
+  const ids = missingResult.rows.map((row) => row.spotify_id);
+  if (ids.length >= limit) {
+    return ids;
+  }
+
+  const staleResult = await pool.query(
+    `SELECT a.spotify_id
+     FROM albums a
+     LEFT JOIN album_fetch_misses m ON m.spotify_id = a.spotify_id
+     WHERE (a.fetched_at < NOW() - $1::interval OR a.has_details = false)
+       AND (m.spotify_id IS NULL OR m.attempted_at < NOW() - $3::interval)
+     ORDER BY a.fetched_at ASC
+     LIMIT $2`,
+    [catalogStaleAfter, limit - ids.length, catalogMissRetryAfter]
+  );
+
+  return [...ids, ...staleResult.rows.map((row) => row.spotify_id)];
+}
+
+// Spotify answers unknown ids in a batch with null, so whatever did not come back is a miss.
+async function recordFetchMisses(requestedIds, albums) {
+  const found = new Set(albums.map((album) => album.id));
+  const missed = requestedIds.filter((id) => !found.has(id));
+
+  if (found.size > 0) {
+    await pool.query('DELETE FROM album_fetch_misses WHERE spotify_id = ANY($1)', [[...found]]);
+  }
+  if (missed.length > 0) {
+    await pool.query(
+      `INSERT INTO album_fetch_misses (spotify_id)
+       SELECT * FROM UNNEST($1::text[])
+       ON CONFLICT (spotify_id) DO UPDATE SET attempted_at = NOW()`,
+      [missed]
+    );
+  }
+}
+
+async function refreshCatalog() {
+  const ids = await findAlbumIdsToRefresh(catalogRefreshBatchSize);
+  if (ids.length === 0) {
+    return 0;
+  }
+
+  const appToken = await spotify.getAppAccessToken();
+  for (let i = 0; i < ids.length; i += 20) {
+    const batch = ids.slice(i, i + 20);
+    const data = await spotify.getAlbums(appToken, batch);
+    const albums = extractAlbums(data);
+    await upsertAlbums(albums);
+    await recordFetchMisses(batch, albums);
+  }
+
+  return ids.length;
+}
+
+function startCatalogRefresh() {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) {
+      return;
+    }
+    running = true;
+    try {
+      await refreshCatalog();
+    } catch (err) {
+      console.error('Album catalog refresh failed:', err?.message);
+    } finally {
+      running = false;
+    }
+  }, catalogRefreshIntervalMs);
+  timer.unref();
+  return timer;
+}
+
+module.exports = {
+  recordAlbums,
+  getAlbumCards,
+  getAlbumDetails,
+  refreshCatalog,
+  startCatalogRefresh,
+};
@@ -0,0 +1,81 @@
+const { pool } = require('./db');
+const { getAlbumCards } = require('./catalog');
+const { cursorCondition, takePage } = require('./pagination');
+
+const diaryEntryColumns = `
+  d.id, d.spotify_album_id, to_char(d.listened_on, 'YYYY-MM-DD') AS listened_on,
+  d.is_relisten, d.created_at, r.id AS review_id, r.rating AS review_rating,
+  r.body AS review_body`;
+
+function toDiaryEntry(row, albumCards) {
+  return {
+    id: row.id,
+    spotify_album_id: row.spotify_album_id,
+    album: albumCards.get(row.spotify_album_id) || null,
+    listened_on: row.listened_on,
+    is_relisten: row.is_relisten,
+    review: row.review_id
+      ? { id: row.review_id, rating: row.review_rating, body: row.review_body }
+      : null,
+    created_at: row.created_at,
+  };
+}
+
+// Newest listen first. `from` and `to` are inclusive days, which is how the calendar asks
+// for one month. The cursor keys on the listen day, cast to a timestamp so the shared
+// pagination helpers apply.
+async function fetchDiaryEntries(userId, { from = null, to = null, limit, cursor = null }) {
+  const values = [userId, from, to];
+  const cursorClause = cursorCondition(values, 'd.listened_on::timestamptz', 'd.id', cursor);
+  values.push(limit + 1);
+  const result = await pool.query(
+    `SELECT ${diaryEntryColumns}, d.listened_on::timestamptz::text AS cursor_at
+     FROM diary_entries d
+     LEFT JOIN reviews r ON r.id = d.review_id
+     WHERE d.user_id = $1
+       AND ($2::date IS NULL OR d.listened_on >= $2::date)
+       AND ($3::date IS NULL OR d.listened_on <= $3::date)
+       ${cursorClause}
+     ORDER BY d.listened_on DESC, d.id DESC
+     LIMIT $${values.length}`,
+    values
+  );
+  const page = takePage(result.rows, limit);
+  const albumCards = await getAlbumCards(page.rows.map((row) => row.spotify_album_id));
+
+  return {
+    entries: page.rows.map((row) => toDiaryEntry(row, albumCards)),
+    nextCursor: page.nextCursor,
+  };
+}
+
+// Without an explicit flag, a listen counts as a relisten when the user logged the album on
+// an earlier day or had reviewed it before that day.
+async function createDiaryEntry(userId, { albumId, listenedOn, isRelisten, reviewId }) {
+  const result = await pool.query(
+    `WITH inserted AS (
+       INSERT INTO diary_entries (user_id, spotify_album_id, listened_on, is_relisten, review_id)
+       SELECT $1, $2, day, COALESCE($4::boolean, EXISTS (
+                SELECT 1 FROM diary_entries
+                WHERE user_id = $1 AND spotify_album_id = $2 AND listened_on < day
+              ) OR EXISTS (
+                SELECT 1 FROM reviews
+                WHERE user_id = $1 AND spotify_album_id = $2 AND created_at::date < day
+              )), $5::int
+       FROM (SELECT COALESCE($3::date, CURRENT_DATE) AS day) listen
+       RETURNING *
+     )
+     SELECT ${diaryEntryColumns}
+     FROM inserted d
+     LEFT JOIN reviews r ON r.id = d.review_id`,
+    [userId, albumId, listenedOn, isRelisten, reviewId]
+  );
+  const albumCards = await getAlbumCards([albumId]);
+
+  return toDiaryEntry(result.rows[0], albumCards);
+}
+
+module.exports = {
+  fetchDiaryEntries,
+  createDiaryEntry,
+};
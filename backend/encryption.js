@@ -0,0 +1,124 @@
+const crypto = require('crypto');
+
+// Envelope encryption for secrets stored in the database (Spotify refresh tokens).
+// Each value gets its own random data key; the data key is wrapped with a long-lived
+// key-encryption key (KEK) named by id, so rotating the KEK only re-wraps data keys.
+//
+// Stored format: enc:v1:<key id>:<wrapped data key>:<ciphertext>, where both payloads are
+// base64url(iv | auth tag | bytes) under AES-256-GCM.
+
+const formatPrefix = 'enc:v1:';
+const ivLength = 12;
+const tagLength = 16;
+
+// TOKEN_ENCRYPTION_KEYS="2024-01:<base64 32 bytes>,2025-06:<base64 32 bytes>"
+function parseKeys(raw) {
+  const keys = new Map();
+  (raw || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .forEach((entry) => {
+      const separator = entry.indexOf(':');
+      const id = entry.slice(0, separator);
+      const key = Buffer.from(entry.slice(separator + 1), 'base64');
+      if (separator <= 0 || !/^[A-Za-z0-9._-]+$/.test(id) || key.length !== 32) {
+        throw new Error('TOKEN_ENCRYPTION_KEYS entries must be <id>:<base64 32-byte key>');
+      }
+      keys.set(id, key);
+    });
+  return keys;
+}
+
+const keys = parseKeys(process.env.TOKEN_ENCRYPTION_KEYS);
+if (keys.size === 0) {
+  throw new Error('TOKEN_ENCRYPTION_KEYS is required');
+}
+
+// New values are written with TOKEN_ENCRYPTION_KEY_ID, defaulting to the last key listed.
+const activeKeyId = process.env.TOKEN_ENCRYPTION_KEY_ID || Array.from(keys.keys()).pop();
+if (!keys.has(activeKeyId)) {
+  throw new Error(`TOKEN_ENCRYPTION_KEY_ID ${activeKeyId} is not in TOKEN_ENCRYPTION_KEYS`);
+}
+
+function seal(key, plaintext) {
+  const iv = crypto.randomBytes(ivLength);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64url');
+}
+
+function open(key, payload) {
+  const data = Buffer.from(payload, 'base64url');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, data.subarray(0, ivLength));
+  decipher.setAuthTag(data.subarray(ivLength, ivLength + tagLength));
+  return Buffer.concat([decipher.update(data.subarray(ivLength + tagLength)), decipher.final()]);
+}
+
+function encryptSecret(plaintext) {
+  const dataKey = crypto.randomBytes(32);
+  const wrappedKey = seal(keys.get(activeKeyId), dataKey);
+  const ciphertext = seal(dataKey, Buffer.from(plaintext, 'utf8'));
+  return `${formatPrefix}${activeKeyId}:${wrappedKey}:${ciphertext}`;
+}
+
+function parseStored(value) {
+  const [keyId, wrappedKey, ciphertext] = value.slice(formatPrefix.length).split(':');
+  if (!keyId || !wrappedKey || !ciphertext) {
+    throw new Error('Malformed encrypted secret');
+  }
+  return { keyId, wrappedKey, ciphertext };
+}
+
+// Values written before encryption was introduced are returned as-is until re-encrypted.
+function decryptSecret(value) {
+  if (value === null || value === undefined || !isEncrypted(value)) {
+    return value ?? null;
+  }
+
+  const { keyId, wrappedKey, ciphertext } = parseStored(value);
+  const key = keys.get(keyId);
+  if (!key) {
+    throw new Error(`Unknown encryption key id: ${keyId}`);
+  }
+
+  const dataKey = open(key, wrappedKey);
+  return open(dataKey, ciphertext).toString('utf8');
+}
+
+function isEncrypted(value) {
+  return typeof value === 'string' && value.startsWith(formatPrefix);
+}
+
+// True for plaintext values and values wrapped with a key other than the active one.
+function needsReencryption(value) {
+  if (!isEncrypted(value)) {
+    return true;
+  }
+  return parseStored(value).keyId !== activeKeyId;
+}
+
+// Moves a stored value onto the active key. Encrypted values keep their ciphertext;
+// only the data key is unwrapped and wrapped again.
+function reencryptSecret(value) {
+  if (!isEncrypted(value)) {
+    return encryptSecret(value);
+  }
+
+  const { keyId, wrappedKey, ciphertext } = parseStored(value);
+  const key = keys.get(keyId);
+  if (!key) {
+    throw new Error(`Unknown encryption key id: ${keyId}`);
+  }
+
+  const rewrappedKey = seal(keys.get(activeKeyId), open(key, wrappedKey));
+  return `${formatPrefix}${activeKeyId}:${rewrappedKey}:${ciphertext}`;
+}
+
+module.exports = {
+  activeKeyId,
+  encryptSecret,
+  decryptSecret,
+  needsReencryption,
+  reencryptSecret,
+};
@@ -0,0 +1,304 @@
+const { pool } = require('./db');
+const { getAlbumCards } = require('./catalog');
+
+// Bumped whenever a field is renamed or removed so importers can tell archives apart.
+const exportFormatVersion = 1;
+
+function toIso(value) {
+  return value ? new Date(value).toISOString() : null;
+}
+
+// Everything a user has created, with album names and artists filled in from the catalog.
+// Albums the catalog has never fetched keep their Spotify id with null name fields.
+async function buildAccountExport(userId) {
+  const userResult = await pool.query(
+    `SELECT id, spotify_id, display_name, avatar_url, bio,
+            favorite_genres, favorite_album_ids, created_at
+     FROM users
+     WHERE id = $1`,
+    [userId]
+  );
+  const user = userResult.rows[0];
+  if (!user) {
+    return null;
+  }
+
+  const [
+    reviewResult,
+    revisionResult,
+    trackRatingResult,
+    listResult,
+    itemResult,
+    followingResult,
+    followerResult,
+    listeningResult,
+    diaryResult,
+    backlogResult,
+  ] = await Promise.all([
+    pool.query(
+      `SELECT id, spotify_album_id, rating, body, is_pinned, pinned_at, created_at, revised_at
+       FROM reviews
+       WHERE user_id = $1
+       ORDER BY created_at DESC, id DESC`,
+      [userId]
+    ),
+    pool.query(
+      `SELECT rr.review_id, rr.rating, rr.body, rr.written_at
+       FROM review_revisions rr
+       JOIN reviews r ON r.id = rr.review_id
+       WHERE r.user_id = $1
+       ORDER BY rr.written_at DESC, rr.id DESC`,
+      [userId]
+    ),
+    pool.query(
+      `SELECT tr.review_id, tr.spotify_track_id, tr.rating, tr.note
+       FROM track_ratings tr
+       JOIN reviews r ON r.id = tr.review_id
+       WHERE r.user_id = $1`,
+      [userId]
+    ),
+    pool.query(
+      `SELECT id, title, description, is_ranked, visibility, created_at
+       FROM lists
+       WHERE user_id = $1
+       ORDER BY created_at DESC, id DESC`,
+      [userId]
+    ),
+    pool.query(
+      `SELECT li.list_id, li.spotify_album_id, li.created_at
+       FROM list_items li
+       JOIN lists l ON l.id = li.list_id
+       WHERE l.user_id = $1
+       ORDER BY li.position DESC, li.created_at DESC`,
+      [userId]
+    ),
+    pool.query(
+      `SELECT u.id, u.spotify_id, u.display_name, f.created_at
+       FROM follows f
+       JOIN users u ON u.id = f.following_id
+       WHERE f.follower_id = $1
+       ORDER BY f.created_at DESC`,
+      [userId]
+    ),
+    pool.query(
+      `SELECT u.id, u.spotify_id, u.display_name, f.created_at
+       FROM follows f
+       JOIN users u ON u.id = f.follower_id
+       WHERE f.following_id = $1
+       ORDER BY f.created_at DESC`,
+      [userId]
+    ),
+    pool.query(
+      `SELECT m.artist, m.album, m.spotify_album_id,
+              SUM(s.play_count) AS play_count,
+              COUNT(*) AS days_listened,
+              MIN(s.first_played_at) AS first_listened_at,
+              MAX(s.last_played_at) AS last_listened_at
+       FROM listening_sessions s
+       JOIN listening_album_matches m ON m.match_key = s.match_key
+       WHERE s.user_id = $1
+       GROUP BY m.match_key
+       ORDER BY play_count DESC`,
+      [userId]
+    ),
+    pool.query(
+      `SELECT spotify_album_id, to_char(listened_on, 'YYYY-MM-DD') AS listened_on,
+              is_relisten, review_id, created_at
+       FROM diary_entries
+       WHERE user_id = $1
+       ORDER BY listened_on DESC, id DESC`,
+      [userId]
+    ),
+    pool.query(
+      `SELECT spotify_album_id, priority, created_at
+       FROM backlog_items
+       WHERE user_id = $1
+       ORDER BY CASE priority WHEN 'high' THEN 0 WHEN 'normal' THEN 1 ELSE 2 END, position, id`,
+      [userId]
+    ),
+  ]);
+
+  const albumCards = await getAlbumCards([
+    ...reviewResult.rows.map((row) => row.spotify_album_id),
+    ...itemResult.rows.map((row) => row.spotify_album_id),
+    ...diaryResult.rows.map((row) => row.spotify_album_id),
+    ...backlogResult.rows.map((row) => row.spotify_album_id),
+    ...(user.favorite_album_ids || []),
+  ]);
+  const albumFields = (albumId) => {
+    const card = albumCards.get(albumId);
+    return {
+      spotify_album_id: albumId,
+      album_name: card?.name || null,
+      artists: card?.artists || [],
+    };
+  };
+
+  const revisionsByReview = new Map();
+  revisionResult.rows.forEach((row) => {
+    const revisions = revisionsByReview.get(row.review_id) || [];
+    revisions.push({ rating: row.rating, body: row.body, written_at: toIso(row.written_at) });
+    revisionsByReview.set(row.review_id, revisions);
+  });
+
+  const trackRatingsByReview = new Map();
+  trackRatingResult.rows.forEach((row) => {
+    const trackRatings = trackRatingsByReview.get(row.review_id) || [];
+    trackRatings.push({ spotify_track_id: row.spotify_track_id, rating: row.rating, note: row.note });
+    trackRatingsByReview.set(row.review_id, trackRatings);
+  });
+
+  const itemsByList = new Map();
+  itemResult.rows.forEach((row) => {
+    const items = itemsByList.get(row.list_id) || [];
+    items.push({
+      rank: items.length + 1,
+      ...albumFields(row.spotify_album_id),
+      added_at: toIso(row.created_at),
+    });
+    itemsByList.set(row.list_id, items);
+  });
+
+  const toFollow = (row) => ({
+    id: row.id,
+    spotify_id: row.spotify_id,
+    display_name: row.display_name,
+    since: toIso(row.created_at),
+  });
+
+  return {
+    format_version: exportFormatVersion,
+    exported_at: new Date().toISOString(),
+    profile: {
+      id: user.id,
+      spotify_id: user.spotify_id,
+      display_name: user.display_name,
+      bio: user.bio,
+      avatar_url: user.avatar_url,
+      favorite_genres: user.favorite_genres || [],
+      favorite_albums: (user.favorite_album_ids || []).map(albumFields),
+      created_at: toIso(user.created_at),
+    },
+    reviews: reviewResult.rows.map((row) => ({
+      id: row.id,
+      ...albumFields(row.spotify_album_id),
+      rating: row.rating,
+      body: row.body,
+      is_pinned: row.is_pinned,
+      pinned_at: toIso(row.pinned_at),
+      created_at: toIso(row.created_at),
+      revised_at: toIso(row.revised_at),
+      revisions: revisionsByReview.get(row.id) || [],
+      track_ratings: trackRatingsByReview.get(row.id) || [],
+    })),
+    lists: listResult.rows.map((row) => ({
+      id: row.id,
+      title: row.title,
+      description: row.description,
+      is_ranked: row.is_ranked,
+      visibility: row.visibility,
+      created_at: toIso(row.created_at),
+      items: itemsByList.get(row.id) || [],
+    })),
+    following: followingResult.rows.map(toFollow),
+    followers: followerResult.rows.map(toFollow),
+    listening: listeningResult.rows.map((row) => ({
+      artist: row.artist,
+      album: row.album,
+      spotify_album_id: row.spotify_album_id,
+      play_count: Number(row.play_count),
+      days_listened: Number(row.days_listened),
+      first_listened_at: toIso(row.first_listened_at),
+      last_listened_at: toIso(row.last_listened_at),
+    })),
+    diary: diaryResult.rows.map((row) => ({
+      ...albumFields(row.spotify_album_id),
+      listened_on: row.listened_on,
+      is_relisten: row.is_relisten,
+      review_id: row.review_id,
+      logged_at: toIso(row.created_at),
+    })),
+    backlog: backlogResult.rows.map((row) => ({
+      ...albumFields(row.spotify_album_id),
+      priority: row.priority,
+      added_at: toIso(row.created_at),
+    })),
+  };
+}
+
+// Spreadsheet apps evaluate cells starting with these characters as formulas.
+const formulaPrefix = /^[=+\-@\t\r]/;
+
+function csvCell(value) {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  let text = Array.isArray(value) ? value.join('; ') : String(value);
+  if (formulaPrefix.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(columns, rows) {
+  const lines = [columns.join(',')];
+  rows.forEach((row) => {
+    lines.push(columns.map((column) => csvCell(row[column])).join(','));
+  });
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+function reviewsCsv(archive) {
+  return toCsv(
+    [
+      'review_id',
+      'spotify_album_id',
+      'album_name',
+      'artists',
+      'rating',
+      'body',
+      'is_pinned',
+      'created_at',
+      'revised_at',
+    ],
+    archive.reviews.map((review) => ({ ...review, review_id: review.id }))
+  );
+}
+
+// One row per list item; an empty list still gets a row so it survives a round trip.
+function listsCsv(archive) {
+  const rows = archive.lists.flatMap((list) => {
+    const listFields = {
+      list_id: list.id,
+      list_title: list.title,
+      list_description: list.description,
+      is_ranked: list.is_ranked,
+      visibility: list.visibility,
+    };
+    return list.items.length > 0
+      ? list.items.map((item) => ({ ...listFields, ...item }))
+      : [listFields];
+  });
+
+  return toCsv(
+    [
+      'list_id',
+      'list_title',
+      'list_description',
+      'is_ranked',
+      'visibility',
+      'rank',
+      'spotify_album_id',
+      'album_name',
+      'artists',
+      'added_at',
+    ],
+    rows
+  );
+}
+
+module.exports = {
+  buildAccountExport,
+  reviewsCsv,
+  listsCsv,
+};
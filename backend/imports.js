@@ -0,0 +1,343 @@
+const crypto = require('crypto');
+const { pool } = require('./db');
+const { spotify } = require('./spotify');
+const { getAlbumCards } = require('./catalog');
+const { searchCandidates, classifyCandidates, isSpotifyOutage } = require('./matching');
+
+const maxImportRows = 2000;
+
+// RFC 4180: quoted fields may hold commas, doubled quotes and line breaks.
+function parseCsv(text) {
+  const rows = [];
+  let row = [];
+  let value = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i += 1) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        value += '"';
+        i += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i += 1;
+      }
+      row.push(value);
+      rows.push(row);
+      row = [];
+      value = '';
+    } else {
+      value += char;
+    }
+  }
+
+  if (value !== '' || row.length > 0) {
+    row.push(value);
+    rows.push(row);
+  }
+  return rows.filter((entry) => entry.some((cell) => cell.trim() !== ''));
+}
+
+function headerName(cell) {
+  return cell.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+function createImportError(code) {
+  const error = new Error(code);
+  error.code = code;
+  return error;
+}
+
+// RYM stores half stars as 1-10. Generic files use `ratingScale`: 1-10, or 0.5-5 stars.
+// Zero and anything unreadable mean "not rated", which still works for list imports.
+function parseRating(value, ratingScale) {
+  const number = Number.parseFloat(String(value || '').trim());
+  if (!Number.isFinite(number) || number <= 0) {
+    return null;
+  }
+  const rating = Math.round(ratingScale === 5 ? number * 2 : number);
+  return rating >= 1 && rating <= 10 ? rating : null;
+}
+
+function parseDate(value) {
+  const text = String(value || '').trim();
+  if (!text) {
+    return null;
+  }
+  const iso = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+  const date = iso
+    ? new Date(Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])))
+    : new Date(text);
+  if (Number.isNaN(date.getTime()) || date.getTime() > Date.now()) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+function readRymRows(header, records, ratingScale) {
+  const column = (name) => header.indexOf(name);
+  const first = column('first_name');
+  const last = column('last_name');
+  const title = column('title');
+  const rating = column('rating');
+  const review = column('review');
+
+  return records.map((record) => ({
+    artist: [record[first], record[last]].map((part) => (part || '').trim()).filter(Boolean).join(' '),
+    album: (record[title] || '').trim(),
+    rating: parseRating(record[rating], ratingScale),
+    rated_on: null,
+    body: (record[review] || '').trim().slice(0, 2000) || null,
+  }));
+}
+
+function readGenericRows(header, records, ratingScale) {
+  const column = (...names) => names.map((name) => header.indexOf(name)).find((index) => index >= 0);
+  const artist = header ? column('artist', 'artist_name') : 0;
+  const album = header ? column('album', 'title', 'album_name') : 1;
+  const rating = header ? column('rating', 'score') : 2;
+  const date = header ? column('date', 'rated_on', 'rated_at', 'listened_at') : 3;
+  const review = header ? column('review', 'body', 'notes') : undefined;
+
+  return records.map((record) => ({
+    artist: (record[artist] || '').trim(),
+    album: (record[album] || '').trim(),
+    rating: rating === undefined ? null : parseRating(record[rating], ratingScale),
+    rated_on: date === undefined ? null : parseDate(record[date]),
+    body: review === undefined ? null : (record[review] || '').trim().slice(0, 2000) || null,
+  }));
+}
+
+// Recognises a RateYourMusic export by its header; anything else is read as
+// artist,album,rating,date with or without a header row. Throws import_empty,
+// import_format_unknown or import_too_large.
+function parseImportFile(text, { ratingScale = 10 } = {}) {
+  const records = parseCsv(text);
+  if (records.length === 0) {
+    throw createImportError('import_empty');
+  }
+
+  const header = records[0].map(headerName);
+  let source = 'csv';
+  let rows;
+  if (header.includes('title') && header.includes('last_name')) {
+    source = 'rym';
+    rows = readRymRows(header, records.slice(1), 10);
+  } else if (header.includes('artist') && (header.includes('album') || header.includes('title'))) {
+    rows = readGenericRows(header, records.slice(1), ratingScale);
+  } else if (records[0].length >= 2 && parseRating(records[0][2], ratingScale) !== null) {
+    rows = readGenericRows(null, records, ratingScale);
+  } else {
+    throw createImportError('import_format_unknown');
+  }
+
+  rows = rows
+    .map((row, index) => ({ ...row, row_number: index + 1 }))
+    .filter((row) => row.artist && row.album);
+  if (rows.length === 0) {
+    throw createImportError('import_empty');
+  }
+  if (rows.length > maxImportRows) {
+    throw createImportError('import_too_large');
+  }
+
+  return {
+    source,
+    rows,
+    checksum: crypto.createHash('sha256').update(text).digest('hex'),
+  };
+}
+
+// Rows the user already resolved in an earlier import are reused without searching again,
+// which keeps re-imports fast and makes a confirmed pick stick.
+async function findPreviousMatch(userId, row) {
+  const result = await pool.query(
+    `SELECT ir.spotify_album_id
+     FROM import_rows ir
+     JOIN imports i ON i.id = ir.import_id
+     WHERE i.user_id = $1 AND ir.match_key = $2 AND ir.id <> $3
+       AND ir.status IN ('matched', 'confirmed')
+     ORDER BY (ir.status = 'confirmed') DESC, ir.id DESC
+     LIMIT 1`,
+    [userId, row.match_key, row.id]
+  );
+  return result.rows[0]?.spotify_album_id || null;
+}
+
+async function matchImportRow(userId, row, accessToken) {
+  const previous = await findPreviousMatch(userId, row);
+  if (previous) {
+    await pool.query(
+      `UPDATE import_rows SET status = 'matched', spotify_album_id = $2 WHERE id = $1`,
+      [row.id, previous]
+    );
+    return;
+  }
+
+  const candidates = await searchCandidates(accessToken, row);
+  const { status, spotifyAlbumId } = classifyCandidates(candidates);
+  await pool.query(
+    `UPDATE import_rows
+     SET status = $2, spotify_album_id = $3, candidates = $4
+     WHERE id = $1`,
+    [row.id, status, spotifyAlbumId, JSON.stringify(candidates)]
+  );
+}
+
+// A row that fails for any reason other than a Spotify outage is left for the user to
+// pick by hand, so one odd title cannot hold up the rest of the import.
+async function matchImport(importId) {
+  const importResult = await pool.query('SELECT user_id FROM imports WHERE id = $1', [importId]);
+  const userId = importResult.rows[0]?.user_id;
+  if (!userId) {
+    return;
+  }
+
+  const rowResult = await pool.query(
+    `SELECT id, artist, album, match_key
+     FROM import_rows
+     WHERE import_id = $1 AND status = 'pending'
+     ORDER BY row_number`,
+    [importId]
+  );
+
+  for (const row of rowResult.rows) {
+    // The client caches the token; asking per row renews it during a long import.
+    const accessToken = await spotify.getAppAccessToken();
+    try {
+      await matchImportRow(userId, row, accessToken);
+    } catch (err) {
+      if (isSpotifyOutage(err)) {
+        throw err;
+      }
+      console.error(`Matching import row ${row.id} failed:`, err?.message);
+      await pool.query(`UPDATE import_rows SET status = 'unmatched' WHERE id = $1`, [row.id]);
+    }
+  }
+
+  await pool.query(`UPDATE imports SET status = 'ready' WHERE id = $1`, [importId]);
+}
+
+// The matching queue gave up on the import. Rows it never reached stay pending, and
+// uploading the same file again restarts matching.
+async function failImport(importId) {
+  await pool.query(
+    `UPDATE imports SET status = 'failed' WHERE id = $1 AND status = 'matching'`,
+    [importId]
+  );
+}
+
+// Imports a restart left half matched.
+async function findMatchingImportIds() {
+  const result = await pool.query(`SELECT id FROM imports WHERE status = 'matching' ORDER BY id`);
+  return result.rows.map((row) => row.id);
+}
+
+function summarizeImport(row) {
+  return {
+    id: row.id,
+    source: row.source,
+    filename: row.filename,
+    rating_scale: row.rating_scale,
+    status: row.status,
+    list_id: row.list_id,
+    created_at: row.created_at,
+    committed_at: row.committed_at,
+    counts: {
+      total: Number(row.total || 0),
+      pending: Number(row.pending || 0),
+      matched: Number(row.matched || 0),
+      ambiguous: Number(row.ambiguous || 0),
+      unmatched: Number(row.unmatched || 0),
+      confirmed: Number(row.confirmed || 0),
+      skipped: Number(row.skipped || 0),
+    },
+  };
+}
+
+const importSummaryColumns = `
+  i.id, i.source, i.filename, i.rating_scale, i.status, i.list_id, i.created_at, i.committed_at,
+  COUNT(ir.id) AS total,
+  COUNT(ir.id) FILTER (WHERE ir.status = 'pending') AS pending,
+  COUNT(ir.id) FILTER (WHERE ir.status = 'matched') AS matched,
+  COUNT(ir.id) FILTER (WHERE ir.status = 'ambiguous') AS ambiguous,
+  COUNT(ir.id) FILTER (WHERE ir.status = 'unmatched') AS unmatched,
+  COUNT(ir.id) FILTER (WHERE ir.status = 'confirmed') AS confirmed,
+  COUNT(ir.id) FILTER (WHERE ir.status = 'skipped') AS skipped`;
+
+async function fetchImports(userId) {
+  const result = await pool.query(
+    `SELECT ${importSummaryColumns}
+     FROM imports i
+     LEFT JOIN import_rows ir ON ir.import_id = i.id
+     WHERE i.user_id = $1
+     GROUP BY i.id
+     ORDER BY i.created_at DESC, i.id DESC`,
+    [userId]
+  );
+  return result.rows.map(summarizeImport);
+}
+
+// One import with every row; resolved rows carry the chosen album's card.
+async function fetchImport(importId, userId) {
+  const importResult = await pool.query(
+    `SELECT ${importSummaryColumns}
+     FROM imports i
+     LEFT JOIN import_rows ir ON ir.import_id = i.id
+     WHERE i.id = $1 AND i.user_id = $2
+     GROUP BY i.id`,
+    [importId, userId]
+  );
+  if (importResult.rows.length === 0) {
+    return null;
+  }
+
+  const rowResult = await pool.query(
+    `SELECT id, row_number, artist, album, rating, to_char(rated_on, 'YYYY-MM-DD') AS rated_on,
+            status, spotify_album_id, candidates
+     FROM import_rows
+     WHERE import_id = $1
+     ORDER BY row_number`,
+    [importId]
+  );
+  const albumCards = await getAlbumCards(
+    rowResult.rows.map((row) => row.spotify_album_id).filter(Boolean)
+  );
+
+  return {
+    ...summarizeImport(importResult.rows[0]),
+    rows: rowResult.rows.map((row) => ({
+      id: row.id,
+      row_number: row.row_number,
+      artist: row.artist,
+      album: row.album,
+      rating: row.rating,
+      rated_on: row.rated_on,
+      status: row.status,
+      spotify_album_id: row.spotify_album_id,
+      match: row.spotify_album_id ? albumCards.get(row.spotify_album_id) || null : null,
+      candidates: row.candidates || [],
+    })),
+  };
+}
+
+module.exports = {
+  parseImportFile,
+  matchImport,
+  failImport,
+  findMatchingImportIds,
+  fetchImports,
+  fetchImport,
+};
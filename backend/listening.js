@@ -0,0 +1,235 @@
+const { pool, withTransaction } = require('./db');
+const { spotify } = require('./spotify');
+const { getAlbumCards } = require('./catalog');
+const { matchKey, searchCandidates, classifyCandidates, isSpotifyOutage } = require('./matching');
+
+// Spotify only counts a stream after 30 seconds; anything shorter was skipped.
+const minPlayMs = 30_000;
+const matchBatchSize = 50;
+
+function createListeningError(code) {
+  const error = new Error(code);
+  error.code = code;
+  return error;
+}
+
+// Extended streaming history (Streaming_History_Audio_*.json) is an array of plays such as
+// { ts, ms_played, master_metadata_album_artist_name, master_metadata_album_album_name }.
+// Podcast episodes, plays without album metadata and skips are left out. Throws
+// listening_history_invalid, or listening_history_basic for the short account-data history,
+// which names tracks but not albums.
+function parseStreamingHistory(text) {
+  let entries;
+  try {
+    entries = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch (err) {
+    throw createListeningError('listening_history_invalid');
+  }
+  if (!Array.isArray(entries)) {
+    throw createListeningError('listening_history_invalid');
+  }
+
+  const sample = entries.find((entry) => entry && typeof entry === 'object');
+  if (sample && 'msPlayed' in sample && !('ms_played' in sample)) {
+    throw createListeningError('listening_history_basic');
+  }
+  if (sample && !('ms_played' in sample && 'ts' in sample)) {
+    throw createListeningError('listening_history_invalid');
+  }
+
+  const plays = [];
+  const albums = new Map();
+  entries.forEach((entry) => {
+    const artist = entry?.master_metadata_album_artist_name;
+    const album = entry?.master_metadata_album_album_name;
+    const playedAt = Date.parse(entry?.ts);
+    const msPlayed = Number(entry?.ms_played);
+    if (!artist || !album || Number.isNaN(playedAt) || !(msPlayed >= minPlayMs)) {
+      return;
+    }
+
+    const key = matchKey(artist, album);
+    plays.push({ match_key: key, played_at: new Date(playedAt).toISOString(), ms_played: msPlayed });
+    if (!albums.has(key)) {
+      albums.set(key, { match_key: key, artist, album });
+    }
+  });
+
+  return { plays, albums: [...albums.values()] };
+}
+
+// Stores new plays and folds them into the day-level sessions in one statement. Plays
+// already on record are ignored, so re-uploading a file changes nothing.
+async function recordListeningHistory(userId, { plays, albums }) {
+  return withTransaction(async (client) => {
+    const result = await client.query(
+      `WITH inserted AS (
+         INSERT INTO listening_plays (user_id, match_key, played_at, ms_played)
+         SELECT $1, *
+         FROM UNNEST($2::text[], $3::timestamptz[], $4::int[])
+         ON CONFLICT DO NOTHING
+         RETURNING match_key, played_at, ms_played
+       ),
+       sessions AS (
+         INSERT INTO listening_sessions
+           (user_id, match_key, listened_on, first_played_at, last_played_at, play_count, ms_played)
+         SELECT $1, match_key, (played_at AT TIME ZONE 'UTC')::date,
+                MIN(played_at), MAX(played_at), COUNT(*), SUM(ms_played)
+         FROM inserted
+         GROUP BY match_key, (played_at AT TIME ZONE 'UTC')::date
+         ON CONFLICT (user_id, match_key, listened_on) DO UPDATE
+         SET first_played_at = LEAST(listening_sessions.first_played_at, EXCLUDED.first_played_at),
+             last_played_at = GREATEST(listening_sessions.last_played_at, EXCLUDED.last_played_at),
+             play_count = listening_sessions.play_count + EXCLUDED.play_count,
+             ms_played = listening_sessions.ms_played + EXCLUDED.ms_played
+       )
+       SELECT COUNT(*) AS new_plays FROM inserted`,
+      [
+        userId,
+        plays.map((play) => play.match_key),
+        plays.map((play) => play.played_at),
+        plays.map((play) => play.ms_played),
+      ]
+    );
+
+    await client.query(
+      `INSERT INTO listening_album_matches (match_key, artist, album)
+       SELECT * FROM UNNEST($1::text[], $2::text[], $3::text[])
+       ON CONFLICT (match_key) DO NOTHING`,
+      [
+        albums.map((album) => album.match_key),
+        albums.map((album) => album.artist),
+        albums.map((album) => album.album),
+      ]
+    );
+
+    return { plays: plays.length, newPlays: Number(result.rows[0].new_plays) };
+  });
+}
+
+async function matchListeningAlbum(row, accessToken) {
+  const candidates = await searchCandidates(accessToken, row);
+  const { status, spotifyAlbumId } = classifyCandidates(candidates);
+  await pool.query(
+    `UPDATE listening_album_matches
+     SET status = $2, spotify_album_id = $3, matched_at = NOW()
+     WHERE match_key = $1`,
+    [row.match_key, status === 'matched' ? 'matched' : 'unmatched', spotifyAlbumId]
+  );
+}
+
+// Finds Spotify albums for history entries nobody has matched yet, most played first so
+// profiles fill in quickly. There is nobody to ask about an uncertain match, so anything
+// short of a confident match is recorded as unmatched. So is an album whose search fails
+// for a reason other than a Spotify outage: left pending, it would be picked first again
+// on every run and hold up everyone's history.
+async function matchListeningAlbums() {
+  for (;;) {
+    const result = await pool.query(
+      `SELECT m.match_key, m.artist, m.album
+       FROM listening_album_matches m
+       JOIN listening_sessions s ON s.match_key = m.match_key
+       WHERE m.status = 'pending'
+       GROUP BY m.match_key
+       ORDER BY SUM(s.play_count) DESC
+       LIMIT $1`,
+      [matchBatchSize]
+    );
+    if (result.rows.length === 0) {
+      return;
+    }
+
+    for (const row of result.rows) {
+      // The client caches the token; asking per album renews it during a long run.
+      const accessToken = await spotify.getAppAccessToken();
+      try {
+        await matchListeningAlbum(row, accessToken);
+      } catch (err) {
+        if (isSpotifyOutage(err)) {
+          throw err;
+        }
+        console.error(`Matching listening album ${row.match_key} failed:`, err?.message);
+        await pool.query(
+          `UPDATE listening_album_matches
+           SET status = 'unmatched', matched_at = NOW()
+           WHERE match_key = $1`,
+          [row.match_key]
+        );
+      }
+    }
+  }
+}
+
+async function fetchListeningSummary(userId) {
+  const result = await pool.query(
+    `SELECT COUNT(DISTINCT s.match_key) AS albums,
+            COALESCE(SUM(s.play_count), 0) AS plays,
+            MIN(s.first_played_at) AS first_listened_at,
+            MAX(s.last_played_at) AS last_listened_at,
+            COUNT(DISTINCT s.match_key) FILTER (WHERE m.status = 'pending') AS pending,
+            COUNT(DISTINCT s.match_key) FILTER (WHERE m.status = 'unmatched') AS unmatched
+     FROM listening_sessions s
+     JOIN listening_album_matches m ON m.match_key = s.match_key
+     WHERE s.user_id = $1`,
+    [userId]
+  );
+  const row = result.rows[0];
+
+  return {
+    albums: Number(row.albums),
+    plays: Number(row.plays),
+    first_listened_at: row.first_listened_at,
+    last_listened_at: row.last_listened_at,
+    pending_albums: Number(row.pending),
+    unmatched_albums: Number(row.unmatched),
+  };
+}
+
+// Matched albums from the user's history that they have not reviewed, most played first.
+async function fetchUnratedListens(userId, { limit }) {
+  const result = await pool.query(
+    `SELECT m.spotify_album_id,
+            SUM(s.play_count) AS play_count,
+            COUNT(DISTINCT s.listened_on) AS days_listened,
+            MIN(s.first_played_at) AS first_listened_at,
+            MAX(s.last_played_at) AS last_listened_at
+     FROM listening_sessions s
+     JOIN listening_album_matches m ON m.match_key = s.match_key
+     WHERE s.user_id = $1
+       AND m.status = 'matched'
+       AND NOT EXISTS (
+         SELECT 1 FROM reviews r
+         WHERE r.user_id = s.user_id AND r.spotify_album_id = m.spotify_album_id
+       )
+     GROUP BY m.spotify_album_id
+     ORDER BY play_count DESC, last_listened_at DESC
+     LIMIT $2`,
+    [userId, limit]
+  );
+  const albumCards = await getAlbumCards(result.rows.map((row) => row.spotify_album_id));
+
+  return result.rows.map((row) => ({
+    spotify_album_id: row.spotify_album_id,
+    album: albumCards.get(row.spotify_album_id) || null,
+    play_count: Number(row.play_count),
+    days_listened: Number(row.days_listened),
+    first_listened_at: row.first_listened_at,
+    last_listened_at: row.last_listened_at,
+  }));
+}
+
+async function clearListeningHistory(userId) {
+  await withTransaction(async (client) => {
+    await client.query('DELETE FROM listening_sessions WHERE user_id = $1', [userId]);
+    await client.query('DELETE FROM listening_plays WHERE user_id = $1', [userId]);
+  });
+}
+
+module.exports = {
+  parseStreamingHistory,
+  recordListeningHistory,
+  matchListeningAlbums,
+  fetchListeningSummary,
+  fetchUnratedListens,
+  clearListeningHistory,
+};
@@ -0,0 +1,202 @@
+const { spotify } = require('./spotify');
+const { recordAlbums } = require('./catalog');
+
+// Fuzzy matching of free-text artist and album names to Spotify albums, shared by the CSV
+// importer and listening history.
+
+// A candidate this close to the row is taken without asking, unless a differently named
+// album scores within `ambiguityMargin` of it.
+const autoMatchScore = 0.85;
+const ambiguityMargin = 0.05;
+// Below this nothing is offered; the row needs a manual pick.
+const candidateScore = 0.5;
+const maxCandidates = 5;
+const retryDelayMs = 30_000;
+const maxTaskAttempts = 20;
+
+// Edition markers that Spotify and RYM disagree on, e.g. "OK Computer (Remastered)".
+const editionSuffix =
+  /\s*[([][^)\]]*(remaster|deluxe|edition|anniversary|expanded|version|bonus|reissue|mono|stereo)[^)\]]*[)\]]\s*/gi;
+
+function normalizeTitle(value) {
+  return String(value || '')
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(editionSuffix, ' ')
+    .replace(/\s+-\s+[^-]*(remaster|deluxe|edition|version)[^-]*$/i, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/^the\s+/, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+// RYM writes "Beatles, The"; Spotify writes "The Beatles".
+function normalizeArtist(value) {
+  const text = String(value || '').trim();
+  const inverted = text.match(/^(.*),\s*(the|a|an)$/i);
+  return normalizeTitle(inverted ? `${inverted[2]} ${inverted[1]}` : text);
+}
+
+function matchKey(artist, album) {
+  return `${normalizeArtist(artist)}|${normalizeTitle(album)}`;
+}
+
+function bigrams(text) {
+  const compact = text.replace(/\s+/g, ' ');
+  const grams = new Map();
+  for (let i = 0; i < compact.length - 1; i += 1) {
+    const gram = compact.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) || 0) + 1);
+  }
+  return grams;
+}
+
+// Dice coefficient over character bigrams: 1 for identical strings, 0 for nothing shared.
+function similarity(a, b) {
+  if (a === b) {
+    return 1;
+  }
+  if (a.length < 2 || b.length < 2) {
+    return 0;
+  }
+  const left = bigrams(a);
+  const right = bigrams(b);
+  let shared = 0;
+  left.forEach((count, gram) => {
+    shared += Math.min(count, right.get(gram) || 0);
+  });
+  return (2 * shared) / (a.length - 1 + b.length - 1);
+}
+
+function scoreCandidate(row, album) {
+  const artists = (album.artists || []).map((artist) => artist.name);
+  const rowArtist = normalizeArtist(row.artist);
+  const artistScore = Math.max(
+    similarity(rowArtist, normalizeArtist(artists.join(' '))),
+    ...artists.map((name) => similarity(rowArtist, normalizeArtist(name)))
+  );
+  const albumScore = similarity(normalizeTitle(row.album), normalizeTitle(album.name));
+
+  return {
+    id: album.id,
+    name: album.name,
+    artists,
+    image: album.images?.[1]?.url || album.images?.[0]?.url || null,
+    release_date: album.release_date || null,
+    score: Math.round((0.6 * albumScore + 0.4 * artistScore) * 100) / 100,
+  };
+}
+
+// Reissues of one album share a normalized title, so they never make a row ambiguous;
+// Spotify's own ranking picks between them.
+function classifyCandidates(candidates) {
+  const [best] = candidates;
+  if (!best || best.score < candidateScore) {
+    return { status: 'unmatched', spotifyAlbumId: null };
+  }
+
+  const bestTitle = normalizeTitle(best.name);
+  const rival = candidates.find(
+    (candidate) =>
+      candidate.score >= best.score - ambiguityMargin && normalizeTitle(candidate.name) !== bestTitle
+  );
+  if (best.score >= autoMatchScore && !rival) {
+    return { status: 'matched', spotifyAlbumId: best.id };
+  }
+  return { status: 'ambiguous', spotifyAlbumId: null };
+}
+
+// `row` is any { artist, album }.
+async function searchCandidates(accessToken, row) {
+  const queries = [
+    { query: `album:${row.album} artist:${row.artist}`, limit: maxCandidates },
+    { query: row.album, limit: 10 },
+  ];
+  const byId = new Map();
+  let candidates = [];
+
+  // The field-filtered query is precise but misses on small spelling differences, so the
+  // plain title search only runs when it found nothing good enough.
+  for (const { query, limit } of queries) {
+    const data = await spotify.searchAlbums(accessToken, query, { limit });
+    recordAlbums(data);
+    (data.albums?.items || []).filter(Boolean).forEach((album) => {
+      if (!byId.has(album.id)) {
+        byId.set(album.id, scoreCandidate(row, album));
+      }
+    });
+    candidates = [...byId.values()].sort((a, b) => b.score - a.score);
+    if (candidates[0]?.score >= autoMatchScore) {
+      break;
+    }
+  }
+  return candidates.slice(0, maxCandidates);
+}
+
+// Throttling and outages pass; any other error would fail the same way again.
+function isSpotifyOutage(err) {
+  return err?.code === 'spotify_throttled' || err?.code === 'spotify_unavailable';
+}
+
+// Background matching runs one task at a time so a large upload cannot starve interactive
+// searches of Spotify's rate budget. Tasks are keyed so the same work is never queued
+// twice. A task that fails because Spotify is throttled or down is retried later, up to
+// maxTaskAttempts times; tasks resume from whatever they have not finished, so a retry
+// never redoes work. When a task gives up, its `onGiveUp` gets the error.
+function createMatchQueue() {
+  const queue = [];
+  const tasks = new Map();
+  let running = false;
+
+  async function drain() {
+    if (running) {
+      return;
+    }
+    running = true;
+    while (queue.length > 0) {
+      const key = queue.shift();
+      const entry = tasks.get(key);
+      tasks.delete(key);
+      try {
+        await entry.task();
+      } catch (err) {
+        if (isSpotifyOutage(err) && entry.attempt < maxTaskAttempts) {
+          const delay = Math.max(err.retryAfterMs || 0, retryDelayMs);
+          setTimeout(() => schedule(key, { ...entry, attempt: entry.attempt + 1 }), delay).unref();
+        } else {
+          console.error(`Matching ${key} failed:`, err?.message);
+          try {
+            await entry.onGiveUp?.(err);
+          } catch (giveUpErr) {
+            console.error(`Giving up on ${key} failed:`, giveUpErr?.message);
+          }
+        }
+      }
+    }
+    running = false;
+  }
+
+  function schedule(key, entry) {
+    if (!tasks.has(key)) {
+      queue.push(key);
+      tasks.set(key, entry);
+    }
+    drain();
+  }
+
+  function enqueue(key, task, { onGiveUp = null } = {}) {
+    schedule(key, { task, onGiveUp, attempt: 1 });
+  }
+
+  return { enqueue };
+}
+
+module.exports = {
+  matchKey,
+  scoreCandidate,
+  classifyCandidates,
+  searchCandidates,
+  isSpotifyOutage,
+  createMatchQueue,
+};
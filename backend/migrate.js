@@ -0,0 +1,216 @@
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+const { pool } = require('./db');
+
+// Migrations live in migrations/ as <version>_<name>.up.sql with an optional matching
+// .down.sql. Versions are zero-padded so they sort in order. Each migration runs in its own
+// transaction together with its schema_migrations row. The checksum covers the up file only;
+// editing an applied up file is reported as a mismatch.
+
+const migrationsDir = path.join(__dirname, 'migrations');
+const migrationFilePattern = /^(\d+)_([a-z0-9_]+)\.(up|down)\.sql$/;
+// Arbitrary constant shared by every runner so concurrent deploys apply migrations one at a time.
+const migrationLockId = 728_401_133;
+
+function checksum(sql) {
+  return crypto.createHash('sha256').update(sql).digest('hex');
+}
+
+function loadMigrations() {
+  const migrations = new Map();
+
+  fs.readdirSync(migrationsDir).forEach((file) => {
+    const match = migrationFilePattern.exec(file);
+    if (!match) {
+      return;
+    }
+
+    const [, version, name, direction] = match;
+    const existing = migrations.get(version);
+    if (existing && existing.name !== name) {
+      throw new Error(`Migration version ${version} is used by both ${existing.name} and ${name}`);
+    }
+
+    const migration = existing || { version, name, up: null, down: null, checksum: null };
+    const sql = fs.readFileSync(path.join(migrationsDir, file), 'utf8');
+    if (direction === 'up') {
+      migration.up = sql;
+      migration.checksum = checksum(sql);
+    } else {
+      migration.down = sql;
+    }
+    migrations.set(version, migration);
+  });
+
+  const sorted = Array.from(migrations.values()).sort((a, b) => a.version.localeCompare(b.version));
+  const withoutUp = sorted.find((migration) => migration.up === null);
+  if (withoutUp) {
+    throw new Error(`Migration ${withoutUp.version}_${withoutUp.name} has no .up.sql file`);
+  }
+  return sorted;
+}
+
+async function ensureMigrationsTable(client) {
+  await client.query(
+    `CREATE TABLE IF NOT EXISTS schema_migrations (
+       version TEXT PRIMARY KEY,
+       name TEXT NOT NULL,
+       checksum TEXT NOT NULL,
+       applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+     )`
+  );
+}
+
+async function fetchApplied(client) {
+  const result = await client.query(
+    'SELECT version, name, checksum, applied_at FROM schema_migrations ORDER BY version'
+  );
+  return result.rows;
+}
+
+// Every migration on disk and in the database, with state 'applied', 'pending',
+// 'modified' (checksum differs from what was applied) or 'missing' (applied, file gone).
+function describe(migrations, applied) {
+  const appliedByVersion = new Map(applied.map((row) => [row.version, row]));
+  const entries = migrations.map((migration) => {
+    const row = appliedByVersion.get(migration.version);
+    let state = 'pending';
+    if (row) {
+      state = row.checksum === migration.checksum ? 'applied' : 'modified';
+    }
+    return {
+      version: migration.version,
+      name: migration.name,
+      state,
+      applied_at: row?.applied_at || null,
+    };
+  });
+
+  const known = new Set(migrations.map((migration) => migration.version));
+  applied
+    .filter((row) => !known.has(row.version))
+    .forEach((row) => {
+      entries.push({ version: row.version, name: row.name, state: 'missing', applied_at: row.applied_at });
+    });
+
+  return entries.sort((a, b) => a.version.localeCompare(b.version));
+}
+
+async function withMigrationLock(callback) {
+  const client = await pool.connect();
+  try {
+    await client.query('SELECT pg_advisory_lock($1)', [migrationLockId]);
+    try {
+      await ensureMigrationsTable(client);
+      return await callback(client);
+    } finally {
+      await client.query('SELECT pg_advisory_unlock($1)', [migrationLockId]);
+    }
+  } finally {
+    client.release();
+  }
+}
+
+async function runInTransaction(client, callback) {
+  await client.query('BEGIN');
+  try {
+    await callback();
+    await client.query('COMMIT');
+  } catch (err) {
+    await client.query('ROLLBACK').catch(() => {});
+    throw err;
+  }
+}
+
+function assertConsistent(entries) {
+  const broken = entries.filter((entry) => entry.state === 'modified' || entry.state === 'missing');
+  if (broken.length > 0) {
+    const list = broken.map((entry) => `${entry.version}_${entry.name} (${entry.state})`).join(', ');
+    throw new Error(`Applied migrations do not match the migration files: ${list}`);
+  }
+}
+
+// Applies pending migrations in order. Returns the migrations that were applied.
+async function migrateUp({ log = () => {} } = {}) {
+  const migrations = loadMigrations();
+
+  return withMigrationLock(async (client) => {
+    const entries = describe(migrations, await fetchApplied(client));
+    assertConsistent(entries);
+
+    const pendingVersions = new Set(
+      entries.filter((entry) => entry.state === 'pending').map((entry) => entry.version)
+    );
+    const pending = migrations.filter((migration) => pendingVersions.has(migration.version));
+
+    for (const migration of pending) {
+      log(`Applying ${migration.version}_${migration.name}`);
+      await runInTransaction(client, async () => {
+        await client.query(migration.up);
+        await client.query(
+          'INSERT INTO schema_migrations (version, name, checksum) VALUES ($1, $2, $3)',
+          [migration.version, migration.name, migration.checksum]
+        );
+      });
+    }
+
+    return pending;
+  });
+}
+
+// Reverts the most recently applied migrations, newest first.
+async function migrateDown({ steps = 1, log = () => {} } = {}) {
+  const migrations = loadMigrations();
+  const byVersion = new Map(migrations.map((migration) => [migration.version, migration]));
+
+  return withMigrationLock(async (client) => {
+    const applied = await fetchApplied(client);
+    const targets = applied.slice(-steps).reverse();
+
+    for (const row of targets) {
+      const migration = byVersion.get(row.version);
+      if (!migration?.down) {
+        throw new Error(`Migration ${row.version}_${row.name} has no .down.sql file`);
+      }
+
+      log(`Reverting ${migration.version}_${migration.name}`);
+      await runInTransaction(client, async () => {
+        await client.query(migration.down);
+        await client.query('DELETE FROM schema_migrations WHERE version = $1', [row.version]);
+      });
+    }
+
+    return targets;
+  });
+}
+
+async function getMigrationStatus() {
+  const migrations = loadMigrations();
+  const client = await pool.connect();
+  try {
+    await ensureMigrationsTable(client);
+    return describe(migrations, await fetchApplied(client));
+  } finally {
+    client.release();
+  }
+}
+
+// Used at boot: throws when the database is behind, ahead of or diverged from the files.
+async function assertSchemaCurrent() {
+  const entries = await getMigrationStatus();
+  assertConsistent(entries);
+
+  const pending = entries.filter((entry) => entry.state === 'pending');
+  if (pending.length > 0) {
+    const list = pending.map((entry) => `${entry.version}_${entry.name}`).join(', ');
+    throw new Error(`Database has pending migrations: ${list}. Run "npm run migrate -- up".`);
+  }
+}
+
+module.exports = {
+  migrateUp,
+  migrateDown,
+  getMigrationStatus,
+  assertSchemaCurrent,
+};
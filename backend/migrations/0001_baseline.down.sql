@@ -0,0 +1,5 @@
+DROP TABLE IF EXISTS follows;
+DROP TABLE IF EXISTS list_items;
+DROP TABLE IF EXISTS lists;
+DROP TABLE IF EXISTS reviews;
+DROP TABLE IF EXISTS users;
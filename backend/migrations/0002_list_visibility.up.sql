@@ -0,0 +1,3 @@
+ALTER TABLE lists
+  ADD COLUMN IF NOT EXISTS visibility TEXT NOT NULL DEFAULT 'private'
+  CHECK (visibility IN ('private', 'unlisted', 'public'));
@@ -0,0 +1,11 @@
+CREATE TABLE IF NOT EXISTS activities (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN ('review_created', 'review_pinned', 'list_created', 'list_item_added')),
+  spotify_album_id TEXT,
+  review_id INTEGER REFERENCES reviews(id) ON DELETE CASCADE,
+  list_id INTEGER REFERENCES lists(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_activities_user_created ON activities (user_id, created_at DESC, id DESC);
@@ -0,0 +1,8 @@
+DELETE FROM activities WHERE type = 'review_revised';
+ALTER TABLE activities DROP CONSTRAINT IF EXISTS activities_type_check;
+ALTER TABLE activities ADD CONSTRAINT activities_type_check
+  CHECK (type IN ('review_created', 'review_pinned', 'list_created', 'list_item_added'));
+
+DROP INDEX IF EXISTS idx_reviews_user_album;
+DROP TABLE IF EXISTS review_revisions;
+ALTER TABLE reviews DROP COLUMN IF EXISTS revised_at;
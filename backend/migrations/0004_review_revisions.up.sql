@@ -0,0 +1,44 @@
+ALTER TABLE reviews ADD COLUMN IF NOT EXISTS revised_at TIMESTAMPTZ;
+
+CREATE TABLE IF NOT EXISTS review_revisions (
+  id SERIAL PRIMARY KEY,
+  review_id INTEGER NOT NULL REFERENCES reviews(id) ON DELETE CASCADE,
+  rating SMALLINT NOT NULL CHECK (rating >= 1 AND rating <= 10),
+  body TEXT,
+  written_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_revisions_review ON review_revisions (review_id, written_at DESC);
+
+-- Before one review per album was enforced, a user could review an album several times.
+-- Keep the newest review and fold the older ones into its revision history.
+CREATE TEMPORARY TABLE duplicate_reviews ON COMMIT DROP AS
+SELECT id, rating, body, created_at, keep_id
+FROM (
+  SELECT id, rating, body, created_at,
+         FIRST_VALUE(id) OVER (
+           PARTITION BY user_id, spotify_album_id
+           ORDER BY created_at DESC, id DESC
+         ) AS keep_id
+  FROM reviews
+) ranked
+WHERE id <> keep_id;
+
+INSERT INTO review_revisions (review_id, rating, body, written_at)
+SELECT keep_id, rating, body, created_at FROM duplicate_reviews;
+
+UPDATE reviews r
+SET revised_at = latest.created_at
+FROM (
+  SELECT keep_id, MAX(created_at) AS created_at FROM duplicate_reviews GROUP BY keep_id
+) latest
+WHERE r.id = latest.keep_id AND r.revised_at IS NULL;
+
+DELETE FROM reviews WHERE id IN (SELECT id FROM duplicate_reviews);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reviews_user_album ON reviews (user_id, spotify_album_id);
+
+ALTER TABLE activities DROP CONSTRAINT IF EXISTS activities_type_check;
+ALTER TABLE activities ADD CONSTRAINT activities_type_check
+  CHECK (type IN ('review_created', 'review_revised', 'review_pinned', 'list_created', 'list_item_added'));
@@ -0,0 +1,21 @@
+CREATE TABLE IF NOT EXISTS album_stats (
+  spotify_album_id TEXT PRIMARY KEY,
+  review_count INTEGER NOT NULL DEFAULT 0,
+  rating_sum INTEGER NOT NULL DEFAULT 0,
+  histogram INTEGER[] NOT NULL DEFAULT array_fill(0, ARRAY[10]),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO album_stats (spotify_album_id, review_count, rating_sum, histogram)
+SELECT r.spotify_album_id, COUNT(*), SUM(r.rating),
+       ARRAY(
+         SELECT (
+           SELECT COUNT(*) FROM reviews r2
+           WHERE r2.spotify_album_id = r.spotify_album_id AND r2.rating = g
+         )::int
+         FROM generate_series(1, 10) AS g
+         ORDER BY g
+       )
+FROM reviews r
+GROUP BY r.spotify_album_id
+ON CONFLICT (spotify_album_id) DO NOTHING;
@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS album_artists;
+DROP TABLE IF EXISTS artists;
+DROP TABLE IF EXISTS albums;
@@ -0,0 +1,26 @@
+CREATE TABLE IF NOT EXISTS albums (
+  spotify_id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  release_date TEXT,
+  total_tracks INTEGER,
+  label TEXT,
+  genres TEXT[],
+  images JSONB NOT NULL DEFAULT '[]',
+  has_details BOOLEAN NOT NULL DEFAULT FALSE,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS artists (
+  spotify_id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS album_artists (
+  album_id TEXT NOT NULL REFERENCES albums(spotify_id) ON DELETE CASCADE,
+  artist_id TEXT NOT NULL REFERENCES artists(spotify_id) ON DELETE CASCADE,
+  position SMALLINT NOT NULL DEFAULT 0,
+  PRIMARY KEY (album_id, artist_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_albums_fetched ON albums (fetched_at);
@@ -0,0 +1,34 @@
+CREATE TABLE IF NOT EXISTS imports (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  source TEXT NOT NULL CHECK (source IN ('rym', 'csv')),
+  filename TEXT,
+  checksum TEXT NOT NULL,
+  rating_scale SMALLINT NOT NULL DEFAULT 10 CHECK (rating_scale IN (5, 10)),
+  status TEXT NOT NULL DEFAULT 'matching' CHECK (status IN ('matching', 'ready')),
+  list_id INTEGER REFERENCES lists(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  committed_at TIMESTAMPTZ
+);
+
+-- Uploading the same file twice returns the first import instead of starting another.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_imports_user_checksum ON imports (user_id, checksum, rating_scale);
+
+CREATE TABLE IF NOT EXISTS import_rows (
+  id SERIAL PRIMARY KEY,
+  import_id INTEGER NOT NULL REFERENCES imports(id) ON DELETE CASCADE,
+  row_number INTEGER NOT NULL,
+  artist TEXT NOT NULL,
+  album TEXT NOT NULL,
+  match_key TEXT NOT NULL,
+  rating SMALLINT CHECK (rating >= 1 AND rating <= 10),
+  rated_on DATE,
+  body TEXT,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'matched', 'ambiguous', 'unmatched', 'confirmed', 'skipped')),
+  spotify_album_id TEXT,
+  candidates JSONB NOT NULL DEFAULT '[]',
+  UNIQUE (import_id, row_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_rows_match_key ON import_rows (match_key);
@@ -0,0 +1,3 @@
+DROP TABLE IF EXISTS listening_album_matches;
+DROP TABLE IF EXISTS listening_sessions;
+DROP TABLE IF EXISTS listening_plays;
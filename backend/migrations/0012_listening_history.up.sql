@@ -0,0 +1,37 @@
+-- Individual plays from uploaded streaming history, keyed so the same play uploaded twice
+-- (the same file, or overlapping downloads) is stored once.
+CREATE TABLE IF NOT EXISTS listening_plays (
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  match_key TEXT NOT NULL,
+  played_at TIMESTAMPTZ NOT NULL,
+  ms_played INTEGER NOT NULL,
+  PRIMARY KEY (user_id, played_at, match_key)
+);
+
+-- Plays of one album on one (UTC) day, aggregated from listening_plays. `match_key` is the
+-- normalized artist and album name; listening_album_matches maps it to a Spotify album.
+CREATE TABLE IF NOT EXISTS listening_sessions (
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  match_key TEXT NOT NULL,
+  listened_on DATE NOT NULL,
+  first_played_at TIMESTAMPTZ NOT NULL,
+  last_played_at TIMESTAMPTZ NOT NULL,
+  play_count INTEGER NOT NULL,
+  ms_played BIGINT NOT NULL,
+  PRIMARY KEY (user_id, match_key, listened_on)
+);
+
+CREATE INDEX IF NOT EXISTS idx_listening_sessions_match_key ON listening_sessions (match_key);
+
+-- Shared by every user: the names carry nothing personal and each album is searched once.
+CREATE TABLE IF NOT EXISTS listening_album_matches (
+  match_key TEXT PRIMARY KEY,
+  artist TEXT NOT NULL,
+  album TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'matched', 'unmatched')),
+  spotify_album_id TEXT,
+  matched_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_listening_album_matches_album
+  ON listening_album_matches (spotify_album_id);
@@ -0,0 +1,16 @@
+-- One row per logged listen. A user can log the same album on any number of days; the
+-- optional review link points at the review that listen produced or revised.
+CREATE TABLE IF NOT EXISTS diary_entries (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  spotify_album_id TEXT NOT NULL,
+  listened_on DATE NOT NULL,
+  is_relisten BOOLEAN NOT NULL DEFAULT false,
+  review_id INTEGER REFERENCES reviews(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_diary_entries_user_day
+  ON diary_entries (user_id, listened_on DESC, id DESC);
+CREATE INDEX IF NOT EXISTS idx_diary_entries_user_album
+  ON diary_entries (user_id, spotify_album_id);
@@ -0,0 +1,13 @@
+-- The want-to-listen queue. Items are read by priority, then by position ascending, so
+-- the first item is the one to play next; new albums join the end of their priority.
+CREATE TABLE IF NOT EXISTS backlog_items (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  spotify_album_id TEXT NOT NULL,
+  position INTEGER NOT NULL,
+  priority TEXT NOT NULL DEFAULT 'normal' CHECK (priority IN ('high', 'normal', 'low')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, spotify_album_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_backlog_items_user_position ON backlog_items (user_id, position);
@@ -0,0 +1,12 @@
+-- Per-track ratings belong to a review, so they go when the review is deleted and a
+-- re-review keeps them until the reviewer saves a new set.
+CREATE TABLE IF NOT EXISTS track_ratings (
+  review_id INTEGER NOT NULL REFERENCES reviews(id) ON DELETE CASCADE,
+  spotify_track_id TEXT NOT NULL,
+  rating SMALLINT NOT NULL CHECK (rating >= 1 AND rating <= 10),
+  note TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (review_id, spotify_track_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_track_ratings_track ON track_ratings (spotify_track_id);
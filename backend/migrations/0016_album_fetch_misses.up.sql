@@ -0,0 +1,6 @@
+-- Album ids the catalog refresh asked Spotify for and got nothing back, so an id Spotify
+-- does not know is not asked for again on every run.
+CREATE TABLE IF NOT EXISTS album_fetch_misses (
+  spotify_id TEXT PRIMARY KEY,
+  attempted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
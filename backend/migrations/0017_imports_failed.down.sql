@@ -0,0 +1,4 @@
+UPDATE imports SET status = 'matching' WHERE status = 'failed';
+
+ALTER TABLE imports DROP CONSTRAINT IF EXISTS imports_status_check;
+ALTER TABLE imports ADD CONSTRAINT imports_status_check CHECK (status IN ('matching', 'ready'));
@@ -0,0 +1,4 @@
+-- Imports whose background matching gave up; uploading the file again restarts them.
+ALTER TABLE imports DROP CONSTRAINT IF EXISTS imports_status_check;
+ALTER TABLE imports ADD CONSTRAINT imports_status_check
+  CHECK (status IN ('matching', 'ready', 'failed'));
@@ -0,0 +1,52 @@
+const cursorTimestampPattern =
+  /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d+)?[+-]\d{2}(:\d{2})?$/;
+
+// Cursors carry the row's created_at as Postgres text so microsecond precision survives the round trip.
+function encodeCursor(createdAt, id) {
+  return Buffer.from(JSON.stringify([createdAt, id])).toString('base64url');
+}
+
+function decodeCursor(value) {
+  if (typeof value !== 'string' || !value) {
+    return null;
+  }
+
+  try {
+    const [createdAt, id] = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (typeof createdAt !== 'string' || !Number.isInteger(id)) {
+      return null;
+    }
+    if (!cursorTimestampPattern.test(createdAt)) {
+      return null;
+    }
+    return { createdAt, id };
+  } catch (err) {
+    return null;
+  }
+}
+
+// Appends the cursor to `values` and returns the keyset condition for a newest-first ordering.
+function cursorCondition(values, createdAtColumn, idColumn, cursor) {
+  if (!cursor) {
+    return '';
+  }
+
+  values.push(cursor.createdAt, cursor.id);
+  return `AND (${createdAtColumn}, ${idColumn}) < ($${values.length - 1}::timestamptz, $${values.length})`;
+}
+
+// Expects up to limit + 1 rows that select `cursor_at` (created_at::text) and `id`.
+function takePage(rows, limit) {
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  const nextCursor = rows.length > limit && last ? encodeCursor(last.cursor_at, last.id) : null;
+
+  return { rows: page, nextCursor };
+}
+
+module.exports = {
+  encodeCursor,
+  decodeCursor,
+  cursorCondition,
+  takePage,
+};
@@ -0,0 +1,130 @@
+const { pool } = require('./db');
+const { getSession } = require('./auth');
+
+// Token buckets: each key holds up to `capacity` tokens, refilled continuously at
+// `refillPerMinute`. A request spends one token; an empty bucket means 429.
+// Stores return { allowed, tokens } after atomically refilling and (if possible) spending.
+
+function refillTokens(tokens, elapsedMs, { capacity, refillPerMinute }) {
+  return Math.min(capacity, tokens + (elapsedMs / 60_000) * refillPerMinute);
+}
+
+function createMemoryStore({ pruneIntervalMs = 60_000 } = {}) {
+  const buckets = new Map();
+
+  // A bucket idle long enough to refill completely is indistinguishable from a new one.
+  const timer = setInterval(() => {
+    const now = Date.now();
+    buckets.forEach((bucket, key) => {
+      if (now >= bucket.fullAt) {
+        buckets.delete(key);
+      }
+    });
+  }, pruneIntervalMs);
+  timer.unref();
+
+  return {
+    name: 'memory',
+    async take(key, policy) {
+      const now = Date.now();
+      const bucket = buckets.get(key);
+      const available = bucket
+        ? refillTokens(bucket.tokens, now - bucket.updatedAt, policy)
+        : policy.capacity;
+      const allowed = available >= 1;
+      const tokens = allowed ? available - 1 : available;
+      const fullAt = now + ((policy.capacity - tokens) / policy.refillPerMinute) * 60_000;
+
+      buckets.set(key, { tokens, updatedAt: now, fullAt });
+      return { allowed, tokens };
+    },
+  };
+}
+
+// Buckets idle for a day are pruned; every policy refills completely well within that.
+function createPostgresStore({ pruneIntervalMs = 5 * 60_000 } = {}) {
+  const timer = setInterval(() => {
+    pool
+      .query(`DELETE FROM rate_limit_buckets WHERE updated_at < NOW() - INTERVAL '1 day'`)
+      .catch((err) => console.error('Rate limit prune failed:', err?.message));
+  }, pruneIntervalMs);
+  timer.unref();
+
+  const available = `LEAST($2::float8, b.tokens + EXTRACT(EPOCH FROM (NOW() - b.updated_at)) / 60 * $3::float8)`;
+
+  return {
+    name: 'postgres',
+    async take(key, { capacity, refillPerMinute }) {
+      // The upsert serializes concurrent requests on the row, and every SET expression
+      // reads the pre-update row, so `allowed` and `tokens` always agree.
+      const result = await pool.query(
+        `INSERT INTO rate_limit_buckets AS b (key, tokens, allowed, updated_at)
+         VALUES ($1, $2::float8 - 1, true, NOW())
+         ON CONFLICT (key) DO UPDATE
+         SET tokens = CASE WHEN ${available} >= 1 THEN ${available} - 1 ELSE ${available} END,
+             allowed = ${available} >= 1,
+             updated_at = NOW()
+         RETURNING tokens, allowed`,
+        [key, capacity, refillPerMinute]
+      );
+
+      const row = result.rows[0];
+      return { allowed: row.allowed, tokens: Number(row.tokens) };
+    },
+  };
+}
+
+// `policies` maps a policy name to { capacity, refillPerMinute }. Requests are keyed by the
+// signed-in user when there is a session and by IP otherwise, separately per policy.
+function createRateLimiter({ store, policies }) {
+  return function rateLimit(policyName) {
+    const policy = policies[policyName];
+    if (!policy) {
+      throw new Error(`Unknown rate limit policy: ${policyName}`);
+    }
+
+    return async function rateLimitMiddleware(req, res, next) {
+      let result;
+      try {
+        const userId = req.user?.sub || (await getSession(req))?.sub;
+        const subject = userId
+          ? `user:${userId}`
+          : `ip:${req.ip || req.socket?.remoteAddress || 'unknown'}`;
+        result = await store.take(`${policyName}:${subject}`, policy);
+      } catch (err) {
+        // Fail open: an unavailable limiter store should not take the API down with it.
+        console.error('Rate limit check failed:', err?.message);
+        return next();
+      }
+
+      res.set('X-RateLimit-Limit', String(policy.capacity));
+      res.set('X-RateLimit-Remaining', String(Math.max(Math.floor(result.tokens), 0)));
+
+      if (!result.allowed) {
+        const retryAfterSeconds = Math.ceil(((1 - result.tokens) / policy.refillPerMinute) * 60);
+        res.set('Retry-After', String(Math.max(retryAfterSeconds, 1)));
+        return res.status(429).json({ error: 'rate_limited' });
+      }
+
+      return next();
+    };
+  };
+}
+
+function createStoreFromEnv() {
+  const backend = process.env.RATE_LIMIT_BACKEND || 'memory';
+  if (backend === 'postgres') {
+    return createPostgresStore();
+  }
+  if (backend !== 'memory') {
+    throw new Error(`Unsupported RATE_LIMIT_BACKEND: ${backend}`);
+  }
+  return createMemoryStore();
+}
+
+module.exports = {
+  createMemoryStore,
+  createPostgresStore,
+  createRateLimiter,
+  createStoreFromEnv,
+};
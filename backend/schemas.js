@@ -0,0 +1,600 @@
+const { decodeCursor } = require('./pagination');
+const { field, required } = require('./validation');
+
+// Route schemas keyed by "METHOD /path", exactly as the route is registered in server.js.
+// Routes that take input run validateRequest, which finds their entry by that key;
+// /openapi.json is generated from the whole map, so routes without input are listed too.
+
+const spotifyIdPattern = /^[A-Za-z0-9]{22}$/;
+
+function idParam(code, description) {
+  return field.integer({
+    required: true,
+    min: 1,
+    codes: { required: code, invalid: code },
+    description,
+  });
+}
+
+function pageQuery(defaultLimit) {
+  return {
+    limit: field.integer({ min: 1, max: 100, clamp: true, default: defaultLimit }),
+    cursor: field.string({
+      parse: decodeCursor,
+      description: 'Opaque next_cursor from the previous page.',
+    }),
+  };
+}
+
+// Calendar days as YYYY-MM-DD; impossible dates such as 2024-02-30 are rejected.
+function parseDay(text) {
+  const date = new Date(`${text}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(text) ? text : null;
+}
+
+function dayField(description) {
+  return field.string({ pattern: /^\d{4}-\d{2}-\d{2}$/, parse: parseDay, description });
+}
+
+const searchQuery = {
+  query: required(field.string({ maxLength: 200 })),
+  limit: field.integer({ min: 1, max: 20, clamp: true, default: 10 }),
+};
+
+const albumIdField = field.string({
+  pattern: spotifyIdPattern,
+  codes: { required: 'album_id_required', invalid: 'invalid_album_id' },
+  description: 'Spotify album id.',
+});
+
+const reviewFields = {
+  rating: field.integer({
+    min: 1,
+    max: 10,
+    codes: { required: 'rating_invalid' },
+  }),
+  body: field.string({ maxLength: 2000, nullable: true }),
+};
+
+// Shared by list creation and list updates; creation adds `required` and defaults on top.
+const listFields = {
+  title: field.string({ maxLength: 120 }),
+  description: field.string({ maxLength: 500, nullable: true }),
+  is_ranked: field.boolean(),
+  visibility: field.string({ enum: ['private', 'unlisted', 'public'] }),
+};
+
+const backlogPriorityField = field.string({
+  enum: ['high', 'normal', 'low'],
+  description: 'High priority albums come first in the queue.',
+});
+
+const listIdParams = { id: idParam('list_id_required', 'List id.') };
+const reviewIdParams = { id: idParam('review_id_required', 'Review id.') };
+const userIdParams = { id: idParam('user_id_required', 'User id.') };
+const importIdParams = { id: idParam('import_id_required', 'Import id.') };
+const diaryEntryIdParams = { id: idParam('diary_entry_id_required', 'Diary entry id.') };
+const albumParams = { id: required(field.string({ codes: { required: 'album_id_required' } })) };
+
+const routes = {
+  'GET /health': { summary: 'Database health check', tags: ['health'] },
+  'GET /health/cache': { summary: 'Cache hit and miss counters', tags: ['health'] },
+  'GET /health/spotify': { summary: 'Spotify circuit breaker state', tags: ['health'] },
+  'GET /openapi.json': { summary: 'This document', tags: ['health'] },
+
+  'GET /auth/spotify': {
+    summary: 'Redirect to Spotify to log in',
+    tags: ['auth'],
+    status: 302,
+    responseDescription: 'Redirect to the Spotify authorize page',
+  },
+  'GET /auth/spotify/callback': {
+    summary: 'Spotify OAuth callback; starts a session',
+    tags: ['auth'],
+    status: 302,
+    responseDescription: 'Redirect back to the web app',
+  },
+  'GET /auth/me': { summary: 'Current session user, or null', tags: ['auth'] },
+  'POST /auth/logout': { summary: 'End the current session', tags: ['auth'] },
+
+  'GET /users/search': {
+    summary: 'Search users by display name or Spotify id',
+    tags: ['users'],
+    query: searchQuery,
+  },
+  'POST /users/:id/follow': {
+    summary: 'Follow a user',
+    tags: ['users'],
+    auth: true,
+    params: userIdParams,
+  },
+  'DELETE /users/:id/follow': {
+    summary: 'Unfollow a user',
+    tags: ['users'],
+    auth: true,
+    params: userIdParams,
+  },
+  'GET /users/:id': { summary: 'Public profile', tags: ['users'], params: userIdParams },
+  'GET /users/:id/reviews': {
+    summary: "A user's reviews, newest first",
+    tags: ['users'],
+    params: userIdParams,
+    query: {
+      ...pageQuery(50),
+      pinned: field.boolean({ default: false, description: 'Only pinned reviews.' }),
+    },
+  },
+  'GET /users/:id/lists': {
+    summary: "A user's public lists",
+    tags: ['users'],
+    params: userIdParams,
+    query: pageQuery(50),
+  },
+  'GET /users/:id/followers': {
+    summary: 'Followers of a user',
+    tags: ['users'],
+    params: userIdParams,
+    query: pageQuery(20),
+  },
+  'GET /users/:id/following': {
+    summary: 'Users a user follows',
+    tags: ['users'],
+    params: userIdParams,
+    query: pageQuery(20),
+  },
+
+  'GET /me/feed': {
+    summary: 'Activity from followed users',
+    tags: ['me'],
+    auth: true,
+    query: pageQuery(20),
+  },
+  'GET /me/sessions': { summary: 'Active sessions', tags: ['me'], auth: true },
+  'DELETE /me/sessions/:id': {
+    summary: 'Revoke one session',
+    tags: ['me'],
+    auth: true,
+    params: { id: required(field.string({ codes: { required: 'session_id_required' } })) },
+  },
+  'DELETE /me/sessions': { summary: 'Revoke every session', tags: ['me'], auth: true },
+  'GET /me/profile': { summary: 'Own profile', tags: ['me'], auth: true },
+  'PATCH /me/profile': {
+    summary: 'Update profile fields',
+    tags: ['me'],
+    auth: true,
+    body: field.object(
+      {
+        display_name: field.string({ maxLength: 80, nullable: true }),
+        bio: field.string({ maxLength: 500, nullable: true }),
+        favorite_genres: field.array(
+          field.string({ maxLength: 30, codes: { too_long: 'favorite_genre_too_long' } }),
+          { maxItems: 10, compact: true, dedupe: true }
+        ),
+        favorite_album_ids: field.array(
+          field.string({ pattern: spotifyIdPattern }),
+          { maxItems: 3, compact: true }
+        ),
+      },
+      { minProperties: 1, codes: { required: 'profile_update_required' } }
+    ),
+  },
+  'POST /me/avatar': {
+    summary: 'Upload an avatar image',
+    tags: ['me'],
+    auth: true,
+    openapi: {
+      requestBody: {
+        required: true,
+        content: {
+          'multipart/form-data': {
+            schema: {
+              type: 'object',
+              properties: { avatar: { type: 'string', format: 'binary' } },
+              required: ['avatar'],
+            },
+          },
+        },
+      },
+    },
+  },
+  'GET /me/export': {
+    summary: 'Download everything the user has created',
+    tags: ['me'],
+    auth: true,
+    query: {
+      format: field.string({
+        enum: ['json', 'reviews.csv', 'lists.csv'],
+        default: 'json',
+        description: 'The full JSON archive, or a CSV of reviews or list items.',
+      }),
+    },
+  },
+  'DELETE /me': {
+    summary: 'Delete the account and everything it owns',
+    tags: ['me'],
+    auth: true,
+  },
+  'GET /me/imports': { summary: 'Own rating imports', tags: ['imports'], auth: true },
+  'POST /me/imports': {
+    summary: 'Upload a RateYourMusic or artist,album,rating,date CSV',
+    tags: ['imports'],
+    auth: true,
+    status: 201,
+    query: {
+      rating_scale: field.string({
+        enum: ['10', '5'],
+        default: '10',
+        description: 'Scale of a generic file: 1-10, or 0.5-5 stars. RYM exports are always 1-10.',
+      }),
+    },
+    openapi: {
+      requestBody: {
+        required: true,
+        content: {
+          'multipart/form-data': {
+            schema: {
+              type: 'object',
+              properties: { file: { type: 'string', format: 'binary' } },
+              required: ['file'],
+            },
+          },
+        },
+      },
+    },
+  },
+  'GET /me/imports/:id': {
+    summary: 'An import with its rows and match candidates',
+    tags: ['imports'],
+    auth: true,
+    params: importIdParams,
+  },
+  'PATCH /me/imports/:id/rows/:rowId': {
+    summary: 'Pick the album for an import row, or skip it',
+    tags: ['imports'],
+    auth: true,
+    params: {
+      ...importIdParams,
+      rowId: idParam('import_row_id_required', 'Import row id.'),
+    },
+    body: field.object({
+      spotify_album_id: required(
+        field.string({
+          pattern: spotifyIdPattern,
+          nullable: true,
+          codes: { invalid: 'invalid_album_id' },
+          description: 'Spotify album id, or null to leave the row out.',
+        })
+      ),
+    }),
+  },
+  'POST /me/imports/:id/commit': {
+    summary: 'Create reviews or a list from the resolved rows',
+    tags: ['imports'],
+    auth: true,
+    params: importIdParams,
+    body: field.object({
+      target: required(field.string({ enum: ['reviews', 'list'] })),
+      title: listFields.title,
+      is_ranked: { ...listFields.is_ranked, default: false },
+      visibility: { ...listFields.visibility, default: 'private' },
+    }),
+  },
+  'GET /me/listening': {
+    summary: 'Totals of the uploaded streaming history',
+    tags: ['listening'],
+    auth: true,
+  },
+  'POST /me/listening': {
+    summary: 'Upload Spotify extended streaming history files',
+    tags: ['listening'],
+    auth: true,
+    status: 201,
+    openapi: {
+      requestBody: {
+        required: true,
+        content: {
+          'multipart/form-data': {
+            schema: {
+              type: 'object',
+              properties: {
+                files: { type: 'array', items: { type: 'string', format: 'binary' } },
+              },
+              required: ['files'],
+            },
+          },
+        },
+      },
+    },
+  },
+  'DELETE /me/listening': {
+    summary: 'Forget the uploaded streaming history',
+    tags: ['listening'],
+    auth: true,
+  },
+  'GET /me/listening/unrated': {
+    summary: 'Albums from the streaming history that have no review yet',
+    tags: ['listening'],
+    auth: true,
+    query: {
+      limit: field.integer({ min: 1, max: 50, clamp: true, default: 12 }),
+    },
+  },
+  'GET /me/diary': {
+    summary: 'Own diary entries, newest listen first',
+    tags: ['diary'],
+    auth: true,
+    query: {
+      ...pageQuery(50),
+      from: dayField('Earliest listen day to include.'),
+      to: dayField('Latest listen day to include.'),
+    },
+  },
+  'POST /me/diary': {
+    summary: 'Log a listen',
+    tags: ['diary'],
+    auth: true,
+    status: 201,
+    body: field.object({
+      spotify_album_id: required(albumIdField),
+      listened_on: dayField('Day of the listen; defaults to today.'),
+      is_relisten: field.boolean({
+        description: 'Defaults to whether the album was logged or reviewed on an earlier day.',
+      }),
+      review_id: field.integer({ min: 1, nullable: true, description: 'Own review of the album.' }),
+    }),
+  },
+  'DELETE /me/diary/:id': {
+    summary: 'Remove a diary entry',
+    tags: ['diary'],
+    auth: true,
+    params: diaryEntryIdParams,
+  },
+  'GET /me/backlog': {
+    summary: 'Own listen-later queue, in listening order',
+    tags: ['backlog'],
+    auth: true,
+  },
+  'POST /me/backlog': {
+    summary: 'Queue an album to listen to later',
+    tags: ['backlog'],
+    auth: true,
+    status: 201,
+    body: field.object({
+      spotify_album_id: required(albumIdField),
+      priority: { ...backlogPriorityField, default: 'normal' },
+    }),
+  },
+  'PATCH /me/backlog/:albumId': {
+    summary: 'Change the priority of a queued album',
+    tags: ['backlog'],
+    auth: true,
+    params: { albumId: required(albumIdField) },
+    body: field.object({ priority: required(backlogPriorityField) }),
+  },
+  'DELETE /me/backlog/:albumId': {
+    summary: 'Remove an album from the queue',
+    tags: ['backlog'],
+    auth: true,
+    params: { albumId: required(albumIdField) },
+  },
+  'POST /me/backlog/reorder': {
+    summary: 'Replace the order of every album in the queue',
+    tags: ['backlog'],
+    auth: true,
+    body: field.object({
+      order: required(
+        field.array(albumIdField, {
+          compact: true,
+          minItems: 1,
+          unique: true,
+          codes: { required: 'order_required', invalid: 'order_required' },
+        })
+      ),
+    }),
+  },
+  'GET /me/reviews': {
+    summary: 'Own reviews',
+    tags: ['me'],
+    auth: true,
+    query: pageQuery(50),
+  },
+  'GET /me/lists': {
+    summary: 'Own lists, including private ones',
+    tags: ['me'],
+    auth: true,
+    query: pageQuery(50),
+  },
+  'POST /me/lists': {
+    summary: 'Create a list',
+    tags: ['lists'],
+    auth: true,
+    status: 201,
+    body: field.object({
+      ...listFields,
+      title: required(listFields.title),
+      is_ranked: { ...listFields.is_ranked, default: false },
+      visibility: { ...listFields.visibility, default: 'private' },
+    }),
+  },
+
+  'GET /spotify/search': {
+    summary: 'Search Spotify albums',
+    tags: ['spotify'],
+    query: searchQuery,
+  },
+  'GET /spotify/albums': {
+    summary: 'Album summaries for up to 20 ids',
+    tags: ['spotify'],
+    query: {
+      ids: required(
+        field.array(field.string({ pattern: spotifyIdPattern }), {
+          separator: ',',
+          compact: true,
+          minItems: 1,
+          maxItems: 20,
+          codes: { required: 'ids_required', invalid: 'ids_invalid', too_many: 'too_many_ids' },
+        })
+      ),
+    },
+  },
+  'GET /spotify/albums/:id': {
+    summary: 'Album detail with tracks',
+    tags: ['spotify'],
+    params: albumParams,
+  },
+
+  'GET /albums/:id/reviews': {
+    summary: 'Reviews of an album, newest first',
+    tags: ['albums'],
+    params: albumParams,
+    query: pageQuery(50),
+  },
+  'GET /albums/:id/stats': {
+    summary: 'Rating aggregate for an album',
+    tags: ['albums'],
+    params: albumParams,
+  },
+  'POST /albums/:id/reviews': {
+    summary: 'Review an album; a repeat post revises the existing review',
+    tags: ['reviews'],
+    auth: true,
+    status: 201,
+    params: albumParams,
+    body: field.object({ ...reviewFields, rating: required(reviewFields.rating) }),
+  },
+  'PATCH /reviews/:id': {
+    summary: 'Edit or pin a review',
+    tags: ['reviews'],
+    auth: true,
+    params: reviewIdParams,
+    body: field.object(
+      { ...reviewFields, is_pinned: field.boolean() },
+      { minProperties: 1, codes: { required: 'review_update_required' } }
+    ),
+  },
+  'PUT /reviews/:id/tracks': {
+    summary: 'Replace the track ratings of a review',
+    tags: ['reviews'],
+    auth: true,
+    params: reviewIdParams,
+    body: field.object({
+      track_ratings: required(
+        field.array(
+          field.object({
+            track_id: required(
+              field.string({
+                pattern: spotifyIdPattern,
+                codes: { required: 'track_id_required', invalid: 'invalid_track_id' },
+                description: 'Spotify track id.',
+              })
+            ),
+            rating: required(reviewFields.rating),
+            note: field.string({ maxLength: 280, nullable: true }),
+          }),
+          { maxItems: 100, codes: { required: 'track_ratings_required' } }
+        )
+      ),
+    }),
+  },
+  'DELETE /reviews/:id': {
+    summary: 'Delete a review',
+    tags: ['reviews'],
+    auth: true,
+    params: reviewIdParams,
+  },
+  'GET /reviews/:id/history': {
+    summary: 'Earlier revisions of a review',
+    tags: ['reviews'],
+    params: reviewIdParams,
+  },
+
+  'GET /lists/:id': { summary: 'A list and its items', tags: ['lists'], params: listIdParams },
+  'PATCH /lists/:id': {
+    summary: 'Update list fields',
+    tags: ['lists'],
+    auth: true,
+    params: listIdParams,
+    body: field.object(listFields, { minProperties: 1, codes: { required: 'update_required' } }),
+  },
+  'DELETE /lists/:id': {
+    summary: 'Delete a list',
+    tags: ['lists'],
+    auth: true,
+    params: listIdParams,
+  },
+  'POST /lists/:id/items': {
+    summary: 'Append an album to a list',
+    tags: ['lists'],
+    auth: true,
+    status: 201,
+    params: listIdParams,
+    body: field.object({ spotify_album_id: required(albumIdField) }),
+  },
+  'DELETE /lists/:id/items/:albumId': {
+    summary: 'Remove an album from a list',
+    tags: ['lists'],
+    auth: true,
+    params: { ...listIdParams, albumId: required(albumIdField) },
+  },
+  'POST /lists/:id/reorder': {
+    summary: 'Replace the order of every item in a list',
+    tags: ['lists'],
+    auth: true,
+    params: listIdParams,
+    body: field.object({
+      order: required(
+        field.array(albumIdField, {
+          compact: true,
+          minItems: 1,
+          unique: true,
+          codes: { required: 'order_required', invalid: 'order_required' },
+        })
+      ),
+    }),
+  },
+  'PATCH /lists/:id/items': {
+    summary: 'Apply add, remove and move operations in one transaction',
+    tags: ['lists'],
+    auth: true,
+    params: listIdParams,
+    body: field.object({
+      operations: required(
+        field.array(
+          field.object(
+            {
+              op: required(
+                field.string({
+                  enum: ['add', 'remove', 'move'],
+                  codes: { required: 'operation_invalid', invalid: 'operation_invalid' },
+                })
+              ),
+              spotify_album_id: required(albumIdField),
+              index: field.integer({
+                min: 0,
+                nullable: true,
+                description: 'Target position; required for move.',
+              }),
+            },
+            {
+              codes: { invalid: 'operation_invalid' },
+              refine: (operation, fail) => {
+                if (operation.op === 'move' && (operation.index ?? null) === null) {
+                  fail('index', 'required', 'is required for move');
+                }
+              },
+            }
+          ),
+          {
+            minItems: 1,
+            maxItems: 50,
+            codes: { required: 'operations_required', invalid: 'operations_required' },
+          }
+        )
+      ),
+    }),
+  },
+};
+
+module.exports = {
+  routes,
+};
@@ -0,0 +1,49 @@
+// Database migrations.
+//
+//   npm run migrate -- up            apply every pending migration
+//   npm run migrate -- down [steps]  revert the last migration (or the last <steps>)
+//   npm run migrate -- status        list migrations and whether they are applied
+require('dotenv').config();
+
+const { pool } = require('../db');
+const { migrateUp, migrateDown, getMigrationStatus } = require('../migrate');
+
+const usage = 'Usage: node scripts/migrate.js <up | down [steps] | status>';
+
+async function main() {
+  const [command, argument] = process.argv.slice(2);
+
+  if (command === 'up') {
+    const applied = await migrateUp({ log: console.log });
+    console.log(applied.length > 0 ? `Applied ${applied.length} migration(s).` : 'Already up to date.');
+    return;
+  }
+
+  if (command === 'down') {
+    const steps = argument === undefined ? 1 : parseInt(argument, 10);
+    if (!Number.isInteger(steps) || steps < 1) {
+      throw new Error(usage);
+    }
+    const reverted = await migrateDown({ steps, log: console.log });
+    console.log(reverted.length > 0 ? `Reverted ${reverted.length} migration(s).` : 'Nothing to revert.');
+    return;
+  }
+
+  if (command === 'status') {
+    const entries = await getMigrationStatus();
+    entries.forEach((entry) => {
+      const appliedAt = entry.applied_at ? ` ${new Date(entry.applied_at).toISOString()}` : '';
+      console.log(`${entry.state.padEnd(8)} ${entry.version}_${entry.name}${appliedAt}`);
+    });
+    return;
+  }
+
+  throw new Error(usage);
+}
+
+main()
+  .catch((err) => {
+    console.error(err.message);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
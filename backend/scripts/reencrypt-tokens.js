@@ -0,0 +1,55 @@
+// Re-encrypts users.refresh_token with the active key: plaintext rows are encrypted and rows
+// wrapped with an older key id are re-wrapped. Safe to run repeatedly and while the API is up.
+//
+//   npm run reencrypt-tokens
+require('dotenv').config();
+
+const { pool } = require('../db');
+const { activeKeyId, needsReencryption, reencryptSecret } = require('../encryption');
+
+const batchSize = 500;
+
+async function main() {
+  let lastId = 0;
+  let scanned = 0;
+  let updated = 0;
+
+  for (;;) {
+    const result = await pool.query(
+      `SELECT id, refresh_token
+       FROM users
+       WHERE id > $1
+       ORDER BY id
+       LIMIT $2`,
+      [lastId, batchSize]
+    );
+    if (result.rows.length === 0) {
+      break;
+    }
+
+    for (const row of result.rows) {
+      scanned += 1;
+      if (!needsReencryption(row.refresh_token)) {
+        continue;
+      }
+
+      // Only replace the value we read, so a token rotated by a concurrent refresh is kept.
+      const updateResult = await pool.query(
+        'UPDATE users SET refresh_token = $1 WHERE id = $2 AND refresh_token = $3',
+        [reencryptSecret(row.refresh_token), row.id, row.refresh_token]
+      );
+      updated += updateResult.rowCount;
+    }
+
+    lastId = result.rows[result.rows.length - 1].id;
+  }
+
+  console.log(`Scanned ${scanned} users, re-encrypted ${updated} refresh tokens with key ${activeKeyId}.`);
+}
+
+main()
+  .catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
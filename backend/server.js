@@ -7,22 +7,58 @@ const express = require('express');
 const cors = require('cors');
 const cookieParser = require('cookie-parser');
 const multer = require('multer');
-const { pool } = require('./db');
+const { pool, withTransaction } = require('./db');
 const {
+  cookieName,
   cookieOptions,
   setSession,
   clearSession,
   getSession,
   requireAuth,
 } = require('./auth');
+const { spotify, isOutageError } = require('./spotify');
+const { cursorCondition, takePage } = require('./pagination');
 const {
-  getAuthorizeUrl,
-  exchangeCodeForToken,
-  getAppAccessToken,
-  refreshAccessToken,
-  fetchSpotifyProfile,
-  fetchSpotifyJson,
-} = require('./spotify');
+  recordAlbums,
+  getAlbumCards,
+  getAlbumDetails,
+  startCatalogRefresh,
+} = require('./catalog');
+const { createCache, createStoreFromEnv } = require('./cache');
+const {
+  createRateLimiter,
+  createStoreFromEnv: createRateLimitStoreFromEnv,
+} = require('./ratelimit');
+const { createUserTokenStore } = require('./tokens');
+const { assertSchemaCurrent } = require('./migrate');
+const { encryptSecret, decryptSecret } = require('./encryption');
+const { createRequestValidator, createOpenApiDocument } = require('./validation');
+const { routes: routeSchemas } = require('./schemas');
+const { buildAccountExport, reviewsCsv, listsCsv } = require('./export');
+const { matchKey, createMatchQueue } = require('./matching');
+const {
+  parseImportFile,
+  matchImport,
+  failImport,
+  findMatchingImportIds,
+  fetchImports,
+  fetchImport,
+} = require('./imports');
+const {
+  parseStreamingHistory,
+  recordListeningHistory,
+  matchListeningAlbums,
+  fetchListeningSummary,
+  fetchUnratedListens,
+  clearListeningHistory,
+} = require('./listening');
+const { fetchDiaryEntries, createDiaryEntry } = require('./diary');
+const {
+  maxBacklogItems,
+  fetchBacklog,
+  fetchBacklogItem,
+  writeBacklogOrder,
+} = require('./backlog');
 
 const app = express();
 const port = process.env.PORT || 4000;
@@ -37,15 +73,50 @@ const allowedOrigins = new Set(parsedOrigins);
 allowedOrigins.add('http://127.0.0.1:3000');
 allowedOrigins.add('http://localhost:3000');
 
-const rateLimitWindowMs = 60_000;
-const rateLimitMax = 60;
-const rateLimitStore = new Map();
+const rateLimit = createRateLimiter({
+  store: createRateLimitStoreFromEnv(),
+  policies: {
+    spotify: { capacity: 60, refillPerMinute: 60 },
+    review_write: { capacity: 20, refillPerMinute: 10 },
+    follow_write: { capacity: 30, refillPerMinute: 15 },
+    list_write: { capacity: 60, refillPerMinute: 30 },
+    avatar_upload: { capacity: 5, refillPerMinute: 1 },
+    import_upload: { capacity: 5, refillPerMinute: 1 },
+    import_write: { capacity: 60, refillPerMinute: 30 },
+    diary_write: { capacity: 30, refillPerMinute: 15 },
+    backlog_write: { capacity: 60, refillPerMinute: 30 },
+  },
+});
+
+const validateRequest = createRequestValidator(routeSchemas);
+const openApiDocument = createOpenApiDocument({
+  info: { title: 'Jukebox API', version: '1.0.0' },
+  routes: routeSchemas,
+  sessionCookieName: cookieName,
+});
+
+const userTokens = createUserTokenStore();
+const matchQueue = createMatchQueue();
+
+function enqueueImportMatching(importId) {
+  matchQueue.enqueue(`import:${importId}`, () => matchImport(importId), {
+    onGiveUp: () => failImport(importId),
+  });
+}
+
+function enqueueListeningMatching() {
+  matchQueue.enqueue('listening', matchListeningAlbums);
+}
 
-const searchCache = new Map();
-const albumCache = new Map();
-const searchCacheTtlMs = 60_000;
-const albumCacheTtlMs = 5 * 60_000;
-const cacheMaxEntries = 500;
+const cache = createCache({
+  store: createStoreFromEnv(),
+  namespaces: {
+    search: { ttlMs: 60_000, outageMs: 6 * 60 * 60_000 },
+    album: { ttlMs: 5 * 60_000, staleMs: 60 * 60_000, outageMs: 24 * 60 * 60_000 },
+    album_summary: { ttlMs: 5 * 60_000, staleMs: 60 * 60_000, outageMs: 24 * 60 * 60_000 },
+  },
+  isOutage: isOutageError,
+});
 
 app.use(
   cors({
@@ -76,7 +147,8 @@ const upload = multer({
       const ext = path.extname(file.originalname || '').toLowerCase();
       const allowedExts = new Set(['.jpg', '.jpeg', '.png', '.webp', '.gif']);
       const safeExt = allowedExts.has(ext) ? ext : '';
-      cb(null, `${crypto.randomBytes(16).toString('hex')}${safeExt}`);
+      // The user id prefix lets account deletion find every avatar a user has uploaded.
+      cb(null, `${req.user.sub}-${crypto.randomBytes(16).toString('hex')}${safeExt}`);
     },
   }),
   limits: { fileSize: 2 * 1024 * 1024 },
@@ -89,95 +161,412 @@ const upload = multer({
   },
 });
 
+// Import files are parsed straight from memory and never written to disk.
+const importUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024 },
+  fileFilter: (req, file, cb) => {
+    const ext = path.extname(file.originalname || '').toLowerCase();
+    if (ext === '.csv' || ext === '.txt' || file.mimetype?.startsWith('text/')) {
+      cb(null, true);
+      return;
+    }
+    cb(new Error('invalid_file_type'));
+  },
+});
+
+// Extended streaming history comes as several JSON files of roughly 10 MB each.
+const listeningUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 25 * 1024 * 1024, files: 10 },
+  fileFilter: (req, file, cb) => {
+    const ext = path.extname(file.originalname || '').toLowerCase();
+    if (ext === '.json' || file.mimetype === 'application/json') {
+      cb(null, true);
+      return;
+    }
+    cb(new Error('invalid_file_type'));
+  },
+});
+
 app.use('/uploads', express.static(uploadsDir));
 
-function rateLimit(req, res, next) {
-  const now = Date.now();
-  const key = req.ip || req.connection?.remoteAddress || 'unknown';
-  let entry = rateLimitStore.get(key);
+// The token is resolved lazily so cached responses never wait on Spotify's token endpoint,
+// which matters most while Spotify is down and stale entries are all we can serve.
+async function getAccessContext(req) {
+  const session = await getSession(req);
+  let tokenPromise = null;
+
+  async function resolveAccessToken() {
+    if (session?.sub) {
+      try {
+        return await userTokens.getAccessToken(session.sub);
+      } catch (err) {
+        // A revoked grant needs the user to log in again; quietly serving app-token results would hide that.
+        if (err.code === 'reauth_required') {
+          throw err;
+        }
+        console.warn('Falling back to app token for Spotify access.', err?.message);
+      }
+    }
+    return spotify.getAppAccessToken();
+  }
+
+  return {
+    cacheKey: session?.sub ? `user:${session.sub}` : 'app',
+    getAccessToken() {
+      if (!tokenPromise) {
+        tokenPromise = resolveAccessToken();
+      }
+      return tokenPromise;
+    },
+  };
+}
 
-  if (!entry || now > entry.resetAt) {
-    entry = { count: 0, resetAt: now + rateLimitWindowMs };
-    rateLimitStore.set(key, entry);
+// Maps Spotify client errors to responses the frontend can act on; anything else is a 500.
+function sendSpotifyError(res, err, failureCode) {
+  if (err.code === 'reauth_required') {
+    return res.status(401).json({ error: 'spotify_reauth_required' });
   }
+  if (err.code === 'spotify_throttled') {
+    if (err.retryAfterMs) {
+      res.set('Retry-After', String(Math.ceil(err.retryAfterMs / 1000)));
+    }
+    return res.status(503).json({ error: 'spotify_throttled' });
+  }
+  if (err.code === 'spotify_unavailable') {
+    if (err.retryAfterMs) {
+      res.set('Retry-After', String(Math.ceil(err.retryAfterMs / 1000)));
+    }
+    return res.status(503).json({ error: 'spotify_unavailable' });
+  }
+
+  console.error(err);
+  return res.status(500).json({ error: failureCode });
+}
+
+// Every Spotify response that carries albums also feeds the local catalog.
+async function fetchAlbumSummaries(accessToken, albumIds) {
+  const data = await spotify.getAlbums(accessToken, albumIds);
+  recordAlbums(data);
+  return (data.albums || [])
+    .filter(Boolean)
+    .map((album) => ({
+      id: album.id,
+      name: album.name,
+      artists: album.artists?.map((artist) => artist.name) || [],
+      images: album.images || [],
+      release_date: album.release_date,
+      total_tracks: album.total_tracks,
+      label: album.label,
+      genres: album.genres || [],
+    }));
+}
 
-  entry.count += 1;
-  res.set('X-RateLimit-Limit', String(rateLimitMax));
-  res.set('X-RateLimit-Remaining', String(Math.max(rateLimitMax - entry.count, 0)));
-  res.set('X-RateLimit-Reset', String(entry.resetAt));
+async function fetchAlbumDetail(accessToken, albumId) {
+  const data = await spotify.getAlbum(accessToken, albumId);
+  recordAlbums(data);
+
+  return {
+    id: data.id,
+    name: data.name,
+    artists: data.artists?.map((artist) => artist.name) || [],
+    images: data.images || [],
+    release_date: data.release_date,
+    total_tracks: data.total_tracks,
+    label: data.label,
+    genres: data.genres || [],
+    tracks: data.tracks?.items?.map((track) => ({
+      id: track.id,
+      name: track.name,
+      track_number: track.track_number,
+      duration_ms: track.duration_ms,
+      preview_url: track.preview_url,
+    })) || [],
+  };
+}
 
-  if (entry.count > rateLimitMax) {
-    return res.status(429).json({ error: 'rate_limited' });
+// Track ratings grouped by review id. Putting them in album track order is left to the client.
+async function fetchTrackRatings(reviewIds) {
+  const ratings = new Map();
+  if (reviewIds.length === 0) {
+    return ratings;
   }
 
-  return next();
+  const result = await pool.query(
+    `SELECT review_id, spotify_track_id, rating, note
+     FROM track_ratings
+     WHERE review_id = ANY($1::int[])`,
+    [reviewIds]
+  );
+  result.rows.forEach((row) => {
+    const entries = ratings.get(row.review_id) || [];
+    entries.push({ track_id: row.spotify_track_id, rating: row.rating, note: row.note });
+    ratings.set(row.review_id, entries);
+  });
+  return ratings;
 }
 
-function getCached(map, key) {
-  const entry = map.get(key);
-  if (!entry) {
-    return null;
+// Every track on the album. The album object holds only the first page of tracks, so long
+// albums are paged through the album-tracks endpoint.
+async function fetchAlbumTrackIds(albumId) {
+  const appToken = await spotify.getAppAccessToken();
+  const album = await spotify.getAlbum(appToken, albumId);
+  recordAlbums(album);
+
+  const tracks = [...(album.tracks?.items || [])];
+  const total = album.tracks?.total ?? tracks.length;
+  while (tracks.length < total) {
+    const page = await spotify.getAlbumTracks(appToken, albumId, { offset: tracks.length, limit: 50 });
+    const items = page.items || [];
+    if (items.length === 0) {
+      break;
+    }
+    tracks.push(...items);
   }
-  if (Date.now() > entry.expiresAt) {
-    map.delete(key);
-    return null;
+  return new Set(tracks.filter(Boolean).map((track) => track.id));
+}
+
+async function writeListOrder(client, listId, order) {
+  if (order.length === 0) {
+    return;
   }
-  return entry.value;
+
+  const total = order.length;
+  const values = [listId];
+  const cases = [];
+
+  order.forEach((albumId, index) => {
+    const idParam = values.length + 1;
+    values.push(albumId);
+    const positionParam = values.length + 1;
+    values.push(total - index);
+    cases.push(`WHEN $${idParam} THEN $${positionParam}`);
+  });
+
+  await client.query(
+    `UPDATE list_items
+     SET position = CASE spotify_album_id
+       ${cases.join(' ')}
+       ELSE position
+     END
+     WHERE list_id = $1`,
+    values
+  );
 }
 
-function setCached(map, key, value, ttlMs) {
-  if (map.size > cacheMaxEntries) {
-    map.clear();
+async function findUnknownAlbumIds(albumIds) {
+  if (albumIds.length === 0) {
+    return [];
+  }
+
+  const appToken = await spotify.getAppAccessToken();
+  const found = new Set();
+  for (let i = 0; i < albumIds.length; i += 20) {
+    const data = await spotify.getAlbums(appToken, albumIds.slice(i, i + 20));
+    recordAlbums(data);
+    (data.albums || []).filter(Boolean).forEach((album) => found.add(album.id));
   }
-  map.set(key, { value, expiresAt: Date.now() + ttlMs });
+
+  return albumIds.filter((id) => !found.has(id));
 }
 
-function isValidSpotifyId(value) {
-  return /^[A-Za-z0-9]{22}$/.test(value);
+// Checks one album id against Spotify and records the album in the catalog. Resolves to
+// 'invalid_album_id' when Spotify does not know the id, or null when it does; any other
+// Spotify error is thrown for sendSpotifyError.
+async function validateAlbumId(albumId) {
+  try {
+    const appToken = await spotify.getAppAccessToken();
+    recordAlbums(await spotify.getAlbum(appToken, albumId));
+    return null;
+  } catch (err) {
+    if (err.code === 'spotify_not_found' || err.code === 'spotify_bad_request') {
+      return 'invalid_album_id';
+    }
+    throw err;
+  }
 }
 
-async function getUserRefreshToken(userId) {
-  const result = await pool.query(
-    'SELECT refresh_token FROM users WHERE id = $1',
-    [userId]
+async function compactListPositions(client, listId) {
+  await client.query(
+    `UPDATE list_items li
+     SET position = ranked.next_position
+     FROM (
+       SELECT id, ROW_NUMBER() OVER (ORDER BY position ASC, created_at ASC) AS next_position
+       FROM list_items
+       WHERE list_id = $1
+     ) ranked
+     WHERE li.id = ranked.id`,
+    [listId]
   );
-  return result.rows[0]?.refresh_token || null;
 }
 
-async function getAccessTokenForUser(userId) {
-  const refreshToken = await getUserRefreshToken(userId);
-  if (!refreshToken) {
-    const error = new Error('missing_refresh_token');
-    error.code = 'missing_refresh_token';
-    throw error;
+// Pinned reviews are capped at three, so only the full timeline is paginated.
+async function fetchUserReviews(userId, { limit, pinnedOnly = false, cursor = null }) {
+  if (pinnedOnly) {
+    const pinnedResult = await pool.query(
+      `SELECT id, spotify_album_id, rating, body, created_at, is_pinned, pinned_at, revised_at
+       FROM reviews
+       WHERE user_id = $1 AND is_pinned = true
+       ORDER BY pinned_at DESC
+       LIMIT $2`,
+      [userId, limit]
+    );
+    const pinnedCards = await getAlbumCards(
+      pinnedResult.rows.map((row) => row.spotify_album_id)
+    );
+    const reviews = pinnedResult.rows.map((row) => ({
+      ...row,
+      album: pinnedCards.get(row.spotify_album_id) || null,
+    }));
+    return { reviews, nextCursor: null };
   }
 
-  const { accessToken, refreshToken: newRefreshToken } =
-    await refreshAccessToken(refreshToken);
+  const values = [userId];
+  const cursorClause = cursorCondition(values, 'created_at', 'id', cursor);
+  values.push(limit + 1);
+  const result = await pool.query(
+    `SELECT id, spotify_album_id, rating, body, created_at, is_pinned, pinned_at, revised_at,
+            created_at::text AS cursor_at
+     FROM reviews
+     WHERE user_id = $1 ${cursorClause}
+     ORDER BY created_at DESC, id DESC
+     LIMIT $${values.length}`,
+    values
+  );
+  const page = takePage(result.rows, limit);
+
+  const albumCards = await getAlbumCards(page.rows.map((row) => row.spotify_album_id));
+  const reviews = page.rows.map((row) => ({
+    id: row.id,
+    spotify_album_id: row.spotify_album_id,
+    album: albumCards.get(row.spotify_album_id) || null,
+    rating: row.rating,
+    body: row.body,
+    created_at: row.created_at,
+    is_pinned: row.is_pinned,
+    pinned_at: row.pinned_at,
+    revised_at: row.revised_at,
+  }));
+
+  return { reviews, nextCursor: page.nextCursor };
+}
+
+async function fetchUserLists(userId, { limit, cursor = null, publicOnly = false }) {
+  const values = [userId];
+  const cursorClause = cursorCondition(values, 'created_at', 'id', cursor);
+  values.push(limit + 1);
+  const listResult = await pool.query(
+    `SELECT id, title, description, is_ranked, visibility, created_at,
+            created_at::text AS cursor_at
+     FROM lists
+     WHERE user_id = $1${publicOnly ? " AND visibility = 'public'" : ''} ${cursorClause}
+     ORDER BY created_at DESC, id DESC
+     LIMIT $${values.length}`,
+    values
+  );
+  const page = takePage(listResult.rows, limit);
+
+  const lists = page.rows.map((row) => ({
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    is_ranked: row.is_ranked,
+    visibility: row.visibility,
+    created_at: row.created_at,
+    items: [],
+  }));
+
+  if (lists.length === 0) {
+    return { lists, nextCursor: null };
+  }
+
+  const listIds = lists.map((list) => list.id);
+  const itemResult = await pool.query(
+    `SELECT list_id, spotify_album_id, created_at, position
+     FROM list_items
+     WHERE list_id = ANY($1)
+     ORDER BY position DESC, created_at DESC`,
+    [listIds]
+  );
 
-  if (newRefreshToken) {
-    await pool.query(
-      'UPDATE users SET refresh_token = $1 WHERE id = $2',
-      [newRefreshToken, userId]
-    );
+  const albumCards = await getAlbumCards(itemResult.rows.map((row) => row.spotify_album_id));
+  const listMap = new Map(lists.map((list) => [list.id, list]));
+  itemResult.rows.forEach((row) => {
+    const list = listMap.get(row.list_id);
+    if (list) {
+      list.items.push({
+        spotify_album_id: row.spotify_album_id,
+        album: albumCards.get(row.spotify_album_id) || null,
+        created_at: row.created_at,
+        position: row.position,
+      });
+    }
+  });
+
+  return { lists, nextCursor: page.nextCursor };
+}
+
+async function recordActivity(client, { userId, type, albumId = null, reviewId = null, listId = null }) {
+  await client.query(
+    `INSERT INTO activities (user_id, type, spotify_album_id, review_id, list_id)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [userId, type, albumId, reviewId, listId]
+  );
+}
+
+// `added` and `removed` are the ratings entering and leaving an album's aggregate (null for
+// neither), so a re-rating is one call and the histogram never needs a full recount.
+async function updateAlbumStats(client, albumId, { added = null, removed = null }) {
+  if (added === removed) {
+    return;
   }
 
-  return accessToken;
+  const countDelta = (added === null ? 0 : 1) - (removed === null ? 0 : 1);
+  const sumDelta = (added || 0) - (removed || 0);
+
+  await client.query(
+    `INSERT INTO album_stats (spotify_album_id)
+     VALUES ($1)
+     ON CONFLICT (spotify_album_id) DO NOTHING`,
+    [albumId]
+  );
+
+  await client.query(
+    `UPDATE album_stats
+     SET review_count = review_count + $2,
+         rating_sum = rating_sum + $3,
+         histogram = ARRAY(
+           SELECT total
+             + CASE WHEN rating = $4 THEN 1 ELSE 0 END
+             - CASE WHEN rating = $5 THEN 1 ELSE 0 END
+           FROM unnest(histogram) WITH ORDINALITY AS bucket(total, rating)
+           ORDER BY rating
+         ),
+         updated_at = NOW()
+     WHERE spotify_album_id = $1`,
+    [albumId, countDelta, sumDelta, added, removed]
+  );
 }
 
-async function getAccessContext(req) {
-  const session = getSession(req);
-  if (session?.sub) {
-    try {
-      const accessToken = await getAccessTokenForUser(session.sub);
-      return { accessToken, cacheKey: `user:${session.sub}` };
-    } catch (err) {
-      console.warn('Falling back to app token for Spotify access.', err?.message);
-    }
+function getHistogramMedian(histogram, count) {
+  if (count === 0) {
+    return null;
   }
 
-  const accessToken = await getAppAccessToken();
-  return { accessToken, cacheKey: 'app' };
+  const valueAt = (position) => {
+    let seen = 0;
+    for (let index = 0; index < histogram.length; index += 1) {
+      seen += histogram[index];
+      if (seen > position) {
+        return index + 1;
+      }
+    }
+    return histogram.length;
+  };
+
+  const middle = Math.floor(count / 2);
+  return count % 2 === 1 ? valueAt(middle) : (valueAt(middle - 1) + valueAt(middle)) / 2;
 }
 
 app.get('/', (req, res) => {
@@ -193,13 +582,25 @@ app.get('/health', async (req, res) => {
   }
 });
 
+app.get('/health/cache', (req, res) => {
+  res.json({ cache: cache.stats() });
+});
+
+app.get('/health/spotify', (req, res) => {
+  res.json({ spotify: { client: spotify.name, ...spotify.health() } });
+});
+
+app.get('/openapi.json', (req, res) => {
+  res.json(openApiDocument);
+});
+
 app.get('/auth/spotify', (req, res) => {
   const state = crypto.randomBytes(16).toString('hex');
   res.cookie('spotify_oauth_state', state, {
     ...cookieOptions,
     maxAge: 10 * 60 * 1000,
   });
-  res.redirect(getAuthorizeUrl(state));
+  res.redirect(spotify.getAuthorizeUrl(state));
 });
 
 app.get('/auth/spotify/callback', async (req, res) => {
@@ -214,8 +615,12 @@ app.get('/auth/spotify/callback', async (req, res) => {
   res.clearCookie('spotify_oauth_state', cookieOptions);
 
   try {
-    const { accessToken, refreshToken: incomingRefreshToken } = await exchangeCodeForToken(code);
-    const profile = await fetchSpotifyProfile(accessToken);
+    const {
+      accessToken,
+      refreshToken: incomingRefreshToken,
+      expiresIn,
+    } = await spotify.exchangeCodeForToken(code);
+    const profile = await spotify.fetchProfile(accessToken);
 
     let refreshToken = incomingRefreshToken;
     if (!refreshToken) {
@@ -223,7 +628,7 @@ app.get('/auth/spotify/callback', async (req, res) => {
         'SELECT refresh_token FROM users WHERE spotify_id = $1',
         [profile.id]
       );
-      refreshToken = existing.rows[0]?.refresh_token || null;
+      refreshToken = decryptSecret(existing.rows[0]?.refresh_token);
     }
 
     if (!refreshToken) {
@@ -235,12 +640,15 @@ app.get('/auth/spotify/callback', async (req, res) => {
        VALUES ($1, $2, $3)
        ON CONFLICT (spotify_id)
        DO UPDATE SET display_name = COALESCE(users.display_name, EXCLUDED.display_name),
-                     refresh_token = EXCLUDED.refresh_token
+                     refresh_token = EXCLUDED.refresh_token,
+                     needs_reauth = false
        RETURNING id, spotify_id, display_name`,
-      [profile.id, profile.display_name || null, refreshToken]
+      [profile.id, profile.display_name || null, encryptSecret(refreshToken)]
     );
 
-    setSession(res, result.rows[0]);
+    userTokens.remember(result.rows[0].id, accessToken, expiresIn);
+
+    await setSession(req, res, result.rows[0]);
     return res.redirect(webOrigin);
   } catch (err) {
     console.error(err);
@@ -249,14 +657,14 @@ app.get('/auth/spotify/callback', async (req, res) => {
 });
 
 app.get('/auth/me', async (req, res) => {
-  const session = getSession(req);
+  const session = await getSession(req);
   if (!session) {
     return res.status(401).json({ user: null });
   }
 
   try {
     const result = await pool.query(
-      'SELECT id, spotify_id, display_name FROM users WHERE id = $1',
+      'SELECT id, spotify_id, display_name, needs_reauth FROM users WHERE id = $1',
       [session.sub]
     );
 
@@ -267,22 +675,24 @@ app.get('/auth/me', async (req, res) => {
   }
 });
 
-app.post('/auth/logout', (req, res) => {
-  clearSession(res);
-  res.json({ status: 'ok' });
-});
-
-app.get('/users/search', async (req, res) => {
-  const queryRaw = Array.isArray(req.query.query) ? req.query.query[0] : req.query.query;
-  const limitRaw = Array.isArray(req.query.limit) ? req.query.limit[0] : req.query.limit;
-  const limit = Math.min(Math.max(parseInt(limitRaw || '10', 10), 1), 20);
-
-  if (!queryRaw || !queryRaw.trim()) {
-    return res.status(400).json({ error: 'query_required' });
+app.post('/auth/logout', async (req, res) => {
+  try {
+    const session = await getSession(req);
+    if (session?.sub) {
+      userTokens.forget(session.sub);
+    }
+    await clearSession(req, res);
+    return res.json({ status: 'ok' });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ error: 'logout_failed' });
   }
+});
 
-  const query = `%${queryRaw.trim()}%`;
-  const session = getSession(req);
+app.get('/users/search', validateRequest, async (req, res) => {
+  const { limit } = req.valid.query;
+  const query = `%${req.valid.query.query}%`;
+  const session = await getSession(req);
   const values = [query];
   let where = '(display_name ILIKE $1 OR spotify_id ILIKE $1)';
 
@@ -310,12 +720,8 @@ app.get('/users/search', async (req, res) => {
   }
 });
 
-app.post('/users/:id/follow', requireAuth, async (req, res) => {
-  const targetId = parseInt(req.params.id, 10);
-
-  if (!targetId) {
-    return res.status(400).json({ error: 'user_id_required' });
-  }
+app.post('/users/:id/follow', requireAuth, rateLimit('follow_write'), validateRequest, async (req, res) => {
+  const targetId = req.valid.params.id;
 
   if (targetId === req.user.sub) {
     return res.status(400).json({ error: 'cannot_follow_self' });
@@ -345,12 +751,8 @@ app.post('/users/:id/follow', requireAuth, async (req, res) => {
   }
 });
 
-app.delete('/users/:id/follow', requireAuth, async (req, res) => {
-  const targetId = parseInt(req.params.id, 10);
-
-  if (!targetId) {
-    return res.status(400).json({ error: 'user_id_required' });
-  }
+app.delete('/users/:id/follow', requireAuth, rateLimit('follow_write'), validateRequest, async (req, res) => {
+  const targetId = req.valid.params.id;
 
   if (targetId === req.user.sub) {
     return res.status(400).json({ error: 'cannot_follow_self' });
@@ -369,172 +771,344 @@ app.delete('/users/:id/follow', requireAuth, async (req, res) => {
   }
 });
 
-app.get('/users/:id/followers', async (req, res) => {
-  const userId = parseInt(req.params.id, 10);
-  const limitRaw = Array.isArray(req.query.limit) ? req.query.limit[0] : req.query.limit;
-  const limit = Math.min(Math.max(parseInt(limitRaw || '20', 10), 1), 100);
+app.get('/users/:id', validateRequest, async (req, res) => {
+  const userId = req.valid.params.id;
+
+  const session = await getSession(req);
+
+  try {
+    const result = await pool.query(
+      `SELECT u.id, u.spotify_id, u.display_name, u.avatar_url, u.bio,
+              u.favorite_genres, u.favorite_album_ids, u.created_at,
+              (SELECT COUNT(*) FROM follows WHERE following_id = u.id) AS followers_count,
+              (SELECT COUNT(*) FROM follows WHERE follower_id = u.id) AS following_count,
+              (SELECT COUNT(*) FROM reviews WHERE user_id = u.id) AS review_count,
+              EXISTS (
+                SELECT 1 FROM follows WHERE follower_id = $2 AND following_id = u.id
+              ) AS is_following
+       FROM users u
+       WHERE u.id = $1`,
+      [userId, session?.sub || null]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'user_not_found' });
+    }
+
+    const row = result.rows[0];
+    const favoriteAlbumIds = row.favorite_album_ids || [];
+    const favoriteCards = await getAlbumCards(favoriteAlbumIds);
+    return res.json({
+      user: {
+        id: row.id,
+        spotify_id: row.spotify_id,
+        display_name: row.display_name,
+        avatar_url: row.avatar_url,
+        bio: row.bio,
+        favorite_genres: row.favorite_genres || [],
+        favorite_album_ids: favoriteAlbumIds,
+        favorite_albums: favoriteAlbumIds
+          .map((albumId) => favoriteCards.get(albumId))
+          .filter(Boolean),
+        created_at: row.created_at,
+        followers_count: parseInt(row.followers_count, 10),
+        following_count: parseInt(row.following_count, 10),
+        review_count: parseInt(row.review_count, 10),
+        is_following: row.is_following,
+      },
+    });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ error: 'user_fetch_failed' });
+  }
+});
+
+app.get('/users/:id/reviews', validateRequest, async (req, res) => {
+  const userId = req.valid.params.id;
+  const { limit, cursor, pinned } = req.valid.query;
+
+  try {
+    const { reviews, nextCursor } = await fetchUserReviews(userId, {
+      limit,
+      cursor,
+      pinnedOnly: pinned,
+    });
+    return res.json({ reviews, next_cursor: nextCursor });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ error: 'reviews_fetch_failed' });
+  }
+});
+
+app.get('/users/:id/lists', validateRequest, async (req, res) => {
+  const userId = req.valid.params.id;
+  const { limit, cursor } = req.valid.query;
 
-  if (!userId) {
-    return res.status(400).json({ error: 'user_id_required' });
+  try {
+    const { lists, nextCursor } = await fetchUserLists(userId, {
+      limit,
+      cursor,
+      publicOnly: true,
+    });
+    return res.json({ lists, next_cursor: nextCursor });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ error: 'lists_fetch_failed' });
   }
+});
+
+app.get('/users/:id/followers', validateRequest, async (req, res) => {
+  const userId = req.valid.params.id;
+  const { limit, cursor } = req.valid.query;
 
   try {
+    const values = [userId];
+    const cursorClause = cursorCondition(values, 'f.created_at', 'u.id', cursor);
+    values.push(limit + 1);
     const result = await pool.query(
-      `SELECT u.id, u.spotify_id, u.display_name, u.avatar_url, f.created_at
+      `SELECT u.id, u.spotify_id, u.display_name, u.avatar_url, f.created_at,
+              f.created_at::text AS cursor_at
        FROM follows f
        JOIN users u ON u.id = f.follower_id
-       WHERE f.following_id = $1
-       ORDER BY f.created_at DESC
-       LIMIT $2`,
-      [userId, limit]
+       WHERE f.following_id = $1 ${cursorClause}
+       ORDER BY f.created_at DESC, u.id DESC
+       LIMIT $${values.length}`,
+      values
     );
+    const page = takePage(result.rows, limit);
 
-    return res.json({ followers: result.rows });
+    const followers = page.rows.map((row) => ({
+      id: row.id,
+      spotify_id: row.spotify_id,
+      display_name: row.display_name,
+      avatar_url: row.avatar_url,
+      created_at: row.created_at,
+    }));
+
+    return res.json({ followers, next_cursor: page.nextCursor });
   } catch (err) {
     console.error(err);
     return res.status(500).json({ error: 'followers_fetch_failed' });
   }
 });
 
-app.get('/users/:id/following', async (req, res) => {
-  const userId = parseInt(req.params.id, 10);
-  const limitRaw = Array.isArray(req.query.limit) ? req.query.limit[0] : req.query.limit;
-  const limit = Math.min(Math.max(parseInt(limitRaw || '20', 10), 1), 100);
-
-  if (!userId) {
-    return res.status(400).json({ error: 'user_id_required' });
-  }
+app.get('/users/:id/following', validateRequest, async (req, res) => {
+  const userId = req.valid.params.id;
+  const { limit, cursor } = req.valid.query;
 
   try {
+    const values = [userId];
+    const cursorClause = cursorCondition(values, 'f.created_at', 'u.id', cursor);
+    values.push(limit + 1);
     const result = await pool.query(
-      `SELECT u.id, u.spotify_id, u.display_name, u.avatar_url, f.created_at
+      `SELECT u.id, u.spotify_id, u.display_name, u.avatar_url, f.created_at,
+              f.created_at::text AS cursor_at
        FROM follows f
        JOIN users u ON u.id = f.following_id
-       WHERE f.follower_id = $1
-       ORDER BY f.created_at DESC
-       LIMIT $2`,
-      [userId, limit]
+       WHERE f.follower_id = $1 ${cursorClause}
+       ORDER BY f.created_at DESC, u.id DESC
+       LIMIT $${values.length}`,
+      values
     );
+    const page = takePage(result.rows, limit);
+
+    const following = page.rows.map((row) => ({
+      id: row.id,
+      spotify_id: row.spotify_id,
+      display_name: row.display_name,
+      avatar_url: row.avatar_url,
+      created_at: row.created_at,
+    }));
 
-    return res.json({ following: result.rows });
+    return res.json({ following, next_cursor: page.nextCursor });
   } catch (err) {
     console.error(err);
     return res.status(500).json({ error: 'following_fetch_failed' });
   }
 });
 
-app.get('/me/profile', requireAuth, async (req, res) => {
+app.get('/me/feed', requireAuth, validateRequest, async (req, res) => {
+  const { limit, cursor } = req.valid.query;
+
   try {
+    const values = [req.user.sub];
+    const cursorClause = cursorCondition(values, 'a.created_at', 'a.id', cursor);
+    values.push(limit + 1);
+
+    // Only public lists surface in the feed; review activity is always visible.
     const result = await pool.query(
-      `SELECT id, spotify_id, display_name, avatar_url, bio,
-              favorite_genres, favorite_album_ids
-       FROM users
-       WHERE id = $1`,
-      [req.user.sub]
+      `SELECT a.id, a.type, a.spotify_album_id, a.created_at, a.created_at::text AS cursor_at,
+              u.id AS user_id, u.display_name, u.spotify_id, u.avatar_url,
+              r.id AS review_id, r.rating, r.body,
+              l.id AS list_id, l.title AS list_title
+       FROM activities a
+       JOIN follows f ON f.following_id = a.user_id AND f.follower_id = $1
+       JOIN users u ON u.id = a.user_id
+       LEFT JOIN reviews r ON r.id = a.review_id
+       LEFT JOIN lists l ON l.id = a.list_id
+       WHERE (a.list_id IS NULL OR l.visibility = 'public')
+         ${cursorClause}
+       ORDER BY a.created_at DESC, a.id DESC
+       LIMIT $${values.length}`,
+      values
     );
 
-    if (result.rows.length === 0) {
-      return res.status(404).json({ error: 'profile_not_found' });
-    }
+    const page = takePage(result.rows, limit);
 
-    return res.json({ profile: result.rows[0] });
+    const albumCards = await getAlbumCards(page.rows.map((row) => row.spotify_album_id));
+    const activities = page.rows.map((row) => ({
+      id: row.id,
+      type: row.type,
+      spotify_album_id: row.spotify_album_id,
+      album: albumCards.get(row.spotify_album_id) || null,
+      created_at: row.created_at,
+      user: {
+        id: row.user_id,
+        display_name: row.display_name,
+        spotify_id: row.spotify_id,
+        avatar_url: row.avatar_url,
+      },
+      review: row.review_id
+        ? { id: row.review_id, rating: row.rating, body: row.body }
+        : null,
+      list: row.list_id ? { id: row.list_id, title: row.list_title } : null,
+    }));
+
+    return res.json({ activities, next_cursor: page.nextCursor });
   } catch (err) {
     console.error(err);
-    return res.status(500).json({ error: 'profile_fetch_failed' });
+    return res.status(500).json({ error: 'feed_fetch_failed' });
   }
 });
 
-app.patch('/me/profile', requireAuth, async (req, res) => {
-  const updates = [];
-  const values = [];
-
-  if (Object.prototype.hasOwnProperty.call(req.body || {}, 'display_name')) {
-    const displayNameRaw =
-      typeof req.body.display_name === 'string' ? req.body.display_name.trim() : '';
-    const displayName = displayNameRaw.length > 0 ? displayNameRaw : null;
-    if (displayName && displayName.length > 80) {
-      return res.status(400).json({ error: 'display_name_too_long' });
-    }
-    updates.push(`display_name = $${values.length + 1}`);
-    values.push(displayName);
-  }
+app.get('/me/sessions', requireAuth, async (req, res) => {
+  try {
+    const result = await pool.query(
+      `SELECT id, user_agent, ip, created_at, last_seen_at, expires_at
+       FROM sessions
+       WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+       ORDER BY last_seen_at DESC`,
+      [req.user.sub]
+    );
 
-  if (Object.prototype.hasOwnProperty.call(req.body || {}, 'bio')) {
-    const bioRaw = typeof req.body.bio === 'string' ? req.body.bio.trim() : '';
-    const bio = bioRaw.length > 0 ? bioRaw : null;
-    if (bio && bio.length > 500) {
-      return res.status(400).json({ error: 'bio_too_long' });
-    }
-    updates.push(`bio = $${values.length + 1}`);
-    values.push(bio);
+    return res.json({
+      sessions: result.rows.map((row) => ({ ...row, current: row.id === req.user.jti })),
+    });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ error: 'sessions_fetch_failed' });
   }
+});
 
-  if (Object.prototype.hasOwnProperty.call(req.body || {}, 'favorite_genres')) {
-    const genresRaw = Array.isArray(req.body.favorite_genres)
-      ? req.body.favorite_genres
-      : [];
-    const genres = genresRaw
-      .filter((genre) => typeof genre === 'string')
-      .map((genre) => genre.trim())
-      .filter((genre) => genre.length > 0);
-    const uniqueGenres = Array.from(new Set(genres));
-    if (uniqueGenres.length > 10) {
-      return res.status(400).json({ error: 'favorite_genres_too_many' });
-    }
-    if (uniqueGenres.some((genre) => genre.length > 30)) {
-      return res.status(400).json({ error: 'favorite_genre_too_long' });
-    }
-    updates.push(`favorite_genres = $${values.length + 1}`);
-    values.push(uniqueGenres);
-  }
+app.delete('/me/sessions/:id', requireAuth, validateRequest, async (req, res) => {
+  const sessionId = req.valid.params.id;
 
-  if (Object.prototype.hasOwnProperty.call(req.body || {}, 'favorite_album_ids')) {
-    if (!Array.isArray(req.body.favorite_album_ids)) {
-      return res.status(400).json({ error: 'favorite_album_ids_invalid' });
-    }
-    const albumIds = req.body.favorite_album_ids
-      .filter((value) => typeof value === 'string')
-      .map((value) => value.trim())
-      .filter((value) => value.length > 0);
+  try {
+    const result = await pool.query(
+      `UPDATE sessions
+       SET revoked_at = NOW()
+       WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL
+       RETURNING id`,
+      [sessionId, req.user.sub]
+    );
 
-    if (albumIds.length > 3) {
-      return res.status(400).json({ error: 'favorite_album_ids_too_many' });
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'session_not_found' });
     }
 
-    if (albumIds.some((id) => !isValidSpotifyId(id))) {
-      return res.status(400).json({ error: 'favorite_album_ids_invalid' });
+    if (sessionId === req.user.jti) {
+      userTokens.forget(req.user.sub);
+      res.clearCookie(cookieName, cookieOptions);
     }
 
-    updates.push(`favorite_album_ids = $${values.length + 1}`);
-    values.push(albumIds);
-  }
-
-  if (updates.length === 0) {
-    return res.status(400).json({ error: 'profile_update_required' });
+    return res.json({ status: 'ok' });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ error: 'session_revoke_failed' });
   }
+});
 
+// "Log out everywhere", including the device making the request.
+app.delete('/me/sessions', requireAuth, async (req, res) => {
   try {
-    values.push(req.user.sub);
     const result = await pool.query(
-      `UPDATE users
-       SET ${updates.join(', ')}
-       WHERE id = $${values.length}
-       RETURNING id, spotify_id, display_name, avatar_url, bio,
-                 favorite_genres, favorite_album_ids`,
-      values
+      `UPDATE sessions
+       SET revoked_at = NOW()
+       WHERE user_id = $1 AND revoked_at IS NULL`,
+      [req.user.sub]
     );
 
-    return res.json({ profile: result.rows[0] });
+    userTokens.forget(req.user.sub);
+    res.clearCookie(cookieName, cookieOptions);
+    return res.json({ status: 'ok', revoked: result.rowCount });
   } catch (err) {
     console.error(err);
-    return res.status(500).json({ error: 'profile_update_failed' });
+    return res.status(500).json({ error: 'session_revoke_failed' });
   }
 });
 
-app.post('/me/avatar', requireAuth, (req, res) => {
-  upload.single('avatar')(req, res, async (err) => {
-    if (err) {
-      if (err.code === 'LIMIT_FILE_SIZE') {
+app.get('/me/profile', requireAuth, async (req, res) => {
+  try {
+    const result = await pool.query(
+      `SELECT id, spotify_id, display_name, avatar_url, bio,
+              favorite_genres, favorite_album_ids
+       FROM users
+       WHERE id = $1`,
+      [req.user.sub]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'profile_not_found' });
+    }
+
+    const profile = result.rows[0];
+    const favoriteCards = await getAlbumCards(profile.favorite_album_ids || []);
+    return res.json({
+      profile: {
+        ...profile,
+        favorite_albums: (profile.favorite_album_ids || [])
+          .map((albumId) => favoriteCards.get(albumId))
+          .filter(Boolean),
+      },
+    });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ error: 'profile_fetch_failed' });
+  }
+});
+
+app.patch('/me/profile', requireAuth, validateRequest, async (req, res) => {
+  const updates = [];
+  const values = [];
+
+  // The schema only admits profile columns, so every parsed field maps straight to one.
+  Object.entries(req.valid.body).forEach(([column, value]) => {
+    updates.push(`${column} = $${values.length + 1}`);
+    values.push(value);
+  });
+
+  try {
+    values.push(req.user.sub);
+    const result = await pool.query(
+      `UPDATE users
+       SET ${updates.join(', ')}
+       WHERE id = $${values.length}
+       RETURNING id, spotify_id, display_name, avatar_url, bio,
+                 favorite_genres, favorite_album_ids`,
+      values
+    );
+
+    return res.json({ profile: result.rows[0] });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ error: 'profile_update_failed' });
+  }
+});
+
+app.post('/me/avatar', requireAuth, rateLimit('avatar_upload'), (req, res) => {
+  upload.single('avatar')(req, res, async (err) => {
+    if (err) {
+      if (err.code === 'LIMIT_FILE_SIZE') {
         return res.status(400).json({ error: 'avatar_too_large' });
       }
       return res.status(400).json({ error: 'avatar_invalid' });
@@ -558,191 +1132,817 @@ app.post('/me/avatar', requireAuth, (req, res) => {
   });
 });
 
-app.get('/spotify/search', rateLimit, async (req, res) => {
-  const query = Array.isArray(req.query.query) ? req.query.query[0] : req.query.query;
-  const limitRaw = Array.isArray(req.query.limit) ? req.query.limit[0] : req.query.limit;
-  const limit = Math.min(Math.max(parseInt(limitRaw || '10', 10), 1), 20);
+app.get('/me/export', requireAuth, validateRequest, async (req, res) => {
+  const { format } = req.valid.query;
+
+  try {
+    const archive = await buildAccountExport(req.user.sub);
+    if (!archive) {
+      return res.status(404).json({ error: 'user_not_found' });
+    }
+
+    const filename = `jukebox-export-${archive.exported_at.slice(0, 10)}`;
+    if (format === 'json') {
+      res.set('Content-Disposition', `attachment; filename="${filename}.json"`);
+      return res.json(archive);
+    }
+
+    const csv = format === 'reviews.csv' ? reviewsCsv(archive) : listsCsv(archive);
+    res.set('Content-Disposition', `attachment; filename="${filename}-${format}"`);
+    return res.type('text/csv').send(csv);
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ error: 'export_failed' });
+  }
+});
+
+// Avatars are named `<user id>-<random>`; older uploads without the prefix are still
+// found through the URL stored on the profile.
+async function removeUserAvatars(userId, avatarUrl) {
+  const filenames = new Set();
+  const entries = await fs.promises.readdir(uploadsDir).catch(() => []);
+  entries
+    .filter((entry) => entry.startsWith(`${userId}-`))
+    .forEach((entry) => filenames.add(entry));
 
-  if (!query || !query.trim()) {
-    return res.status(400).json({ error: 'query_required' });
+  if (avatarUrl) {
+    try {
+      const { pathname } = new URL(avatarUrl);
+      if (pathname.startsWith('/uploads/')) {
+        filenames.add(path.basename(pathname));
+      }
+    } catch (err) {
+      // not a URL we issued; nothing on disk to remove
+    }
   }
 
+  await Promise.all(
+    [...filenames].map((filename) =>
+      fs.promises.rm(path.join(uploadsDir, filename), { force: true })
+    )
+  );
+}
+
+app.delete('/me', requireAuth, async (req, res) => {
+  const userId = req.user.sub;
+
   try {
-    const { accessToken, cacheKey } = await getAccessContext(req);
-    const cacheId = `${cacheKey}:search:${limit}:${query.trim().toLowerCase()}`;
-    const cached = getCached(searchCache, cacheId);
-    if (cached) {
-      res.set('X-Cache', 'HIT');
-      return res.json(cached);
+    const avatarUrl = await withTransaction(async (client) => {
+      const reviewResult = await client.query(
+        'SELECT spotify_album_id, rating FROM reviews WHERE user_id = $1',
+        [userId]
+      );
+      for (const review of reviewResult.rows) {
+        await updateAlbumStats(client, review.spotify_album_id, { removed: review.rating });
+      }
+
+      // Reviews, lists, follows, activity, sessions and the stored Spotify refresh token
+      // all go with the user row through ON DELETE CASCADE.
+      const userResult = await client.query(
+        'DELETE FROM users WHERE id = $1 RETURNING avatar_url',
+        [userId]
+      );
+      return userResult.rows[0]?.avatar_url || null;
+    });
+
+    // Spotify has no revocation endpoint; dropping the refresh token and the cached access
+    // token leaves the app with no way to act on the user's behalf.
+    userTokens.forget(userId);
+    res.clearCookie(cookieName, cookieOptions);
+
+    try {
+      await removeUserAvatars(userId, avatarUrl);
+    } catch (err) {
+      console.error(err);
     }
 
-    const url = new URL('https://api.spotify.com/v1/search');
-    url.searchParams.set('q', query.trim());
-    url.searchParams.set('type', 'album');
-    url.searchParams.set('limit', String(limit));
+    return res.json({ status: 'ok' });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ error: 'account_delete_failed' });
+  }
+});
 
-    const data = await fetchSpotifyJson(accessToken, url.toString());
-    const albums = (data.albums?.items || []).map((album) => ({
-      id: album.id,
-      name: album.name,
-      artists: album.artists?.map((artist) => artist.name) || [],
-      image: album.images?.[1]?.url || album.images?.[0]?.url || null,
-      release_date: album.release_date,
-      total_tracks: album.total_tracks,
-    }));
+app.get('/me/imports', requireAuth, async (req, res) => {
+  try {
+    return res.json({ imports: await fetchImports(req.user.sub) });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ error: 'imports_fetch_failed' });
+  }
+});
+
+app.post('/me/imports', requireAuth, rateLimit('import_upload'), validateRequest, (req, res) => {
+  importUpload.single('file')(req, res, async (err) => {
+    if (err) {
+      if (err.code === 'LIMIT_FILE_SIZE') {
+        return res.status(400).json({ error: 'import_too_large' });
+      }
+      return res.status(400).json({ error: 'import_invalid' });
+    }
+
+    if (!req.file) {
+      return res.status(400).json({ error: 'import_file_required' });
+    }
+
+    const ratingScale = Number(req.valid.query.rating_scale);
+    let parsed;
+    try {
+      parsed = parseImportFile(req.file.buffer.toString('utf8'), { ratingScale });
+    } catch (error) {
+      if (error.code?.startsWith('import_')) {
+        return res.status(400).json({ error: error.code });
+      }
+      console.error(error);
+      return res.status(500).json({ error: 'import_create_failed' });
+    }
+
+    try {
+      // Uploading a file that was already imported returns that import with its picks intact,
+      // and restarts its matching if that had failed.
+      const { importId, created, restarted } = await withTransaction(async (client) => {
+        const insertResult = await client.query(
+          `INSERT INTO imports (user_id, source, filename, checksum, rating_scale)
+           VALUES ($1, $2, $3, $4, $5)
+           ON CONFLICT (user_id, checksum, rating_scale) DO NOTHING
+           RETURNING id`,
+          [
+            req.user.sub,
+            parsed.source,
+            (req.file.originalname || '').slice(0, 200) || null,
+            parsed.checksum,
+            ratingScale,
+          ]
+        );
+
+        if (insertResult.rows.length === 0) {
+          const existingResult = await client.query(
+            `SELECT id, status FROM imports
+             WHERE user_id = $1 AND checksum = $2 AND rating_scale = $3
+             FOR UPDATE`,
+            [req.user.sub, parsed.checksum, ratingScale]
+          );
+          const existing = existingResult.rows[0];
+          if (existing.status === 'failed') {
+            await client.query(`UPDATE imports SET status = 'matching' WHERE id = $1`, [existing.id]);
+          }
+          return { importId: existing.id, created: false, restarted: existing.status === 'failed' };
+        }
+
+        const newId = insertResult.rows[0].id;
+        await client.query(
+          `INSERT INTO import_rows (import_id, row_number, artist, album, match_key, rating, rated_on, body)
+           SELECT $1, *
+           FROM UNNEST($2::int[], $3::text[], $4::text[], $5::text[], $6::smallint[], $7::date[], $8::text[])`,
+          [
+            newId,
+            parsed.rows.map((row) => row.row_number),
+            parsed.rows.map((row) => row.artist),
+            parsed.rows.map((row) => row.album),
+            parsed.rows.map((row) => matchKey(row.artist, row.album)),
+            parsed.rows.map((row) => row.rating),
+            parsed.rows.map((row) => row.rated_on),
+            parsed.rows.map((row) => row.body),
+          ]
+        );
+        return { importId: newId, created: true };
+      });
+
+      if (created || restarted) {
+        enqueueImportMatching(importId);
+      }
+
+      return res
+        .status(created ? 201 : 200)
+        .json({ import: await fetchImport(importId, req.user.sub) });
+    } catch (error) {
+      console.error(error);
+      return res.status(500).json({ error: 'import_create_failed' });
+    }
+  });
+});
+
+app.get('/me/imports/:id', requireAuth, validateRequest, async (req, res) => {
+  try {
+    const result = await fetchImport(req.valid.params.id, req.user.sub);
+    if (!result) {
+      return res.status(404).json({ error: 'import_not_found' });
+    }
+    return res.json({ import: result });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ error: 'import_fetch_failed' });
+  }
+});
+
+// Resolves one row by hand: an album id confirms it, null skips it.
+app.patch('/me/imports/:id/rows/:rowId', requireAuth, rateLimit('import_write'), validateRequest, async (req, res) => {
+  const { id: importId, rowId } = req.valid.params;
+  const albumId = req.valid.body.spotify_album_id;
+
+  try {
+    const rowResult = await pool.query(
+      `SELECT ir.id, ir.candidates
+       FROM import_rows ir
+       JOIN imports i ON i.id = ir.import_id
+       WHERE ir.id = $1 AND ir.import_id = $2 AND i.user_id = $3`,
+      [rowId, importId, req.user.sub]
+    );
+    const row = rowResult.rows[0];
+    if (!row) {
+      return res.status(404).json({ error: 'import_row_not_found' });
+    }
+
+    // Candidates came from Spotify already; anything else is checked before it is stored.
+    const isCandidate = (row.candidates || []).some((candidate) => candidate.id === albumId);
+    if (albumId && !isCandidate) {
+      let albumError;
+      try {
+        albumError = await validateAlbumId(albumId);
+      } catch (err) {
+        return sendSpotifyError(res, err, 'import_row_update_failed');
+      }
+      if (albumError) {
+        return res.status(400).json({ error: albumError });
+      }
+    }
 
-    const payload = { albums };
-    setCached(searchCache, cacheId, payload, searchCacheTtlMs);
-    res.set('X-Cache', 'MISS');
-    return res.json(payload);
+    const updateResult = await pool.query(
+      `UPDATE import_rows
+       SET status = $2, spotify_album_id = $3
+       WHERE id = $1
+       RETURNING id, status, spotify_album_id`,
+      [rowId, albumId ? 'confirmed' : 'skipped', albumId]
+    );
+    const updated = updateResult.rows[0];
+    const albumCards = await getAlbumCards(albumId ? [albumId] : []);
+
+    return res.json({
+      row: {
+        id: updated.id,
+        status: updated.status,
+        spotify_album_id: updated.spotify_album_id,
+        match: albumId ? albumCards.get(albumId) || null : null,
+      },
+    });
   } catch (err) {
     console.error(err);
-    return res.status(500).json({ error: 'spotify_search_failed' });
+    return res.status(500).json({ error: 'import_row_update_failed' });
   }
 });
 
-app.get('/spotify/albums', rateLimit, async (req, res) => {
-  const idsRaw = Array.isArray(req.query.ids)
-    ? req.query.ids.join(',')
-    : req.query.ids;
+// Creates reviews or list items from every matched or confirmed row. Committing again only
+// adds what is missing: albums the user already reviewed keep their review untouched, and a
+// list import reuses the list it created the first time. Imported reviews are dated from the
+// file and, unlike reviews written on the site, are not announced in followers' feeds.
+app.post('/me/imports/:id/commit', requireAuth, rateLimit('import_write'), validateRequest, async (req, res) => {
+  const importId = req.valid.params.id;
+  const { target, title, is_ranked: isRanked, visibility } = req.valid.body;
+
+  try {
+    const importResult = await pool.query(
+      'SELECT status FROM imports WHERE id = $1 AND user_id = $2',
+      [importId, req.user.sub]
+    );
+    if (importResult.rows.length === 0) {
+      return res.status(404).json({ error: 'import_not_found' });
+    }
+    if (importResult.rows[0].status === 'failed') {
+      return res.status(409).json({ error: 'import_failed' });
+    }
+    if (importResult.rows[0].status !== 'ready') {
+      return res.status(409).json({ error: 'import_not_ready' });
+    }
+
+    const summary = await withTransaction(async (client) => {
+      // The lock serializes concurrent commits so a list import cannot create two lists.
+      const lockResult = await client.query(
+        'SELECT filename, list_id FROM imports WHERE id = $1 FOR UPDATE',
+        [importId]
+      );
+      const importRow = lockResult.rows[0];
+
+      const rowResult = await client.query(
+        `SELECT spotify_album_id, rating, rated_on::text AS rated_on, body
+         FROM import_rows
+         WHERE import_id = $1 AND status IN ('matched', 'confirmed')
+         ORDER BY row_number`,
+        [importId]
+      );
+
+      const result = { target, created: 0, already_present: 0, without_rating: 0, list_id: null };
+
+      if (target === 'reviews') {
+        for (const row of rowResult.rows) {
+          if (row.rating === null) {
+            result.without_rating += 1;
+            continue;
+          }
+          const insertResult = await client.query(
+            `INSERT INTO reviews (user_id, spotify_album_id, rating, body, created_at)
+             VALUES ($1, $2, $3, $4, COALESCE($5::date::timestamptz, NOW()))
+             ON CONFLICT (user_id, spotify_album_id) DO NOTHING
+             RETURNING id`,
+            [req.user.sub, row.spotify_album_id, row.rating, row.body, row.rated_on]
+          );
+          if (insertResult.rows.length > 0) {
+            await updateAlbumStats(client, row.spotify_album_id, { added: row.rating });
+            result.created += 1;
+          } else {
+            result.already_present += 1;
+          }
+        }
+      } else {
+        let listId = null;
+        if (importRow.list_id) {
+          const listResult = await client.query(
+            'SELECT id FROM lists WHERE id = $1 AND user_id = $2 FOR UPDATE',
+            [importRow.list_id, req.user.sub]
+          );
+          listId = listResult.rows[0]?.id || null;
+        }
+
+        if (!listId) {
+          const defaultTitle = importRow.filename
+            ? `Imported from ${importRow.filename}`
+            : 'Imported albums';
+          const listResult = await client.query(
+            `INSERT INTO lists (user_id, title, description, is_ranked, visibility)
+             VALUES ($1, $2, $3, $4, $5)
+             RETURNING id`,
+            [
+              req.user.sub,
+              title || defaultTitle.slice(0, 120),
+              null,
+              isRanked,
+              visibility,
+            ]
+          );
+          listId = listResult.rows[0].id;
+          await recordActivity(client, { userId: req.user.sub, type: 'list_created', listId });
+          await client.query('UPDATE imports SET list_id = $2 WHERE id = $1', [importId, listId]);
+        }
+
+        const itemResult = await client.query(
+          'SELECT spotify_album_id, position FROM list_items WHERE list_id = $1',
+          [listId]
+        );
+        const present = new Set(itemResult.rows.map((item) => item.spotify_album_id));
+        const fileOrder = Array.from(new Set(rowResult.rows.map((row) => row.spotify_album_id)));
+        const additions = fileOrder.filter((albumId) => !present.has(albumId));
+        const maxPosition = Math.max(0, ...itemResult.rows.map((item) => Number(item.position)));
+
+        // Lists read highest position first, so the file's first row gets the top slot.
+        for (const [index, albumId] of additions.entries()) {
+          await client.query(
+            `INSERT INTO list_items (list_id, spotify_album_id, position)
+             VALUES ($1, $2, $3)`,
+            [listId, albumId, maxPosition + additions.length - index]
+          );
+        }
+
+        result.created = additions.length;
+        result.already_present = fileOrder.length - additions.length;
+        result.list_id = listId;
+      }
 
-  if (!idsRaw || typeof idsRaw !== 'string') {
-    return res.status(400).json({ error: 'ids_required' });
+      await client.query('UPDATE imports SET committed_at = NOW() WHERE id = $1', [importId]);
+      return result;
+    });
+
+    return res.json(summary);
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ error: 'import_commit_failed' });
   }
+});
+
+app.get('/me/listening', requireAuth, async (req, res) => {
+  try {
+    return res.json({ summary: await fetchListeningSummary(req.user.sub) });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ error: 'listening_fetch_failed' });
+  }
+});
+
+app.post('/me/listening', requireAuth, rateLimit('import_upload'), (req, res) => {
+  listeningUpload.array('files')(req, res, async (err) => {
+    if (err) {
+      if (err.code === 'LIMIT_FILE_SIZE') {
+        return res.status(400).json({ error: 'listening_history_too_large' });
+      }
+      return res.status(400).json({ error: 'listening_history_invalid' });
+    }
+
+    if (!req.files || req.files.length === 0) {
+      return res.status(400).json({ error: 'listening_history_required' });
+    }
+
+    // Every file is read before anything is stored, so one bad file rejects the whole upload.
+    let parsedFiles;
+    try {
+      parsedFiles = req.files.map((file) => ({
+        filename: file.originalname || null,
+        history: parseStreamingHistory(file.buffer.toString('utf8')),
+      }));
+    } catch (error) {
+      if (error.code?.startsWith('listening_')) {
+        return res.status(400).json({ error: error.code });
+      }
+      console.error(error);
+      return res.status(500).json({ error: 'listening_upload_failed' });
+    }
+
+    try {
+      const files = [];
+      for (const { filename, history } of parsedFiles) {
+        const { plays, newPlays } = await recordListeningHistory(req.user.sub, history);
+        files.push({ filename, plays, new_plays: newPlays, albums: history.albums.length });
+      }
 
-  const ids = idsRaw
-    .split(',')
-    .map((id) => id.trim())
-    .filter((id) => isValidSpotifyId(id));
+      enqueueListeningMatching();
+      return res.status(201).json({
+        files,
+        summary: await fetchListeningSummary(req.user.sub),
+      });
+    } catch (error) {
+      console.error(error);
+      return res.status(500).json({ error: 'listening_upload_failed' });
+    }
+  });
+});
 
-  if (ids.length === 0) {
-    return res.status(400).json({ error: 'ids_invalid' });
+app.delete('/me/listening', requireAuth, async (req, res) => {
+  try {
+    await clearListeningHistory(req.user.sub);
+    return res.json({ status: 'ok' });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ error: 'listening_delete_failed' });
   }
+});
 
-  if (ids.length > 20) {
-    return res.status(400).json({ error: 'too_many_ids' });
+app.get('/me/listening/unrated', requireAuth, validateRequest, async (req, res) => {
+  try {
+    const albums = await fetchUnratedListens(req.user.sub, { limit: req.valid.query.limit });
+    return res.json({ albums });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ error: 'listening_fetch_failed' });
   }
+});
+
+app.get('/me/diary', requireAuth, validateRequest, async (req, res) => {
+  const { from, to, limit, cursor } = req.valid.query;
 
   try {
-    const { accessToken, cacheKey } = await getAccessContext(req);
-    const cacheIds = ids.map((id) => ({
-      id,
-      cached: getCached(albumCache, `${cacheKey}:album:${id}`),
-    }));
+    const { entries, nextCursor } = await fetchDiaryEntries(req.user.sub, {
+      from,
+      to,
+      limit,
+      cursor,
+    });
+    return res.json({ entries, next_cursor: nextCursor });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ error: 'diary_fetch_failed' });
+  }
+});
 
-    const cachedAlbums = cacheIds
-      .filter((entry) => entry.cached)
-      .map((entry) => entry.cached.album);
+app.post('/me/diary', requireAuth, rateLimit('diary_write'), validateRequest, async (req, res) => {
+  const {
+    spotify_album_id: albumId,
+    listened_on: listenedOn = null,
+    is_relisten: isRelisten = null,
+    review_id: reviewId = null,
+  } = req.valid.body;
 
-    const missingIds = cacheIds
-      .filter((entry) => !entry.cached)
-      .map((entry) => entry.id);
+  // Allows for the client being a day ahead of the server's clock.
+  const latestDay = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  if (listenedOn && listenedOn > latestDay) {
+    return res.status(400).json({ error: 'listened_on_in_future' });
+  }
 
-    let fetchedAlbums = [];
-    if (missingIds.length > 0) {
-      const url = new URL('https://api.spotify.com/v1/albums');
-      url.searchParams.set('ids', missingIds.join(','));
-      const data = await fetchSpotifyJson(accessToken, url.toString());
-      fetchedAlbums = (data.albums || [])
-        .filter(Boolean)
-        .map((album) => ({
-          id: album.id,
-          name: album.name,
-          artists: album.artists?.map((artist) => artist.name) || [],
-          images: album.images || [],
-          release_date: album.release_date,
-          total_tracks: album.total_tracks,
-          label: album.label,
-          genres: album.genres || [],
-        }));
-    }
-
-    const allAlbums = [...cachedAlbums, ...fetchedAlbums];
-    fetchedAlbums.forEach((album) => {
-      const payload = { album };
-      setCached(albumCache, `${cacheKey}:album:${album.id}`, payload, albumCacheTtlMs);
+  try {
+    if (reviewId) {
+      const reviewResult = await pool.query(
+        'SELECT spotify_album_id FROM reviews WHERE id = $1 AND user_id = $2',
+        [reviewId, req.user.sub]
+      );
+      if (reviewResult.rows.length === 0) {
+        return res.status(404).json({ error: 'review_not_found' });
+      }
+      if (reviewResult.rows[0].spotify_album_id !== albumId) {
+        return res.status(400).json({ error: 'review_album_mismatch' });
+      }
+    }
+
+    let albumError;
+    try {
+      albumError = await validateAlbumId(albumId);
+    } catch (err) {
+      return sendSpotifyError(res, err, 'diary_create_failed');
+    }
+    if (albumError) {
+      return res.status(400).json({ error: albumError });
+    }
+
+    const entry = await createDiaryEntry(req.user.sub, {
+      albumId,
+      listenedOn,
+      isRelisten,
+      reviewId,
     });
+    return res.status(201).json({ entry });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ error: 'diary_create_failed' });
+  }
+});
 
-    return res.json({ albums: allAlbums });
+app.delete('/me/diary/:id', requireAuth, rateLimit('diary_write'), validateRequest, async (req, res) => {
+  try {
+    const result = await pool.query(
+      'DELETE FROM diary_entries WHERE id = $1 AND user_id = $2 RETURNING id',
+      [req.valid.params.id, req.user.sub]
+    );
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'diary_entry_not_found' });
+    }
+    return res.json({ status: 'ok' });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ error: 'diary_delete_failed' });
+  }
+});
+
+app.get('/me/backlog', requireAuth, async (req, res) => {
+  try {
+    return res.json({ items: await fetchBacklog(req.user.sub) });
   } catch (err) {
     console.error(err);
-    return res.status(500).json({ error: 'spotify_album_failed' });
+    return res.status(500).json({ error: 'backlog_fetch_failed' });
   }
 });
 
-app.get('/spotify/albums/:id', rateLimit, async (req, res) => {
-  const albumId = req.params.id;
+app.post('/me/backlog', requireAuth, rateLimit('backlog_write'), validateRequest, async (req, res) => {
+  const { spotify_album_id: albumId, priority } = req.valid.body;
 
   try {
-    const { accessToken, cacheKey } = await getAccessContext(req);
-    const cacheId = `${cacheKey}:album:${albumId}`;
-    const cached = getCached(albumCache, cacheId);
-    if (cached) {
-      res.set('X-Cache', 'HIT');
-      return res.json(cached);
+    // Queueing an album twice is not an error; the existing entry keeps its place.
+    const existing = await fetchBacklogItem(req.user.sub, albumId);
+    if (existing) {
+      return res.json({ item: existing });
     }
 
-    const data = await fetchSpotifyJson(
-      accessToken,
-      `https://api.spotify.com/v1/albums/${albumId}`
+    const countResult = await pool.query(
+      'SELECT COUNT(*) AS total FROM backlog_items WHERE user_id = $1',
+      [req.user.sub]
     );
+    if (Number(countResult.rows[0].total) >= maxBacklogItems) {
+      return res.status(409).json({ error: 'backlog_full' });
+    }
 
-    const album = {
-      id: data.id,
-      name: data.name,
-      artists: data.artists?.map((artist) => artist.name) || [],
-      images: data.images || [],
-      release_date: data.release_date,
-      total_tracks: data.total_tracks,
-      label: data.label,
-      genres: data.genres || [],
-      tracks: data.tracks?.items?.map((track) => ({
-        id: track.id,
-        name: track.name,
-        track_number: track.track_number,
-        duration_ms: track.duration_ms,
-        preview_url: track.preview_url,
-      })) || [],
-    };
+    let albumError;
+    try {
+      albumError = await validateAlbumId(albumId);
+    } catch (err) {
+      return sendSpotifyError(res, err, 'backlog_create_failed');
+    }
+    if (albumError) {
+      return res.status(400).json({ error: albumError });
+    }
 
-    const payload = { album };
-    setCached(albumCache, cacheId, payload, albumCacheTtlMs);
-    res.set('X-Cache', 'MISS');
-    return res.json(payload);
+    await pool.query(
+      `INSERT INTO backlog_items (user_id, spotify_album_id, priority, position)
+       SELECT $1, $2, $3, COALESCE(MAX(position), 0) + 1
+       FROM backlog_items
+       WHERE user_id = $1
+       ON CONFLICT (user_id, spotify_album_id) DO NOTHING`,
+      [req.user.sub, albumId, priority]
+    );
+
+    return res.status(201).json({ item: await fetchBacklogItem(req.user.sub, albumId) });
   } catch (err) {
     console.error(err);
-    return res.status(500).json({ error: 'spotify_album_failed' });
+    return res.status(500).json({ error: 'backlog_create_failed' });
   }
 });
 
-app.get('/albums/:id/reviews', async (req, res) => {
-  const albumId = req.params.id;
-  const limitRaw = Array.isArray(req.query.limit) ? req.query.limit[0] : req.query.limit;
-  const limit = Math.min(Math.max(parseInt(limitRaw || '50', 10), 1), 100);
+app.patch('/me/backlog/:albumId', requireAuth, rateLimit('backlog_write'), validateRequest, async (req, res) => {
+  const { albumId } = req.valid.params;
+  const { priority } = req.valid.body;
 
-  if (!albumId) {
-    return res.status(400).json({ error: 'album_id_required' });
+  try {
+    // A new priority moves the album to the end of that priority's part of the queue.
+    const result = await pool.query(
+      `UPDATE backlog_items
+       SET priority = $3,
+           position = CASE WHEN priority = $3 THEN position ELSE (
+             SELECT COALESCE(MAX(position), 0) + 1 FROM backlog_items WHERE user_id = $1
+           ) END
+       WHERE user_id = $1 AND spotify_album_id = $2
+       RETURNING id`,
+      [req.user.sub, albumId, priority]
+    );
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'backlog_item_not_found' });
+    }
+
+    return res.json({ item: await fetchBacklogItem(req.user.sub, albumId) });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ error: 'backlog_update_failed' });
   }
+});
 
+app.delete('/me/backlog/:albumId', requireAuth, rateLimit('backlog_write'), validateRequest, async (req, res) => {
   try {
     const result = await pool.query(
-      `SELECT r.id, r.rating, r.body, r.created_at, r.is_pinned, r.pinned_at,
+      'DELETE FROM backlog_items WHERE user_id = $1 AND spotify_album_id = $2 RETURNING id',
+      [req.user.sub, req.valid.params.albumId]
+    );
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'backlog_item_not_found' });
+    }
+    return res.json({ status: 'ok' });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ error: 'backlog_delete_failed' });
+  }
+});
+
+app.post('/me/backlog/reorder', requireAuth, rateLimit('backlog_write'), validateRequest, async (req, res) => {
+  const { order } = req.valid.body;
+
+  try {
+    const itemResult = await pool.query(
+      'SELECT spotify_album_id FROM backlog_items WHERE user_id = $1',
+      [req.user.sub]
+    );
+    const existingSet = new Set(itemResult.rows.map((row) => row.spotify_album_id));
+    if (existingSet.size !== order.length || order.some((id) => !existingSet.has(id))) {
+      return res.status(400).json({ error: 'order_mismatch' });
+    }
+
+    await writeBacklogOrder(pool, req.user.sub, order);
+    return res.json({ status: 'ok' });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ error: 'backlog_reorder_failed' });
+  }
+});
+
+app.get('/spotify/search', rateLimit('spotify'), validateRequest, async (req, res) => {
+  const { query, limit } = req.valid.query;
+
+  try {
+    const { getAccessToken, cacheKey } = await getAccessContext(req);
+    const cacheId = `${cacheKey}:${limit}:${query.toLowerCase()}`;
+    const { value, status } = await cache.getOrLoad('search', cacheId, async () => {
+      const data = await spotify.searchAlbums(await getAccessToken(), query, { limit });
+      recordAlbums(data);
+      const albums = (data.albums?.items || []).map((album) => ({
+        id: album.id,
+        name: album.name,
+        artists: album.artists?.map((artist) => artist.name) || [],
+        image: album.images?.[1]?.url || album.images?.[0]?.url || null,
+        release_date: album.release_date,
+        total_tracks: album.total_tracks,
+      }));
+      return { albums };
+    });
+
+    res.set('X-Cache', status);
+    return res.json(value);
+  } catch (err) {
+    return sendSpotifyError(res, err, 'spotify_search_failed');
+  }
+});
+
+app.get('/spotify/albums', rateLimit('spotify'), validateRequest, async (req, res) => {
+  const { ids } = req.valid.query;
+
+  try {
+    const { getAccessToken, cacheKey } = await getAccessContext(req);
+    const cacheIds = await Promise.all(
+      ids.map(async (id) => ({
+        id,
+        cached: await cache.get('album_summary', `${cacheKey}:${id}`),
+      }))
+    );
+
+    const cachedAlbums = cacheIds
+      .filter((entry) => entry.cached)
+      .map((entry) => entry.cached.value.album);
+
+    const staleIds = cacheIds
+      .filter((entry) => entry.cached?.stale)
+      .map((entry) => entry.id);
+
+    if (staleIds.length > 0) {
+      cache.revalidate('album_summary', `${cacheKey}:batch:${staleIds.join(',')}`, async () => {
+        const albums = await fetchAlbumSummaries(await getAccessToken(), staleIds);
+        await Promise.all(
+          albums.map((album) => cache.set('album_summary', `${cacheKey}:${album.id}`, { album }))
+        );
+      });
+    }
+
+    const uncachedIds = cacheIds
+      .filter((entry) => !entry.cached)
+      .map((entry) => entry.id);
+
+    const catalogMap = await getAlbumDetails(uncachedIds);
+    const catalogAlbums = uncachedIds
+      .filter((id) => catalogMap.has(id))
+      .map((id) => catalogMap.get(id));
+    const missingIds = uncachedIds.filter((id) => !catalogMap.has(id));
+
+    // While Spotify is down, answer with what the cache and catalog have and name the rest.
+    let fetchedAlbums = [];
+    let unavailableIds = [];
+    if (missingIds.length > 0) {
+      try {
+        fetchedAlbums = await fetchAlbumSummaries(await getAccessToken(), missingIds);
+      } catch (err) {
+        if (!isOutageError(err) || cachedAlbums.length + catalogAlbums.length === 0) {
+          throw err;
+        }
+        unavailableIds = missingIds;
+      }
+    }
+
+    const allAlbums = [...cachedAlbums, ...catalogAlbums, ...fetchedAlbums];
+    await Promise.all(
+      [...catalogAlbums, ...fetchedAlbums].map((album) =>
+        cache.set('album_summary', `${cacheKey}:${album.id}`, { album })
+      )
+    );
+
+    return res.json(
+      unavailableIds.length > 0
+        ? { albums: allAlbums, unavailable_ids: unavailableIds }
+        : { albums: allAlbums }
+    );
+  } catch (err) {
+    return sendSpotifyError(res, err, 'spotify_album_failed');
+  }
+});
+
+app.get('/spotify/albums/:id', rateLimit('spotify'), validateRequest, async (req, res) => {
+  const albumId = req.valid.params.id;
+
+  try {
+    const { getAccessToken, cacheKey } = await getAccessContext(req);
+    const { value, status } = await cache.getOrLoad(
+      'album',
+      `${cacheKey}:${albumId}`,
+      async () => ({ album: await fetchAlbumDetail(await getAccessToken(), albumId) })
+    );
+
+    res.set('X-Cache', status);
+    return res.json(value);
+  } catch (err) {
+    if (err.code === 'spotify_not_found' || err.code === 'spotify_bad_request') {
+      return res.status(404).json({ error: 'album_not_found' });
+    }
+    return sendSpotifyError(res, err, 'spotify_album_failed');
+  }
+});
+
+app.get('/albums/:id/reviews', validateRequest, async (req, res) => {
+  const albumId = req.valid.params.id;
+  const { limit, cursor } = req.valid.query;
+
+  try {
+    const values = [albumId];
+    const cursorClause = cursorCondition(values, 'r.created_at', 'r.id', cursor);
+    values.push(limit + 1);
+    const result = await pool.query(
+      `SELECT r.id, r.rating, r.body, r.created_at, r.is_pinned, r.pinned_at, r.revised_at,
+              r.created_at::text AS cursor_at,
               u.id AS user_id, u.display_name, u.spotify_id
        FROM reviews r
        JOIN users u ON r.user_id = u.id
-       WHERE r.spotify_album_id = $1
-       ORDER BY r.created_at DESC
-       LIMIT $2`,
-      [albumId, limit]
+       WHERE r.spotify_album_id = $1 ${cursorClause}
+       ORDER BY r.created_at DESC, r.id DESC
+       LIMIT $${values.length}`,
+      values
     );
+    const page = takePage(result.rows, limit);
+    const trackRatings = await fetchTrackRatings(page.rows.map((row) => row.id));
 
-    const reviews = result.rows.map((row) => ({
+    const reviews = page.rows.map((row) => ({
       id: row.id,
       rating: row.rating,
       body: row.body,
       created_at: row.created_at,
       is_pinned: row.is_pinned,
       pinned_at: row.pinned_at,
+      revised_at: row.revised_at,
+      track_ratings: trackRatings.get(row.id) || [],
       user: {
         id: row.user_id,
         display_name: row.display_name,
@@ -750,59 +1950,170 @@ app.get('/albums/:id/reviews', async (req, res) => {
       },
     }));
 
-    return res.json({ reviews });
+    return res.json({ reviews, next_cursor: page.nextCursor });
   } catch (err) {
     console.error(err);
     return res.status(500).json({ error: 'reviews_fetch_failed' });
   }
 });
 
-app.post('/albums/:id/reviews', requireAuth, async (req, res) => {
-  const albumId = req.params.id;
-  const rating = parseInt(req.body?.rating, 10);
-  const bodyRaw = typeof req.body?.body === 'string' ? req.body.body.trim() : '';
-  const body = bodyRaw.length > 0 ? bodyRaw : null;
+app.get('/albums/:id/stats', validateRequest, async (req, res) => {
+  const albumId = req.valid.params.id;
+  const session = await getSession(req);
+
+  try {
+    const statsResult = await pool.query(
+      `SELECT review_count, rating_sum, histogram, updated_at
+       FROM album_stats
+       WHERE spotify_album_id = $1`,
+      [albumId]
+    );
+
+    const row = statsResult.rows[0];
+    const reviewCount = row ? row.review_count : 0;
+    const histogram = row ? row.histogram : new Array(10).fill(0);
+
+    // Highest rated tracks first; ties go to the track more people rated.
+    const trackResult = await pool.query(
+      `SELECT tr.spotify_track_id, COUNT(*) AS rating_count, AVG(tr.rating) AS mean
+       FROM track_ratings tr
+       JOIN reviews r ON r.id = tr.review_id
+       WHERE r.spotify_album_id = $1
+       GROUP BY tr.spotify_track_id
+       ORDER BY mean DESC, rating_count DESC`,
+      [albumId]
+    );
+
+    let following = null;
+    if (session?.sub) {
+      const followingResult = await pool.query(
+        `SELECT COUNT(*) AS review_count, AVG(r.rating) AS mean
+         FROM reviews r
+         JOIN follows f ON f.following_id = r.user_id AND f.follower_id = $2
+         WHERE r.spotify_album_id = $1`,
+        [albumId, session.sub]
+      );
+      const followingRow = followingResult.rows[0];
+      const followingCount = parseInt(followingRow?.review_count || '0', 10);
+      following = {
+        review_count: followingCount,
+        mean: followingCount > 0 ? Math.round(Number(followingRow.mean) * 100) / 100 : null,
+      };
+    }
+
+    return res.json({
+      stats: {
+        spotify_album_id: albumId,
+        review_count: reviewCount,
+        mean: reviewCount > 0 ? Math.round((row.rating_sum / reviewCount) * 100) / 100 : null,
+        median: getHistogramMedian(histogram, reviewCount),
+        histogram: histogram.map((count, index) => ({ rating: index + 1, count })),
+        tracks: trackResult.rows.map((trackRow) => ({
+          track_id: trackRow.spotify_track_id,
+          rating_count: Number(trackRow.rating_count),
+          mean: Math.round(Number(trackRow.mean) * 100) / 100,
+        })),
+        following,
+        updated_at: row ? row.updated_at : null,
+      },
+    });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ error: 'album_stats_fetch_failed' });
+  }
+});
+
+app.post('/albums/:id/reviews', requireAuth, rateLimit('review_write'), validateRequest, async (req, res) => {
+  const albumId = req.valid.params.id;
+  const { rating, body = null } = req.valid.body;
+
+  try {
+    // A repeat post for the same album is a re-review: the previous opinion moves to
+    // review_revisions and the existing row takes the new rating and body.
+    const result = await withTransaction(async (client) => {
+      // Reviewing an album means it has been heard, so it leaves the listen-later queue.
+      await client.query(
+        'DELETE FROM backlog_items WHERE user_id = $1 AND spotify_album_id = $2',
+        [req.user.sub, albumId]
+      );
+
+      const insertResult = await client.query(
+        `INSERT INTO reviews (user_id, spotify_album_id, rating, body)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (user_id, spotify_album_id) DO NOTHING
+         RETURNING id, rating, body, created_at, is_pinned, pinned_at, revised_at`,
+        [req.user.sub, albumId, rating, body]
+      );
+
+      if (insertResult.rows.length > 0) {
+        await recordActivity(client, {
+          userId: req.user.sub,
+          type: 'review_created',
+          albumId,
+          reviewId: insertResult.rows[0].id,
+        });
+        await updateAlbumStats(client, albumId, { added: rating });
+        return { review: insertResult.rows[0], revised: false };
+      }
 
-  if (!albumId) {
-    return res.status(400).json({ error: 'album_id_required' });
-  }
+      const existingResult = await client.query(
+        `SELECT id, rating, body, created_at, revised_at
+         FROM reviews
+         WHERE user_id = $1 AND spotify_album_id = $2
+         FOR UPDATE`,
+        [req.user.sub, albumId]
+      );
+      const existing = existingResult.rows[0];
 
-  if (Number.isNaN(rating) || rating < 1 || rating > 10) {
-    return res.status(400).json({ error: 'rating_invalid' });
-  }
+      await client.query(
+        `INSERT INTO review_revisions (review_id, rating, body, written_at)
+         VALUES ($1, $2, $3, $4)`,
+        [existing.id, existing.rating, existing.body, existing.revised_at || existing.created_at]
+      );
 
-  if (body && body.length > 2000) {
-    return res.status(400).json({ error: 'body_too_long' });
-  }
+      const updateResult = await client.query(
+        `UPDATE reviews
+         SET rating = $1, body = $2, revised_at = NOW()
+         WHERE id = $3
+         RETURNING id, rating, body, created_at, is_pinned, pinned_at, revised_at`,
+        [rating, body, existing.id]
+      );
 
-  try {
-    const result = await pool.query(
-      `INSERT INTO reviews (user_id, spotify_album_id, rating, body)
-       VALUES ($1, $2, $3, $4)
-       RETURNING id, rating, body, created_at, is_pinned, pinned_at`,
-      [req.user.sub, albumId, rating, body]
-    );
+      await recordActivity(client, {
+        userId: req.user.sub,
+        type: 'review_revised',
+        albumId,
+        reviewId: existing.id,
+      });
+      await updateAlbumStats(client, albumId, { added: rating, removed: existing.rating });
+
+      return { review: updateResult.rows[0], revised: true };
+    });
 
     const userResult = await pool.query(
       'SELECT id, display_name, spotify_id FROM users WHERE id = $1',
       [req.user.sub]
     );
     const userRow = userResult.rows[0] || {};
+    const trackRatings = await fetchTrackRatings([result.review.id]);
 
-    return res.status(201).json({
+    return res.status(result.revised ? 200 : 201).json({
       review: {
-        id: result.rows[0].id,
-        rating: result.rows[0].rating,
-        body: result.rows[0].body,
-        created_at: result.rows[0].created_at,
-        is_pinned: result.rows[0].is_pinned,
-        pinned_at: result.rows[0].pinned_at,
+        id: result.review.id,
+        rating: result.review.rating,
+        body: result.review.body,
+        created_at: result.review.created_at,
+        is_pinned: result.review.is_pinned,
+        pinned_at: result.review.pinned_at,
+        revised_at: result.review.revised_at,
+        track_ratings: trackRatings.get(result.review.id) || [],
         user: {
           id: userRow.id || req.user.sub,
           display_name: userRow.display_name || null,
           spotify_id: userRow.spotify_id || null,
         },
       },
+      revised: result.revised,
     });
   } catch (err) {
     console.error(err);
@@ -810,53 +2121,26 @@ app.post('/albums/:id/reviews', requireAuth, async (req, res) => {
   }
 });
 
-app.patch('/reviews/:id', requireAuth, async (req, res) => {
-  const reviewId = parseInt(req.params.id, 10);
-  const hasRating = Object.prototype.hasOwnProperty.call(req.body || {}, 'rating');
-  const hasBody = Object.prototype.hasOwnProperty.call(req.body || {}, 'body');
-  const hasPinned = Object.prototype.hasOwnProperty.call(req.body || {}, 'is_pinned');
-
-  if (!reviewId) {
-    return res.status(400).json({ error: 'review_id_required' });
-  }
-
-  if (!hasRating && !hasBody && !hasPinned) {
-    return res.status(400).json({ error: 'review_update_required' });
-  }
-
+app.patch('/reviews/:id', requireAuth, rateLimit('review_write'), validateRequest, async (req, res) => {
+  const reviewId = req.valid.params.id;
+  const { body: fields } = req.valid;
   const updates = [];
   const values = [];
-  let nextPinned = null;
+  const nextPinned = fields.is_pinned ?? null;
 
-  if (hasRating) {
-    const rating = parseInt(req.body?.rating, 10);
-    if (Number.isNaN(rating) || rating < 1 || rating > 10) {
-      return res.status(400).json({ error: 'rating_invalid' });
-    }
+  if (Object.prototype.hasOwnProperty.call(fields, 'rating')) {
     updates.push(`rating = $${values.length + 1}`);
-    values.push(rating);
+    values.push(fields.rating);
   }
 
-  if (hasBody) {
-    const bodyRaw = typeof req.body?.body === 'string' ? req.body.body.trim() : '';
-    const body = bodyRaw.length > 0 ? bodyRaw : null;
-    if (body && body.length > 2000) {
-      return res.status(400).json({ error: 'body_too_long' });
-    }
+  if (Object.prototype.hasOwnProperty.call(fields, 'body')) {
     updates.push(`body = $${values.length + 1}`);
-    values.push(body);
-  }
-
-  if (hasPinned) {
-    if (typeof req.body?.is_pinned !== 'boolean') {
-      return res.status(400).json({ error: 'is_pinned_invalid' });
-    }
-    nextPinned = req.body.is_pinned;
+    values.push(fields.body);
   }
 
   try {
     const reviewResult = await pool.query(
-      `SELECT id, rating, body, created_at, spotify_album_id, is_pinned, pinned_at
+      `SELECT id, rating, body, created_at, spotify_album_id, is_pinned, pinned_at, revised_at
        FROM reviews
        WHERE id = $1 AND user_id = $2`,
       [reviewId, req.user.sub]
@@ -892,13 +2176,55 @@ app.patch('/reviews/:id', requireAuth, async (req, res) => {
     }
 
     values.push(reviewId, req.user.sub);
-    const result = await pool.query(
-      `UPDATE reviews
-       SET ${updates.join(', ')}
-       WHERE id = $${values.length - 1} AND user_id = $${values.length}
-       RETURNING id, rating, body, created_at, spotify_album_id, is_pinned, pinned_at`,
-      values
-    );
+    const result = await withTransaction(async (client) => {
+      const previousResult = await client.query(
+        `SELECT rating, body, created_at, revised_at
+         FROM reviews
+         WHERE id = $1 AND user_id = $2
+         FOR UPDATE`,
+        [reviewId, req.user.sub]
+      );
+      const previous = previousResult.rows[0];
+
+      // Changing the rating or body is a change of opinion, kept in review_revisions just
+      // like a re-review. Pinning alone leaves the history alone.
+      const changed = (key) =>
+        Object.prototype.hasOwnProperty.call(fields, key) && fields[key] !== previous[key];
+      const revised = Boolean(previous) && (changed('rating') || changed('body'));
+      if (revised) {
+        await client.query(
+          `INSERT INTO review_revisions (review_id, rating, body, written_at)
+           VALUES ($1, $2, $3, $4)`,
+          [reviewId, previous.rating, previous.body, previous.revised_at || previous.created_at]
+        );
+      }
+
+      const updateResult = await client.query(
+        `UPDATE reviews
+         SET ${[...updates, ...(revised ? ['revised_at = NOW()'] : [])].join(', ')}
+         WHERE id = $${values.length - 1} AND user_id = $${values.length}
+         RETURNING id, rating, body, created_at, spotify_album_id, is_pinned, pinned_at, revised_at`,
+        values
+      );
+
+      if (updateResult.rows.length > 0 && previousResult.rows.length > 0) {
+        await updateAlbumStats(client, updateResult.rows[0].spotify_album_id, {
+          added: updateResult.rows[0].rating,
+          removed: previousResult.rows[0].rating,
+        });
+      }
+
+      if (updateResult.rows.length > 0 && nextPinned === true && !currentPinned) {
+        await recordActivity(client, {
+          userId: req.user.sub,
+          type: 'review_pinned',
+          albumId: updateResult.rows[0].spotify_album_id,
+          reviewId,
+        });
+      }
+
+      return updateResult;
+    });
 
     if (result.rows.length === 0) {
       return res.status(404).json({ error: 'review_not_found' });
@@ -911,138 +2237,187 @@ app.patch('/reviews/:id', requireAuth, async (req, res) => {
   }
 });
 
-app.delete('/reviews/:id', requireAuth, async (req, res) => {
-  const reviewId = parseInt(req.params.id, 10);
+app.put('/reviews/:id/tracks', requireAuth, rateLimit('review_write'), validateRequest, async (req, res) => {
+  const reviewId = req.valid.params.id;
+  const trackRatings = req.valid.body.track_ratings;
 
-  if (!reviewId) {
-    return res.status(400).json({ error: 'review_id_required' });
+  const trackIds = trackRatings.map((entry) => entry.track_id);
+  if (new Set(trackIds).size !== trackIds.length) {
+    return res.status(400).json({ error: 'track_ratings_duplicate' });
   }
 
   try {
-    const result = await pool.query(
-      'DELETE FROM reviews WHERE id = $1 AND user_id = $2 RETURNING id',
+    const reviewResult = await pool.query(
+      'SELECT spotify_album_id FROM reviews WHERE id = $1 AND user_id = $2',
       [reviewId, req.user.sub]
     );
-
-    if (result.rows.length === 0) {
+    if (reviewResult.rows.length === 0) {
       return res.status(404).json({ error: 'review_not_found' });
     }
 
-    return res.json({ status: 'ok' });
+    if (trackIds.length > 0) {
+      let albumTrackIds;
+      try {
+        albumTrackIds = await fetchAlbumTrackIds(reviewResult.rows[0].spotify_album_id);
+      } catch (err) {
+        if (err.code === 'spotify_not_found' || err.code === 'spotify_bad_request') {
+          return res.status(404).json({ error: 'album_not_found' });
+        }
+        return sendSpotifyError(res, err, 'track_ratings_update_failed');
+      }
+      if (trackIds.some((trackId) => !albumTrackIds.has(trackId))) {
+        return res.status(400).json({ error: 'track_not_on_album' });
+      }
+    }
+
+    await withTransaction(async (client) => {
+      await client.query('DELETE FROM track_ratings WHERE review_id = $1', [reviewId]);
+      if (trackRatings.length > 0) {
+        await client.query(
+          `INSERT INTO track_ratings (review_id, spotify_track_id, rating, note)
+           SELECT $1, * FROM UNNEST($2::text[], $3::smallint[], $4::text[])`,
+          [
+            reviewId,
+            trackIds,
+            trackRatings.map((entry) => entry.rating),
+            trackRatings.map((entry) => entry.note ?? null),
+          ]
+        );
+      }
+    });
+
+    const ratings = await fetchTrackRatings([reviewId]);
+    return res.json({ track_ratings: ratings.get(reviewId) || [] });
   } catch (err) {
     console.error(err);
-    return res.status(500).json({ error: 'review_delete_failed' });
+    return res.status(500).json({ error: 'track_ratings_update_failed' });
   }
 });
 
-app.get('/me/reviews', requireAuth, async (req, res) => {
-  const limitRaw = Array.isArray(req.query.limit) ? req.query.limit[0] : req.query.limit;
-  const limit = Math.min(Math.max(parseInt(limitRaw || '50', 10), 1), 100);
+app.delete('/reviews/:id', requireAuth, rateLimit('review_write'), validateRequest, async (req, res) => {
+  const reviewId = req.valid.params.id;
 
   try {
-    const result = await pool.query(
-      `SELECT id, spotify_album_id, rating, body, created_at, is_pinned, pinned_at
-       FROM reviews
-       WHERE user_id = $1
-       ORDER BY created_at DESC
-       LIMIT $2`,
-      [req.user.sub, limit]
-    );
+    const result = await withTransaction(async (client) => {
+      const deleteResult = await client.query(
+        `DELETE FROM reviews
+         WHERE id = $1 AND user_id = $2
+         RETURNING id, spotify_album_id, rating`,
+        [reviewId, req.user.sub]
+      );
 
-    const reviews = result.rows.map((row) => ({
-      id: row.id,
-      spotify_album_id: row.spotify_album_id,
-      rating: row.rating,
-      body: row.body,
-      created_at: row.created_at,
-      is_pinned: row.is_pinned,
-      pinned_at: row.pinned_at,
-    }));
+      if (deleteResult.rows.length > 0) {
+        await updateAlbumStats(client, deleteResult.rows[0].spotify_album_id, {
+          removed: deleteResult.rows[0].rating,
+        });
+      }
+
+      return deleteResult;
+    });
+
+    if (result.rows.length === 0) {
+      return res.status(404).json({ error: 'review_not_found' });
+    }
 
-    return res.json({ reviews });
+    return res.json({ status: 'ok' });
   } catch (err) {
     console.error(err);
-    return res.status(500).json({ error: 'reviews_fetch_failed' });
+    return res.status(500).json({ error: 'review_delete_failed' });
   }
 });
 
-app.get('/me/lists', requireAuth, async (req, res) => {
+app.get('/reviews/:id/history', validateRequest, async (req, res) => {
+  const reviewId = req.valid.params.id;
+
   try {
-    const listResult = await pool.query(
-      `SELECT id, title, description, is_ranked, created_at
-       FROM lists
-       WHERE user_id = $1
-       ORDER BY created_at DESC`,
-      [req.user.sub]
+    const reviewResult = await pool.query(
+      `SELECT r.id, r.spotify_album_id, r.rating, r.body, r.created_at, r.revised_at,
+              u.id AS user_id, u.display_name, u.spotify_id
+       FROM reviews r
+       JOIN users u ON r.user_id = u.id
+       WHERE r.id = $1`,
+      [reviewId]
     );
 
-    const lists = listResult.rows.map((row) => ({
-      id: row.id,
-      title: row.title,
-      description: row.description,
-      is_ranked: row.is_ranked,
-      created_at: row.created_at,
-      items: [],
-    }));
-
-    if (lists.length === 0) {
-      return res.json({ lists: [] });
+    if (reviewResult.rows.length === 0) {
+      return res.status(404).json({ error: 'review_not_found' });
     }
 
-    const listIds = lists.map((list) => list.id);
-    const itemResult = await pool.query(
-      `SELECT list_id, spotify_album_id, created_at, position
-       FROM list_items
-       WHERE list_id = ANY($1)
-       ORDER BY position DESC, created_at DESC`,
-      [listIds]
+    const revisionResult = await pool.query(
+      `SELECT id, rating, body, written_at, created_at
+       FROM review_revisions
+       WHERE review_id = $1
+       ORDER BY written_at DESC, id DESC`,
+      [reviewId]
     );
 
-    const listMap = new Map(lists.map((list) => [list.id, list]));
-    itemResult.rows.forEach((row) => {
-      const list = listMap.get(row.list_id);
-      if (list) {
-        list.items.push({
-          spotify_album_id: row.spotify_album_id,
-          created_at: row.created_at,
-          position: row.position,
-        });
-      }
+    const row = reviewResult.rows[0];
+    return res.json({
+      review: {
+        id: row.id,
+        spotify_album_id: row.spotify_album_id,
+        rating: row.rating,
+        body: row.body,
+        created_at: row.created_at,
+        revised_at: row.revised_at,
+        user: {
+          id: row.user_id,
+          display_name: row.display_name,
+          spotify_id: row.spotify_id,
+        },
+      },
+      revisions: revisionResult.rows,
     });
-
-    return res.json({ lists });
   } catch (err) {
     console.error(err);
-    return res.status(500).json({ error: 'lists_fetch_failed' });
+    return res.status(500).json({ error: 'review_history_fetch_failed' });
   }
 });
 
-app.post('/me/lists', requireAuth, async (req, res) => {
-  const titleRaw = typeof req.body?.title === 'string' ? req.body.title.trim() : '';
-  const descriptionRaw =
-    typeof req.body?.description === 'string' ? req.body.description.trim() : '';
-  const description = descriptionRaw.length > 0 ? descriptionRaw : null;
-  const isRanked = req.body?.is_ranked === true;
+app.get('/me/reviews', requireAuth, validateRequest, async (req, res) => {
+  const { limit, cursor } = req.valid.query;
 
-  if (!titleRaw) {
-    return res.status(400).json({ error: 'title_required' });
+  try {
+    const { reviews, nextCursor } = await fetchUserReviews(req.user.sub, { limit, cursor });
+    return res.json({ reviews, next_cursor: nextCursor });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ error: 'reviews_fetch_failed' });
   }
+});
 
-  if (titleRaw.length > 120) {
-    return res.status(400).json({ error: 'title_too_long' });
-  }
+app.get('/me/lists', requireAuth, validateRequest, async (req, res) => {
+  const { limit, cursor } = req.valid.query;
 
-  if (description && description.length > 500) {
-    return res.status(400).json({ error: 'description_too_long' });
+  try {
+    const { lists, nextCursor } = await fetchUserLists(req.user.sub, { limit, cursor });
+    return res.json({ lists, next_cursor: nextCursor });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ error: 'lists_fetch_failed' });
   }
+});
+
+app.post('/me/lists', requireAuth, rateLimit('list_write'), validateRequest, async (req, res) => {
+  const { title, description = null, is_ranked: isRanked, visibility } = req.valid.body;
 
   try {
-    const result = await pool.query(
-      `INSERT INTO lists (user_id, title, description, is_ranked)
-       VALUES ($1, $2, $3, $4)
-       RETURNING id, title, description, is_ranked, created_at`,
-      [req.user.sub, titleRaw, description, isRanked]
-    );
+    const result = await withTransaction(async (client) => {
+      const insertResult = await client.query(
+        `INSERT INTO lists (user_id, title, description, is_ranked, visibility)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING id, title, description, is_ranked, visibility, created_at`,
+        [req.user.sub, title, description, isRanked, visibility]
+      );
+
+      await recordActivity(client, {
+        userId: req.user.sub,
+        type: 'list_created',
+        listId: insertResult.rows[0].id,
+      });
+
+      return insertResult;
+    });
 
     return res.status(201).json({ list: result.rows[0] });
   } catch (err) {
@@ -1051,20 +2426,8 @@ app.post('/me/lists', requireAuth, async (req, res) => {
   }
 });
 
-app.patch('/lists/:id', requireAuth, async (req, res) => {
-  const listId = parseInt(req.params.id, 10);
-  const isRanked =
-    typeof req.body?.is_ranked === 'boolean' ? req.body.is_ranked : null;
-  const hasTitle = Object.prototype.hasOwnProperty.call(req.body || {}, 'title');
-  const hasDescription = Object.prototype.hasOwnProperty.call(req.body || {}, 'description');
-
-  if (!listId) {
-    return res.status(400).json({ error: 'list_id_required' });
-  }
-
-  if (isRanked === null && !hasTitle && !hasDescription) {
-    return res.status(400).json({ error: 'update_required' });
-  }
+app.patch('/lists/:id', requireAuth, rateLimit('list_write'), validateRequest, async (req, res) => {
+  const listId = req.valid.params.id;
 
   try {
     const listResult = await pool.query(
@@ -1079,45 +2442,18 @@ app.patch('/lists/:id', requireAuth, async (req, res) => {
     const updates = [];
     const values = [];
 
-    if (isRanked !== null) {
-      updates.push(`is_ranked = $${values.length + 1}`);
-      values.push(isRanked);
-    }
-
-    if (hasTitle) {
-      const titleRaw =
-        typeof req.body?.title === 'string' ? req.body.title.trim() : '';
-      if (!titleRaw) {
-        return res.status(400).json({ error: 'title_required' });
-      }
-      if (titleRaw.length > 120) {
-        return res.status(400).json({ error: 'title_too_long' });
-      }
-      updates.push(`title = $${values.length + 1}`);
-      values.push(titleRaw);
-    }
-
-    if (hasDescription) {
-      const descriptionRaw =
-        typeof req.body?.description === 'string' ? req.body.description.trim() : '';
-      const description = descriptionRaw.length > 0 ? descriptionRaw : null;
-      if (description && description.length > 500) {
-        return res.status(400).json({ error: 'description_too_long' });
-      }
-      updates.push(`description = $${values.length + 1}`);
-      values.push(description);
-    }
-
-    if (updates.length === 0) {
-      return res.status(400).json({ error: 'update_required' });
-    }
+    // The schema only admits list columns, so every parsed field maps straight to one.
+    Object.entries(req.valid.body).forEach(([column, value]) => {
+      updates.push(`${column} = $${values.length + 1}`);
+      values.push(value);
+    });
 
     values.push(listId);
     const result = await pool.query(
       `UPDATE lists
        SET ${updates.join(', ')}
        WHERE id = $${values.length}
-       RETURNING id, title, description, is_ranked, created_at`,
+       RETURNING id, title, description, is_ranked, visibility, created_at`,
       values
     );
 
@@ -1128,24 +2464,9 @@ app.patch('/lists/:id', requireAuth, async (req, res) => {
   }
 });
 
-app.post('/lists/:id/items', requireAuth, async (req, res) => {
-  const listId = parseInt(req.params.id, 10);
-  const albumRaw =
-    typeof req.body?.spotify_album_id === 'string'
-      ? req.body.spotify_album_id.trim()
-      : '';
-
-  if (!listId) {
-    return res.status(400).json({ error: 'list_id_required' });
-  }
-
-  if (!albumRaw) {
-    return res.status(400).json({ error: 'album_id_required' });
-  }
-
-  if (!isValidSpotifyId(albumRaw)) {
-    return res.status(400).json({ error: 'invalid_album_id' });
-  }
+app.post('/lists/:id/items', requireAuth, rateLimit('list_write'), validateRequest, async (req, res) => {
+  const listId = req.valid.params.id;
+  const albumId = req.valid.body.spotify_album_id;
 
   try {
     const listResult = await pool.query(
@@ -1157,20 +2478,14 @@ app.post('/lists/:id/items', requireAuth, async (req, res) => {
       return res.status(404).json({ error: 'list_not_found' });
     }
 
-    const appToken = await getAppAccessToken();
-    const validationResponse = await fetch(
-      `https://api.spotify.com/v1/albums/${albumRaw}`,
-      { headers: { Authorization: `Bearer ${appToken}` } }
-    );
-
-    if (validationResponse.status === 400 || validationResponse.status === 404) {
-      return res.status(400).json({ error: 'invalid_album_id' });
+    let albumError;
+    try {
+      albumError = await validateAlbumId(albumId);
+    } catch (err) {
+      return sendSpotifyError(res, err, 'list_item_create_failed');
     }
-
-    if (!validationResponse.ok) {
-      const details = await validationResponse.text();
-      console.error('Spotify album validation failed:', details);
-      return res.status(503).json({ error: 'spotify_unavailable' });
+    if (albumError) {
+      return res.status(400).json({ error: albumError });
     }
 
     const positionResult = await pool.query(
@@ -1179,17 +2494,29 @@ app.post('/lists/:id/items', requireAuth, async (req, res) => {
     );
     const nextPosition = Number(positionResult.rows[0]?.max_position || 0) + 1;
 
-    await pool.query(
-      `INSERT INTO list_items (list_id, spotify_album_id, position)
-       VALUES ($1, $2, $3)
-       ON CONFLICT (list_id, spotify_album_id) DO NOTHING`,
-      [listId, albumRaw, nextPosition]
-    );
+    await withTransaction(async (client) => {
+      const insertResult = await client.query(
+        `INSERT INTO list_items (list_id, spotify_album_id, position)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (list_id, spotify_album_id) DO NOTHING
+         RETURNING id`,
+        [listId, albumId, nextPosition]
+      );
+
+      if (insertResult.rows.length > 0) {
+        await recordActivity(client, {
+          userId: req.user.sub,
+          type: 'list_item_added',
+          albumId,
+          listId,
+        });
+      }
+    });
 
     return res.status(201).json({
       item: {
         list_id: listId,
-        spotify_album_id: albumRaw,
+        spotify_album_id: albumId,
         position: nextPosition,
       },
     });
@@ -1199,29 +2526,9 @@ app.post('/lists/:id/items', requireAuth, async (req, res) => {
   }
 });
 
-app.post('/lists/:id/reorder', requireAuth, async (req, res) => {
-  const listId = parseInt(req.params.id, 10);
-  const orderRaw = Array.isArray(req.body?.order) ? req.body.order : [];
-  const order = orderRaw
-    .filter((value) => typeof value === 'string')
-    .map((value) => value.trim())
-    .filter((value) => value.length > 0);
-
-  if (!listId) {
-    return res.status(400).json({ error: 'list_id_required' });
-  }
-
-  if (order.length === 0) {
-    return res.status(400).json({ error: 'order_required' });
-  }
-
-  if (order.some((id) => !isValidSpotifyId(id))) {
-    return res.status(400).json({ error: 'invalid_album_id' });
-  }
-
-  if (new Set(order).size !== order.length) {
-    return res.status(400).json({ error: 'order_duplicate' });
-  }
+app.post('/lists/:id/reorder', requireAuth, rateLimit('list_write'), validateRequest, async (req, res) => {
+  const listId = req.valid.params.id;
+  const { order } = req.valid.body;
 
   try {
     const listResult = await pool.query(
@@ -1249,41 +2556,177 @@ app.post('/lists/:id/reorder', requireAuth, async (req, res) => {
       return res.status(400).json({ error: 'order_mismatch' });
     }
 
-    const total = order.length;
-    const values = [listId];
-    const cases = [];
+    await writeListOrder(pool, listId, order);
+    return res.json({ status: 'ok' });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ error: 'list_reorder_failed' });
+  }
+});
+
+app.delete('/lists/:id/items/:albumId', requireAuth, rateLimit('list_write'), validateRequest, async (req, res) => {
+  const listId = req.valid.params.id;
+  const albumId = req.valid.params.albumId;
+
+  try {
+    const error = await withTransaction(async (client) => {
+      const listResult = await client.query(
+        'SELECT id FROM lists WHERE id = $1 AND user_id = $2 FOR UPDATE',
+        [listId, req.user.sub]
+      );
+
+      if (listResult.rows.length === 0) {
+        return 'list_not_found';
+      }
+
+      const deleteResult = await client.query(
+        'DELETE FROM list_items WHERE list_id = $1 AND spotify_album_id = $2 RETURNING id',
+        [listId, albumId]
+      );
+
+      if (deleteResult.rows.length === 0) {
+        return 'list_item_not_found';
+      }
 
-    order.forEach((albumId, index) => {
-      const idParam = values.length + 1;
-      values.push(albumId);
-      const positionParam = values.length + 1;
-      values.push(total - index);
-      cases.push(`WHEN $${idParam} THEN $${positionParam}`);
+      await compactListPositions(client, listId);
+      return null;
     });
 
-    const updateQuery = `
-      UPDATE list_items
-      SET position = CASE spotify_album_id
-        ${cases.join(' ')}
-        ELSE position
-      END
-      WHERE list_id = $1
-    `;
+    if (error) {
+      return res.status(404).json({ error });
+    }
 
-    await pool.query(updateQuery, values);
     return res.json({ status: 'ok' });
   } catch (err) {
     console.error(err);
-    return res.status(500).json({ error: 'list_reorder_failed' });
+    return res.status(500).json({ error: 'list_item_delete_failed' });
   }
 });
 
-app.delete('/lists/:id', requireAuth, async (req, res) => {
-  const listId = parseInt(req.params.id, 10);
+app.patch('/lists/:id/items', requireAuth, rateLimit('list_write'), validateRequest, async (req, res) => {
+  const listId = req.valid.params.id;
+  const operations = req.valid.body.operations.map((operation) => ({
+    op: operation.op,
+    albumId: operation.spotify_album_id,
+    index: operation.index ?? 0,
+  }));
+
+  try {
+    const listResult = await pool.query(
+      'SELECT id FROM lists WHERE id = $1 AND user_id = $2',
+      [listId, req.user.sub]
+    );
+
+    if (listResult.rows.length === 0) {
+      return res.status(404).json({ error: 'list_not_found' });
+    }
+
+    const addIds = Array.from(
+      new Set(operations.filter((entry) => entry.op === 'add').map((entry) => entry.albumId))
+    );
+
+    let unknownIds;
+    try {
+      unknownIds = await findUnknownAlbumIds(addIds);
+    } catch (err) {
+      if (err.code === 'spotify_not_found' || err.code === 'spotify_bad_request') {
+        return res.status(400).json({ error: 'invalid_album_id' });
+      }
+      return sendSpotifyError(res, err, 'list_items_update_failed');
+    }
+
+    if (unknownIds.length > 0) {
+      return res.status(400).json({ error: 'invalid_album_id' });
+    }
+
+    const result = await withTransaction(async (client) => {
+      await client.query('SELECT id FROM lists WHERE id = $1 FOR UPDATE', [listId]);
+
+      const itemResult = await client.query(
+        `SELECT spotify_album_id
+         FROM list_items
+         WHERE list_id = $1
+         ORDER BY position DESC, created_at DESC`,
+        [listId]
+      );
+      const initialIds = itemResult.rows.map((row) => row.spotify_album_id);
+      const order = [...initialIds];
+
+      for (const { op, albumId, index } of operations) {
+        const currentIndex = order.indexOf(albumId);
+
+        if (op === 'add') {
+          if (currentIndex < 0) {
+            order.splice(Math.min(index, order.length), 0, albumId);
+          }
+          continue;
+        }
+
+        if (currentIndex < 0) {
+          return { error: 'list_item_not_found' };
+        }
+
+        order.splice(currentIndex, 1);
+        if (op === 'move') {
+          order.splice(Math.min(index, order.length), 0, albumId);
+        }
+      }
+
+      const finalSet = new Set(order);
+      const initialSet = new Set(initialIds);
+      const removedIds = initialIds.filter((id) => !finalSet.has(id));
+      const insertedIds = order.filter((id) => !initialSet.has(id));
+
+      if (removedIds.length > 0) {
+        await client.query(
+          'DELETE FROM list_items WHERE list_id = $1 AND spotify_album_id = ANY($2)',
+          [listId, removedIds]
+        );
+      }
+
+      if (insertedIds.length > 0) {
+        await client.query(
+          `INSERT INTO list_items (list_id, spotify_album_id, position)
+           SELECT $1, album_id, 0 FROM UNNEST($2::text[]) AS album_id`,
+          [listId, insertedIds]
+        );
+
+        for (const albumId of insertedIds) {
+          await recordActivity(client, {
+            userId: req.user.sub,
+            type: 'list_item_added',
+            albumId,
+            listId,
+          });
+        }
+      }
+
+      await writeListOrder(client, listId, order);
+
+      const updatedResult = await client.query(
+        `SELECT spotify_album_id, created_at, position
+         FROM list_items
+         WHERE list_id = $1
+         ORDER BY position DESC, created_at DESC`,
+        [listId]
+      );
+
+      return { items: updatedResult.rows };
+    });
+
+    if (result.error) {
+      return res.status(400).json({ error: result.error });
+    }
 
-  if (!listId) {
-    return res.status(400).json({ error: 'list_id_required' });
+    return res.json({ items: result.items });
+  } catch (err) {
+    console.error(err);
+    return res.status(500).json({ error: 'list_items_update_failed' });
   }
+});
+
+app.delete('/lists/:id', requireAuth, rateLimit('list_write'), validateRequest, async (req, res) => {
+  const listId = req.valid.params.id;
 
   try {
     const result = await pool.query(
@@ -1302,26 +2745,42 @@ app.delete('/lists/:id', requireAuth, async (req, res) => {
   }
 });
 
-app.get('/lists/:id', requireAuth, async (req, res) => {
-  const listId = parseInt(req.params.id, 10);
+app.get('/lists/:id', validateRequest, async (req, res) => {
+  const listId = req.valid.params.id;
 
-  if (!listId) {
-    return res.status(400).json({ error: 'list_id_required' });
-  }
+  const session = await getSession(req);
 
   try {
     const listResult = await pool.query(
-      `SELECT id, title, description, is_ranked, created_at
-       FROM lists
-       WHERE id = $1 AND user_id = $2`,
-      [listId, req.user.sub]
+      `SELECT l.id, l.title, l.description, l.is_ranked, l.visibility, l.created_at,
+              u.id AS user_id, u.display_name, u.spotify_id
+       FROM lists l
+       JOIN users u ON u.id = l.user_id
+       WHERE l.id = $1`,
+      [listId]
     );
 
-    if (listResult.rows.length === 0) {
+    const row = listResult.rows[0];
+    const isOwner = !!row && row.user_id === session?.sub;
+
+    if (!row || (!isOwner && row.visibility === 'private')) {
       return res.status(404).json({ error: 'list_not_found' });
     }
 
-    const list = listResult.rows[0];
+    const list = {
+      id: row.id,
+      title: row.title,
+      description: row.description,
+      is_ranked: row.is_ranked,
+      visibility: row.visibility,
+      created_at: row.created_at,
+      is_owner: isOwner,
+      user: {
+        id: row.user_id,
+        display_name: row.display_name,
+        spotify_id: row.spotify_id,
+      },
+    };
 
     const itemResult = await pool.query(
       `SELECT spotify_album_id, created_at, position
@@ -1331,8 +2790,10 @@ app.get('/lists/:id', requireAuth, async (req, res) => {
       [listId]
     );
 
+    const albumCards = await getAlbumCards(itemResult.rows.map((row) => row.spotify_album_id));
     list.items = itemResult.rows.map((row) => ({
       spotify_album_id: row.spotify_album_id,
+      album: albumCards.get(row.spotify_album_id) || null,
       created_at: row.created_at,
       position: row.position,
     }));
@@ -1344,6 +2805,28 @@ app.get('/lists/:id', requireAuth, async (req, res) => {
   }
 });
 
-app.listen(port, () => {
-  console.log(`API listening on port ${port}`);
-});
+async function start() {
+  // Opt-in so local development against a hand-managed database keeps working.
+  if (process.env.MIGRATIONS_CHECK === 'true') {
+    try {
+      await assertSchemaCurrent();
+    } catch (err) {
+      console.error(`Refusing to start: ${err.message}`);
+      process.exit(1);
+    }
+  }
+
+  app.listen(port, () => {
+    console.log(`API listening on port ${port}`);
+    startCatalogRefresh();
+    // Pick up matching a restart interrupted.
+    findMatchingImportIds()
+      .then((importIds) => importIds.forEach(enqueueImportMatching))
+      .catch((err) => {
+        console.error('Resuming imports failed:', err?.message);
+      });
+    enqueueListeningMatching();
+  });
+}
+
+start();
@@ -1,153 +1,479 @@
-const clientId = process.env.SPOTIFY_CLIENT_ID;
-const clientSecret = process.env.SPOTIFY_CLIENT_SECRET;
-const redirectUri = process.env.SPOTIFY_REDIRECT_URI;
+const fs = require('fs');
+const path = require('path');
 
-if (!clientId || !clientSecret || !redirectUri) {
-  throw new Error('SPOTIFY_CLIENT_ID, SPOTIFY_CLIENT_SECRET, and SPOTIFY_REDIRECT_URI are required');
-}
+// A Spotify client exposes:
+//   getAuthorizeUrl(state)
+//   exchangeCodeForToken(code)            -> { accessToken, refreshToken, expiresIn }
+//   refreshAccessToken(refreshToken)      -> { accessToken, refreshToken | null, expiresIn }
+//   getAppAccessToken()                   -> access token for the client-credentials grant
+//   fetchProfile(accessToken)             -> Spotify user object
+//   searchAlbums(accessToken, query, { limit }) -> search response ({ albums: { items } })
+//   getAlbums(accessToken, ids)           -> { albums } with null for unknown ids (max 20 ids)
+//   getAlbum(accessToken, id)             -> full album object including the first page of tracks
+//   getAlbumTracks(accessToken, id, { offset, limit }) -> paging object ({ items, total }) of
+//                                            an album's tracks (max 50 per page)
+//   health()                              -> { circuit: 'closed' | 'open' | 'half_open' }
+// Failed requests throw an Error carrying the HTTP `status` (null for network failures) and a
+// `code`: spotify_not_found, spotify_bad_request, spotify_unauthorized, spotify_throttled
+// (with `retryAfterMs` when known) or spotify_unavailable. A revoked refresh token has code
+// 'invalid_grant' instead.
 
 const scopes = ['user-read-email', 'user-read-private'];
 
-function getAuthorizeUrl(state) {
-  const params = new URLSearchParams({
-    response_type: 'code',
-    client_id: clientId,
-    redirect_uri: redirectUri,
-    scope: scopes.join(' '),
-    state,
-  });
+const retryAttempts = 3;
+const retryBaseDelayMs = 250;
+const retryMaxDelayMs = 4_000;
+// Longer Retry-After waits are passed on to the caller instead of holding the request open.
+const retryAfterLimitMs = 5_000;
+const circuitFailureThreshold = 5;
+const circuitCooldownMs = 30_000;
 
-  return `https://accounts.spotify.com/authorize?${params.toString()}`;
+function classifyStatus(status) {
+  if (status === 404) {
+    return 'spotify_not_found';
+  }
+  if (status === 400) {
+    return 'spotify_bad_request';
+  }
+  if (status === 401 || status === 403) {
+    return 'spotify_unauthorized';
+  }
+  if (status === 429) {
+    return 'spotify_throttled';
+  }
+  return 'spotify_unavailable';
 }
 
-async function exchangeCodeForToken(code) {
-  const body = new URLSearchParams({
-    grant_type: 'authorization_code',
-    code,
-    redirect_uri: redirectUri,
-  });
-
-  const basicAuth = Buffer.from(`${clientId}:${clientSecret}`).toString('base64');
-  const response = await fetch('https://accounts.spotify.com/api/token', {
-    method: 'POST',
-    headers: {
-      Authorization: `Basic ${basicAuth}`,
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body,
-  });
+function createRequestError(message, status, retryAfterMs = null) {
+  const error = new Error(message);
+  error.status = status;
+  error.code = classifyStatus(status);
+  error.retryAfterMs = retryAfterMs;
+  return error;
+}
 
-  if (!response.ok) {
-    const details = await response.text();
-    throw new Error(`Spotify token exchange failed: ${response.status} ${details}`);
+// Retry-After is either delay-seconds or an HTTP date.
+function parseRetryAfter(value) {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(seconds, 0) * 1000;
   }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
 
-  const data = await response.json();
-  return {
-    accessToken: data.access_token,
-    refreshToken: data.refresh_token,
-    expiresIn: data.expires_in,
-  };
+function isOutageError(err) {
+  return err?.code === 'spotify_unavailable' || err?.code === 'spotify_throttled';
 }
 
-let appAccessToken = null;
-let appAccessTokenExpiresAt = 0;
+function sleep(ms) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
 
-async function getAppAccessToken() {
-  const now = Date.now();
-  if (appAccessToken && now < appAccessTokenExpiresAt - 60_000) {
-    return appAccessToken;
+// Retries throttled and unavailable responses. Throttling waits exactly as long as Spotify asks;
+// everything else uses exponential backoff with full jitter so instances don't retry in lockstep.
+async function withRetry(run) {
+  for (let attempt = 1; ; attempt += 1) {
+    try {
+      return await run();
+    } catch (err) {
+      const retryable =
+        attempt < retryAttempts &&
+        !err.circuitOpen &&
+        (err.code === 'spotify_unavailable' ||
+          (err.code === 'spotify_throttled' && (err.retryAfterMs ?? 0) <= retryAfterLimitMs));
+      if (!retryable) {
+        throw err;
+      }
+
+      const backoffMs = Math.random() * Math.min(retryMaxDelayMs, retryBaseDelayMs * 2 ** attempt);
+      await sleep(err.code === 'spotify_throttled' && err.retryAfterMs !== null ? err.retryAfterMs : backoffMs);
+    }
   }
+}
 
-  const body = new URLSearchParams({
-    grant_type: 'client_credentials',
-  });
+// Opens after consecutive outage errors and fails fast until the cooldown passes; then a single
+// probe request decides whether to close again. Other errors (404 etc.) prove Spotify is up.
+function createCircuitBreaker() {
+  let failures = 0;
+  let openUntil = 0;
+  let probing = false;
 
-  const basicAuth = Buffer.from(`${clientId}:${clientSecret}`).toString('base64');
-  const response = await fetch('https://accounts.spotify.com/api/token', {
-    method: 'POST',
-    headers: {
-      Authorization: `Basic ${basicAuth}`,
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body,
-  });
+  function state() {
+    if (failures < circuitFailureThreshold) {
+      return 'closed';
+    }
+    return Date.now() < openUntil ? 'open' : 'half_open';
+  }
 
-  if (!response.ok) {
-    const details = await response.text();
-    throw new Error(`Spotify client token failed: ${response.status} ${details}`);
+  async function run(task) {
+    const current = state();
+    if (current === 'open' || (current === 'half_open' && probing)) {
+      const error = createRequestError('Spotify circuit open', null, Math.max(openUntil - Date.now(), 0));
+      error.circuitOpen = true;
+      throw error;
+    }
+
+    const isProbe = current === 'half_open';
+    probing = isProbe;
+    try {
+      const result = await task();
+      failures = 0;
+      return result;
+    } catch (err) {
+      if (isOutageError(err)) {
+        failures = isProbe ? circuitFailureThreshold : failures + 1;
+        if (failures >= circuitFailureThreshold) {
+          openUntil = Date.now() + circuitCooldownMs;
+        }
+      } else {
+        failures = 0;
+      }
+      throw err;
+    } finally {
+      if (isProbe) {
+        probing = false;
+      }
+    }
   }
 
-  const data = await response.json();
-  appAccessToken = data.access_token;
-  appAccessTokenExpiresAt = now + data.expires_in * 1000;
-  return appAccessToken;
+  return { run, state };
 }
 
-async function refreshAccessToken(refreshToken) {
-  const body = new URLSearchParams({
-    grant_type: 'refresh_token',
-    refresh_token: refreshToken,
-  });
+function createHttpSpotifyClient({ clientId, clientSecret, redirectUri }) {
+  if (!clientId || !clientSecret || !redirectUri) {
+    throw new Error('SPOTIFY_CLIENT_ID, SPOTIFY_CLIENT_SECRET, and SPOTIFY_REDIRECT_URI are required');
+  }
 
   const basicAuth = Buffer.from(`${clientId}:${clientSecret}`).toString('base64');
-  const response = await fetch('https://accounts.spotify.com/api/token', {
-    method: 'POST',
-    headers: {
-      Authorization: `Basic ${basicAuth}`,
-      'Content-Type': 'application/x-www-form-urlencoded',
-    },
-    body,
-  });
+  const breaker = createCircuitBreaker();
+  const inflight = new Map();
+  let appAccessToken = null;
+  let appAccessTokenExpiresAt = 0;
+
+  async function send(url, options, failureMessage) {
+    let response;
+    try {
+      response = await fetch(url, options);
+    } catch (err) {
+      throw createRequestError(`${failureMessage}: ${err?.message}`, null);
+    }
+
+    if (!response.ok) {
+      const details = await response.text();
+      throw createRequestError(
+        `${failureMessage}: ${response.status} ${details}`,
+        response.status,
+        parseRetryAfter(response.headers.get('retry-after'))
+      );
+    }
+
+    return response.json();
+  }
+
+  // Authorization codes and rotating refresh tokens are single-use, so only the
+  // client-credentials grant is retried.
+  async function requestToken(body, failureMessage, { retry = false } = {}) {
+    const request = () =>
+      send(
+        'https://accounts.spotify.com/api/token',
+        {
+          method: 'POST',
+          headers: {
+            Authorization: `Basic ${basicAuth}`,
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body,
+        },
+        failureMessage
+      );
+
+    try {
+      return await breaker.run(retry ? () => withRetry(request) : request);
+    } catch (err) {
+      // A revoked or expired grant is permanent; the user has to authorize the app again.
+      if (err.status === 400 && err.message.includes('invalid_grant')) {
+        err.code = 'invalid_grant';
+      }
+      throw err;
+    }
+  }
 
-  if (!response.ok) {
-    const details = await response.text();
-    throw new Error(`Spotify token refresh failed: ${response.status} ${details}`);
+  // Identical requests already in flight share one response instead of each hitting Spotify.
+  function apiGet(accessToken, url, failureMessage = 'Spotify API request failed') {
+    const key = `${accessToken} ${url}`;
+    if (!inflight.has(key)) {
+      const request = () =>
+        send(url, { headers: { Authorization: `Bearer ${accessToken}` } }, failureMessage);
+      inflight.set(
+        key,
+        breaker.run(() => withRetry(request)).finally(() => inflight.delete(key))
+      );
+    }
+    return inflight.get(key);
+  }
+
+  function getAuthorizeUrl(state) {
+    const params = new URLSearchParams({
+      response_type: 'code',
+      client_id: clientId,
+      redirect_uri: redirectUri,
+      scope: scopes.join(' '),
+      state,
+    });
+
+    return `https://accounts.spotify.com/authorize?${params.toString()}`;
+  }
+
+  async function exchangeCodeForToken(code) {
+    const data = await requestToken(
+      new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: redirectUri,
+      }),
+      'Spotify token exchange failed'
+    );
+
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiresIn: data.expires_in,
+    };
+  }
+
+  async function refreshAccessToken(refreshToken) {
+    const data = await requestToken(
+      new URLSearchParams({
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+      }),
+      'Spotify token refresh failed'
+    );
+
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token || null,
+      expiresIn: data.expires_in,
+    };
+  }
+
+  async function getAppAccessToken() {
+    const now = Date.now();
+    if (appAccessToken && now < appAccessTokenExpiresAt - 60_000) {
+      return appAccessToken;
+    }
+
+    const data = await requestToken(
+      new URLSearchParams({ grant_type: 'client_credentials' }),
+      'Spotify client token failed',
+      { retry: true }
+    );
+    appAccessToken = data.access_token;
+    appAccessTokenExpiresAt = now + data.expires_in * 1000;
+    return appAccessToken;
+  }
+
+  function fetchProfile(accessToken) {
+    return apiGet(accessToken, 'https://api.spotify.com/v1/me', 'Spotify profile request failed');
+  }
+
+  function searchAlbums(accessToken, query, { limit }) {
+    const url = new URL('https://api.spotify.com/v1/search');
+    url.searchParams.set('q', query);
+    url.searchParams.set('type', 'album');
+    url.searchParams.set('limit', String(limit));
+    return apiGet(accessToken, url.toString());
+  }
+
+  function getAlbums(accessToken, albumIds) {
+    const url = new URL('https://api.spotify.com/v1/albums');
+    url.searchParams.set('ids', albumIds.join(','));
+    return apiGet(accessToken, url.toString());
+  }
+
+  function getAlbum(accessToken, albumId) {
+    return apiGet(accessToken, `https://api.spotify.com/v1/albums/${encodeURIComponent(albumId)}`);
+  }
+
+  function getAlbumTracks(accessToken, albumId, { offset = 0, limit = 50 } = {}) {
+    const url = new URL(`https://api.spotify.com/v1/albums/${encodeURIComponent(albumId)}/tracks`);
+    url.searchParams.set('offset', String(offset));
+    url.searchParams.set('limit', String(limit));
+    return apiGet(accessToken, url.toString());
+  }
+
+  function health() {
+    return { circuit: breaker.state() };
   }
 
-  const data = await response.json();
   return {
-    accessToken: data.access_token,
-    refreshToken: data.refresh_token || null,
-    expiresIn: data.expires_in,
+    name: 'http',
+    getAuthorizeUrl,
+    exchangeCodeForToken,
+    refreshAccessToken,
+    getAppAccessToken,
+    fetchProfile,
+    searchAlbums,
+    getAlbums,
+    getAlbum,
+    getAlbumTracks,
+    health,
   };
 }
 
-async function fetchSpotifyProfile(accessToken) {
-  const response = await fetch('https://api.spotify.com/v1/me', {
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
+// Offline stand-in driven by a JSON fixture of { users: [...], albums: [...] } in Spotify's
+// own shapes. Authorizing skips Spotify entirely and redirects straight to the callback
+// as `userId` (default: the first fixture user), so login works without network access.
+function createFakeSpotifyClient({ fixturesPath, redirectUri, userId }) {
+  const fixtures = JSON.parse(fs.readFileSync(fixturesPath, 'utf8'));
+  const users = new Map((fixtures.users || []).map((user) => [user.id, user]));
+  const albums = new Map((fixtures.albums || []).map((album) => [album.id, album]));
+  const defaultUser = userId ? users.get(userId) : fixtures.users?.[0];
 
-  if (!response.ok) {
-    const details = await response.text();
-    throw new Error(`Spotify profile request failed: ${response.status} ${details}`);
+  if (!defaultUser) {
+    throw new Error(`Spotify fixtures at ${fixturesPath} have no user ${userId || ''}`.trim());
   }
 
-  return response.json();
-}
+  function userFromToken(token, prefix) {
+    const userId = typeof token === 'string' && token.startsWith(prefix)
+      ? token.slice(prefix.length)
+      : null;
+    return userId ? users.get(userId) || null : null;
+  }
 
-async function fetchSpotifyJson(accessToken, url) {
-  const response = await fetch(url, {
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-    },
-  });
+  function issueTokens(user) {
+    return {
+      accessToken: `fake-access:${user.id}`,
+      refreshToken: `fake-refresh:${user.id}`,
+      expiresIn: 3600,
+    };
+  }
+
+  // Search results are simplified albums: no tracks, label or genres.
+  function toSimplifiedAlbum(album) {
+    const { tracks, label, genres, ...simplified } = album;
+    return simplified;
+  }
+
+  function getAuthorizeUrl(state) {
+    const params = new URLSearchParams({ code: `fake-code:${defaultUser.id}`, state });
+    return `${redirectUri}?${params.toString()}`;
+  }
 
-  if (!response.ok) {
-    const details = await response.text();
-    throw new Error(`Spotify API request failed: ${response.status} ${details}`);
+  async function exchangeCodeForToken(code) {
+    const user = userFromToken(code, 'fake-code:');
+    if (!user) {
+      throw createRequestError('Spotify token exchange failed: 400 invalid code', 400);
+    }
+    return issueTokens(user);
   }
 
-  return response.json();
+  async function refreshAccessToken(refreshToken) {
+    const user = userFromToken(refreshToken, 'fake-refresh:');
+    if (!user) {
+      const error = createRequestError('Spotify token refresh failed: 400 invalid_grant', 400);
+      error.code = 'invalid_grant';
+      throw error;
+    }
+    const { accessToken, expiresIn } = issueTokens(user);
+    return { accessToken, refreshToken: null, expiresIn };
+  }
+
+  async function getAppAccessToken() {
+    return 'fake-app';
+  }
+
+  async function fetchProfile(accessToken) {
+    const user = userFromToken(accessToken, 'fake-access:');
+    if (!user) {
+      throw createRequestError('Spotify profile request failed: 401 invalid token', 401);
+    }
+    return user;
+  }
+
+  async function searchAlbums(accessToken, query, { limit }) {
+    const needle = query.trim().toLowerCase();
+    const items = Array.from(albums.values())
+      .filter((album) =>
+        [album.name, ...(album.artists || []).map((artist) => artist.name)]
+          .some((value) => value?.toLowerCase().includes(needle))
+      )
+      .slice(0, limit)
+      .map(toSimplifiedAlbum);
+
+    return { albums: { items, total: items.length, limit } };
+  }
+
+  async function getAlbums(accessToken, albumIds) {
+    return { albums: albumIds.map((id) => albums.get(id) || null) };
+  }
+
+  async function getAlbum(accessToken, albumId) {
+    const album = albums.get(albumId);
+    if (!album) {
+      throw createRequestError('Spotify API request failed: 404 non existing id', 404);
+    }
+    return album;
+  }
+
+  async function getAlbumTracks(accessToken, albumId, { offset = 0, limit = 50 } = {}) {
+    const album = await getAlbum(accessToken, albumId);
+    const tracks = album.tracks?.items || [];
+    return {
+      items: tracks.slice(offset, offset + limit),
+      total: tracks.length,
+      offset,
+      limit,
+    };
+  }
+
+  return {
+    name: 'fake',
+    getAuthorizeUrl,
+    exchangeCodeForToken,
+    refreshAccessToken,
+    getAppAccessToken,
+    fetchProfile,
+    searchAlbums,
+    getAlbums,
+    getAlbum,
+    getAlbumTracks,
+    health() {
+      return { circuit: 'closed' };
+    },
+  };
 }
 
+function createSpotifyClientFromEnv() {
+  const backend = process.env.SPOTIFY_CLIENT || 'http';
+  if (backend === 'fake') {
+    return createFakeSpotifyClient({
+      fixturesPath:
+        process.env.SPOTIFY_FIXTURES || path.join(__dirname, 'fixtures', 'spotify.json'),
+      redirectUri:
+        process.env.SPOTIFY_REDIRECT_URI || 'http://127.0.0.1:4000/auth/spotify/callback',
+      userId: process.env.SPOTIFY_FAKE_USER,
+    });
+  }
+  if (backend !== 'http') {
+    throw new Error(`Unsupported SPOTIFY_CLIENT: ${backend}`);
+  }
+  return createHttpSpotifyClient({
+    clientId: process.env.SPOTIFY_CLIENT_ID,
+    clientSecret: process.env.SPOTIFY_CLIENT_SECRET,
+    redirectUri: process.env.SPOTIFY_REDIRECT_URI,
+  });
+}
+
+const spotify = createSpotifyClientFromEnv();
+
 module.exports = {
-  getAuthorizeUrl,
-  exchangeCodeForToken,
-  getAppAccessToken,
-  refreshAccessToken,
-  fetchSpotifyProfile,
-  fetchSpotifyJson,
+  spotify,
+  isOutageError,
+  createHttpSpotifyClient,
+  createFakeSpotifyClient,
 };
@@ -0,0 +1,90 @@
+const { pool } = require('./db');
+const { spotify } = require('./spotify');
+const { encryptSecret, decryptSecret } = require('./encryption');
+
+// Refresh a little before Spotify's expiry so a token never lapses mid-request.
+const accessTokenExpiryMarginMs = 60_000;
+
+function createReauthError() {
+  const error = new Error('reauth_required');
+  error.code = 'reauth_required';
+  return error;
+}
+
+// Per-process cache of Spotify user access tokens. Access tokens are never persisted;
+// only the refresh token lives in `users`.
+function createUserTokenStore() {
+  const tokens = new Map();
+  const refreshing = new Map();
+
+  function remember(userId, accessToken, expiresIn) {
+    tokens.set(String(userId), {
+      accessToken,
+      expiresAt: Date.now() + expiresIn * 1000 - accessTokenExpiryMarginMs,
+    });
+  }
+
+  function forget(userId) {
+    tokens.delete(String(userId));
+  }
+
+  async function refresh(userId) {
+    const result = await pool.query(
+      'SELECT refresh_token, needs_reauth FROM users WHERE id = $1',
+      [userId]
+    );
+    const row = result.rows[0];
+    if (row?.needs_reauth) {
+      throw createReauthError();
+    }
+    if (!row?.refresh_token) {
+      const error = new Error('missing_refresh_token');
+      error.code = 'missing_refresh_token';
+      throw error;
+    }
+
+    let refreshed;
+    try {
+      refreshed = await spotify.refreshAccessToken(decryptSecret(row.refresh_token));
+    } catch (err) {
+      if (err.code !== 'invalid_grant') {
+        throw err;
+      }
+      await pool.query('UPDATE users SET needs_reauth = true WHERE id = $1', [userId]);
+      throw createReauthError();
+    }
+
+    if (refreshed.refreshToken) {
+      await pool.query(
+        'UPDATE users SET refresh_token = $1 WHERE id = $2',
+        [encryptSecret(refreshed.refreshToken), userId]
+      );
+    }
+
+    remember(userId, refreshed.accessToken, refreshed.expiresIn);
+    return refreshed.accessToken;
+  }
+
+  // Concurrent callers for the same user share a single refresh.
+  async function getAccessToken(userId) {
+    const key = String(userId);
+    const cached = tokens.get(key);
+    if (cached && Date.now() < cached.expiresAt) {
+      return cached.accessToken;
+    }
+
+    if (!refreshing.has(key)) {
+      refreshing.set(
+        key,
+        refresh(userId).finally(() => refreshing.delete(key))
+      );
+    }
+    return refreshing.get(key);
+  }
+
+  return { getAccessToken, remember, forget };
+}
+
+module.exports = {
+  createUserTokenStore,
+};
@@ -0,0 +1,441 @@
+// Declarative request schemas. A route schema lists the fields it accepts in `params`, `query`
+// and `body`; validate() parses them into req.valid and answers 400 with every field error at
+// once. The same schemas generate the OpenAPI document served at /openapi.json.
+//
+// Error codes default to <field>_<kind> (title_required, bio_too_long, ...), where kind is one
+// of required, invalid, too_long, too_few, too_many or duplicate. A field's `codes` option
+// overrides individual kinds so existing codes such as invalid_album_id keep working.
+
+const invalid = Symbol('invalid');
+
+function string(options = {}) {
+  return { type: 'string', trim: true, ...options };
+}
+
+function integer(options = {}) {
+  return { type: 'integer', ...options };
+}
+
+function boolean(options = {}) {
+  return { type: 'boolean', ...options };
+}
+
+function array(items, options = {}) {
+  return { type: 'array', items, ...options };
+}
+
+function object(properties, options = {}) {
+  return { type: 'object', properties, ...options };
+}
+
+const field = { string, integer, boolean, array, object };
+
+function required(schema) {
+  return { ...schema, required: true };
+}
+
+function describeLocation(ctx) {
+  return ctx.path || ctx.location;
+}
+
+function fail(ctx, schema, kind, message) {
+  ctx.errors.push({
+    in: ctx.location,
+    field: ctx.path || null,
+    code: schema.codes?.[kind] || `${ctx.name}_${kind}`,
+    message: `${describeLocation(ctx)} ${message}`,
+  });
+  return invalid;
+}
+
+function isBlank(value) {
+  return value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+function parseString(schema, value, ctx) {
+  if (typeof value !== 'string') {
+    return fail(ctx, schema, 'invalid', 'must be a string');
+  }
+  const text = schema.trim ? value.trim() : value;
+  if (schema.maxLength !== undefined && text.length > schema.maxLength) {
+    return fail(ctx, schema, 'too_long', `must be at most ${schema.maxLength} characters`);
+  }
+  if (schema.enum && !schema.enum.includes(text)) {
+    return fail(ctx, schema, 'invalid', `must be one of ${schema.enum.join(', ')}`);
+  }
+  if (schema.pattern && !schema.pattern.test(text)) {
+    return fail(ctx, schema, 'invalid', 'has an invalid format');
+  }
+  if (schema.parse) {
+    const parsed = schema.parse(text);
+    return parsed === null ? fail(ctx, schema, 'invalid', 'is invalid') : parsed;
+  }
+  return text;
+}
+
+// Params and query values arrive as strings, so integers and booleans accept their text form.
+function parseInteger(schema, value, ctx) {
+  let number = value;
+  if (typeof value === 'string' && /^-?\d+$/.test(value.trim())) {
+    number = Number(value.trim());
+  }
+  if (!Number.isSafeInteger(number)) {
+    return fail(ctx, schema, 'invalid', 'must be an integer');
+  }
+
+  const below = schema.min !== undefined && number < schema.min;
+  const above = schema.max !== undefined && number > schema.max;
+  if (schema.clamp) {
+    return below ? schema.min : above ? schema.max : number;
+  }
+  if (below) {
+    return fail(ctx, schema, 'invalid', `must be at least ${schema.min}`);
+  }
+  if (above) {
+    return fail(ctx, schema, 'invalid', `must be at most ${schema.max}`);
+  }
+  return number;
+}
+
+function parseBoolean(schema, value, ctx) {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+  if (ctx.location !== 'body' && (value === 'true' || value === 'false')) {
+    return value === 'true';
+  }
+  return fail(ctx, schema, 'invalid', 'must be true or false');
+}
+
+function parseArray(schema, value, ctx) {
+  let entries = value;
+  // Query arrays are comma separated and may also be repeated (?ids=a,b&ids=c).
+  if (schema.separator && ctx.location !== 'body') {
+    entries = [].concat(value).flatMap((entry) => String(entry).split(schema.separator));
+  }
+  if (!Array.isArray(entries)) {
+    return fail(ctx, schema, 'invalid', 'must be an array');
+  }
+
+  if (schema.compact) {
+    entries = entries.filter((entry) => !isBlank(entry));
+  }
+  if (schema.minItems && entries.length === 0) {
+    return fail(ctx, schema, 'required', 'must not be empty');
+  }
+
+  const errorCount = ctx.errors.length;
+  let items = entries.map((entry, index) =>
+    parseValue(schema.items, entry, { ...ctx, path: `${ctx.path}[${index}]` })
+  );
+  if (ctx.errors.length > errorCount) {
+    return invalid;
+  }
+
+  if (schema.dedupe) {
+    items = Array.from(new Set(items));
+  }
+  if (schema.unique && new Set(items).size !== items.length) {
+    return fail(ctx, schema, 'duplicate', 'must not contain duplicates');
+  }
+  if (schema.minItems !== undefined && items.length < schema.minItems) {
+    return fail(ctx, schema, 'too_few', `must have at least ${schema.minItems} items`);
+  }
+  if (schema.maxItems !== undefined && items.length > schema.maxItems) {
+    return fail(ctx, schema, 'too_many', `must have at most ${schema.maxItems} items`);
+  }
+  return items;
+}
+
+function parseObject(schema, value, ctx) {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return fail(ctx, schema, 'invalid', 'must be an object');
+  }
+
+  const errorCount = ctx.errors.length;
+  const result = parseFields(schema.properties, value, ctx);
+  if (ctx.errors.length > errorCount) {
+    return invalid;
+  }
+
+  if (schema.minProperties && Object.keys(result).length < schema.minProperties) {
+    return fail(ctx, schema, 'required', 'must include at least one field');
+  }
+
+  // Cross-field rules, run only once every field parsed cleanly.
+  if (schema.refine) {
+    schema.refine(result, (name, kind, message) =>
+      fail(
+        { ...ctx, name, path: ctx.path ? `${ctx.path}.${name}` : name },
+        schema.properties[name],
+        kind,
+        message
+      )
+    );
+    if (ctx.errors.length > errorCount) {
+      return invalid;
+    }
+  }
+  return result;
+}
+
+// Missing fields take their default. Blank strings and nulls become null for nullable fields
+// and count as missing otherwise.
+function parseValue(schema, raw, ctx) {
+  if (raw === undefined) {
+    if (schema.required) {
+      return fail(ctx, schema, 'required', 'is required');
+    }
+    return schema.default;
+  }
+
+  if (schema.type !== 'array' && schema.type !== 'object' && isBlank(raw)) {
+    if (schema.nullable) {
+      return null;
+    }
+    if (schema.required || schema.type === 'string') {
+      return fail(ctx, schema, 'required', 'must not be blank');
+    }
+    return fail(ctx, schema, 'invalid', 'must not be null');
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return parseString(schema, raw, ctx);
+    case 'integer':
+      return parseInteger(schema, raw, ctx);
+    case 'boolean':
+      return parseBoolean(schema, raw, ctx);
+    case 'array':
+      return parseArray(schema, raw, ctx);
+    case 'object':
+      return parseObject(schema, raw, ctx);
+    default:
+      throw new Error(`Unknown schema type: ${schema.type}`);
+  }
+}
+
+function parseFields(fields, source, ctx) {
+  const result = {};
+  Object.entries(fields).forEach(([name, schema]) => {
+    let raw = source[name];
+    if (ctx.location === 'query' && Array.isArray(raw) && schema.type !== 'array') {
+      raw = raw[0];
+    }
+
+    const value = parseValue(schema, raw, {
+      ...ctx,
+      name,
+      path: ctx.path ? `${ctx.path}.${name}` : name,
+    });
+    if (value !== undefined && value !== invalid) {
+      result[name] = value;
+    }
+  });
+  return result;
+}
+
+// Express middleware for one route schema. Parsed values land on req.valid.params, .query and
+// .body; absent optional fields are left out so handlers can tell "not sent" from null.
+// Failures answer 400 { error, errors }, where `error` repeats the first field's code.
+function validate(routeSchema) {
+  return (req, res, next) => {
+    const errors = [];
+    const valid = {
+      params: parseFields(routeSchema.params || {}, req.params || {}, { location: 'params', errors }),
+      query: parseFields(routeSchema.query || {}, req.query || {}, { location: 'query', errors }),
+      body: {},
+    };
+
+    if (routeSchema.body) {
+      const body = parseValue(routeSchema.body, req.body ?? {}, {
+        location: 'body',
+        name: 'body',
+        path: '',
+        errors,
+      });
+      if (body !== invalid) {
+        valid.body = body;
+      }
+    }
+
+    if (errors.length > 0) {
+      return res.status(400).json({ error: errors[0].code, errors });
+    }
+
+    req.valid = valid;
+    return next();
+  };
+}
+
+// One middleware for every route: the schema is found by the matched route's "METHOD /path",
+// the same key the OpenAPI document uses, so a route cannot be validated against one schema
+// and documented with another.
+function createRequestValidator(routes) {
+  const validators = new Map();
+
+  return (req, res, next) => {
+    const method = req.method === 'HEAD' ? 'GET' : req.method;
+    const key = `${method} ${req.route.path}`;
+    if (!validators.has(key)) {
+      if (!routes[key]) {
+        return next(new Error(`No request schema for ${key}`));
+      }
+      validators.set(key, validate(routes[key]));
+    }
+    return validators.get(key)(req, res, next);
+  };
+}
+
+function toJsonSchema(schema) {
+  const result = { type: schema.type };
+
+  if (schema.type === 'string') {
+    if (schema.maxLength !== undefined) result.maxLength = schema.maxLength;
+    if (schema.enum) result.enum = schema.enum;
+    if (schema.pattern) result.pattern = schema.pattern.source;
+    if (schema.format) result.format = schema.format;
+  }
+  if (schema.type === 'integer') {
+    if (schema.min !== undefined) result.minimum = schema.min;
+    if (schema.max !== undefined) result.maximum = schema.max;
+  }
+  if (schema.type === 'array') {
+    result.items = toJsonSchema(schema.items);
+    if (schema.minItems !== undefined) result.minItems = schema.minItems;
+    if (schema.maxItems !== undefined) result.maxItems = schema.maxItems;
+    if (schema.unique) result.uniqueItems = true;
+  }
+  if (schema.type === 'object') {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([name, property]) => [name, toJsonSchema(property)])
+    );
+    const requiredNames = Object.entries(schema.properties)
+      .filter(([, property]) => property.required)
+      .map(([name]) => name);
+    if (requiredNames.length > 0) result.required = requiredNames;
+    if (schema.minProperties) result.minProperties = schema.minProperties;
+  }
+
+  if (schema.nullable) result.nullable = true;
+  if (schema.default !== undefined) result.default = schema.default;
+  if (schema.description) result.description = schema.description;
+  return result;
+}
+
+function toParameters(location, fields = {}) {
+  return Object.entries(fields).map(([name, schema]) => {
+    const parameter = {
+      name,
+      in: location === 'params' ? 'path' : 'query',
+      required: location === 'params' || Boolean(schema.required),
+      schema: toJsonSchema(schema),
+    };
+    if (schema.description) {
+      parameter.description = schema.description;
+      delete parameter.schema.description;
+    }
+    if (schema.separator) {
+      parameter.style = 'form';
+      parameter.explode = false;
+    }
+    return parameter;
+  });
+}
+
+// routes: { 'POST /me/lists': { summary, tags, auth, status, params, query, body, openapi } }.
+// `openapi` is merged into the operation for anything the field DSL cannot describe.
+function createOpenApiDocument({ info, routes, sessionCookieName }) {
+  const paths = {};
+
+  Object.entries(routes).forEach(([key, route]) => {
+    const [method, routePath] = key.split(' ');
+    const openApiPath = routePath.replace(/:([A-Za-z_]+)/g, '{$1}');
+    const hasInput = Boolean(route.params || route.query || route.body);
+
+    const responses = {
+      [String(route.status || 200)]: { description: route.responseDescription || 'Success' },
+    };
+    if (hasInput) {
+      responses['400'] = { $ref: '#/components/responses/ValidationError' };
+    }
+    if (route.auth) {
+      responses['401'] = { $ref: '#/components/responses/Unauthorized' };
+    }
+
+    const operation = {
+      summary: route.summary,
+      tags: route.tags,
+      parameters: [...toParameters('params', route.params), ...toParameters('query', route.query)],
+      responses,
+    };
+    if (route.auth) {
+      operation.security = [{ sessionCookie: [] }];
+    }
+    if (route.body) {
+      operation.requestBody = {
+        required: true,
+        content: { 'application/json': { schema: toJsonSchema(route.body) } },
+      };
+    }
+
+    paths[openApiPath] = paths[openApiPath] || {};
+    paths[openApiPath][method.toLowerCase()] = { ...operation, ...route.openapi };
+  });
+
+  return {
+    openapi: '3.0.3',
+    info,
+    paths,
+    components: {
+      securitySchemes: {
+        sessionCookie: { type: 'apiKey', in: 'cookie', name: sessionCookieName },
+      },
+      schemas: {
+        Error: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+          required: ['error'],
+        },
+        FieldError: {
+          type: 'object',
+          properties: {
+            in: { type: 'string', enum: ['params', 'query', 'body'] },
+            field: { type: 'string', nullable: true },
+            code: { type: 'string' },
+            message: { type: 'string' },
+          },
+          required: ['in', 'field', 'code', 'message'],
+        },
+      },
+      responses: {
+        ValidationError: {
+          description: 'One or more fields failed validation; `error` repeats the first code.',
+          content: {
+            'application/json': {
+              schema: {
+                type: 'object',
+                properties: {
+                  error: { type: 'string' },
+                  errors: { type: 'array', items: { $ref: '#/components/schemas/FieldError' } },
+                },
+                required: ['error', 'errors'],
+              },
+            },
+          },
+        },
+        Unauthorized: {
+          description: 'No valid session.',
+          content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+        },
+      },
+    },
+  };
+}
+
+module.exports = {
+  field,
+  required,
+  createRequestValidator,
+  createOpenApiDocument,
+};
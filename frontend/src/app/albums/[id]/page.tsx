@@ -4,53 +4,45 @@
 import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
 import { useParams } from "next/navigation";
+import {
+  addToBacklog,
+  createDiaryEntry,
+  createReview,
+  deleteReview,
+  getAlbum,
+  getAlbumReviews,
+  getAlbumStats,
+  getBacklog,
+  getReviewHistory,
+  isAbortError,
+  isApiError,
+  removeFromBacklog,
+  setTrackRatings,
+  updateReview,
+  type AlbumDetail,
+  type AlbumReview,
+  type AlbumStats,
+  type ReviewRevision,
+  type TrackRating,
+} from "@/lib/api";
+import { SignInLink, useSession } from "@/lib/session";
 
-type User = {
-  id: number;
-  spotify_id: string;
-  display_name: string | null;
-};
-
-type Review = {
-  id: number;
-  rating: number;
-  body: string | null;
-  created_at: string;
-  is_pinned?: boolean;
-  pinned_at?: string | null;
-  user: User;
-};
-
-type AlbumDetail = {
-  id: string;
-  name: string;
-  artists: string[];
-  images: { url: string; width: number; height: number }[];
-  release_date: string;
-  total_tracks: number;
-  label: string;
-  genres: string[];
-  tracks: {
-    id: string;
-    name: string;
-    track_number: number;
-    duration_ms: number;
-    preview_url: string | null;
-  }[];
-};
+// Today in the browser's time zone, as the YYYY-MM-DD value a date input expects.
+function localDay() {
+  const now = new Date();
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60000).toISOString().slice(0, 10);
+}
 
 export default function AlbumPage() {
-  const apiUrl = process.env.NEXT_PUBLIC_API_URL || "http://127.0.0.1:4000";
   const params = useParams();
   const rawId = params?.id;
   const albumId = Array.isArray(rawId) ? rawId[0] : rawId;
 
-  const [user, setUser] = useState<User | null>(null);
-  const [authChecked, setAuthChecked] = useState(false);
+  const { user, status } = useSession();
   const [album, setAlbum] = useState<AlbumDetail | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [reviews, setReviews] = useState<Review[]>([]);
+  const [reviews, setReviews] = useState<AlbumReview[]>([]);
   const [reviewsLoading, setReviewsLoading] = useState(true);
   const [reviewError, setReviewError] = useState<string | null>(null);
   const [reviewActionError, setReviewActionError] = useState<string | null>(null);
@@ -63,17 +55,62 @@ export default function AlbumPage() {
   const [reviewSaving, setReviewSaving] = useState(false);
   const [reviewDeleting, setReviewDeleting] = useState<number | null>(null);
   const [reviewPinning, setReviewPinning] = useState<number | null>(null);
+  const [historyOpenId, setHistoryOpenId] = useState<number | null>(null);
+  const [historyByReview, setHistoryByReview] = useState<
+    Record<number, ReviewRevision[]>
+  >({});
+  const [historyLoading, setHistoryLoading] = useState<number | null>(null);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [stats, setStats] = useState<AlbumStats | null>(null);
+  const [statsVersion, setStatsVersion] = useState(0);
+  const [reviewsCursor, setReviewsCursor] = useState<string | null>(null);
+  const [reviewsLoadingMore, setReviewsLoadingMore] = useState(false);
+  const [listenDay, setListenDay] = useState(localDay);
+  // null leaves the relisten flag to the API, which checks earlier entries and reviews.
+  const [relistenChoice, setRelistenChoice] = useState<boolean | null>(null);
+  const [attachReview, setAttachReview] = useState(false);
+  const [diarySaving, setDiarySaving] = useState(false);
+  const [diaryMessage, setDiaryMessage] = useState<string | null>(null);
+  const [diaryError, setDiaryError] = useState<string | null>(null);
+  const [inBacklog, setInBacklog] = useState(false);
+  const [backlogUpdating, setBacklogUpdating] = useState(false);
+  const [backlogError, setBacklogError] = useState<string | null>(null);
+  const [trackEditorOpen, setTrackEditorOpen] = useState(false);
+  const [trackDraft, setTrackDraft] = useState<
+    Record<string, { rating: string; note: string }>
+  >({});
 
-  const averageRating = useMemo(() => {
-    if (reviews.length === 0) {
-      return null;
-    }
-    const total = reviews.reduce((sum, review) => sum + review.rating, 0);
-    return (total / reviews.length).toFixed(1);
-  }, [reviews]);
+  const ownReview = useMemo(
+    () => (user ? reviews.find((review) => review.user?.id === user.id) : null),
+    [reviews, user]
+  );
+
+  const tracksById = useMemo(
+    () => new Map((album?.tracks || []).map((track) => [track.id, track])),
+    [album]
+  );
+
+  const trackStatsById = useMemo(
+    () => new Map((stats?.tracks || []).map((entry) => [entry.track_id, entry])),
+    [stats]
+  );
+
+  // stats.tracks is already highest first; tracks missing from this edition are skipped.
+  const topTracks = useMemo(
+    () =>
+      (stats?.tracks || [])
+        .filter((entry) => tracksById.has(entry.track_id))
+        .slice(0, 5),
+    [stats, tracksById]
+  );
+
+  const histogramPeak = useMemo(
+    () => Math.max(1, ...(stats?.histogram || []).map((bucket) => bucket.count)),
+    [stats]
+  );
 
   useEffect(() => {
-    let cancelled = false;
+    const controller = new AbortController();
 
     async function loadAlbum() {
       if (!albumId) {
@@ -85,32 +122,26 @@ export default function AlbumPage() {
       setLoading(true);
       setError(null);
       try {
-        const response = await fetch(`${apiUrl}/spotify/albums/${albumId}`, {
-          credentials: "include",
-        });
-
-        if (!response.ok) {
-          if (!cancelled) {
-            setError("Could not load album details.");
-          }
+        setAlbum(await getAlbum(albumId, { signal: controller.signal }));
+      } catch (err) {
+        if (isAbortError(err)) {
           return;
         }
-
-        const data = await response.json();
-        if (!cancelled) {
-          if (!data.album) {
-            setError("Album details unavailable.");
-            setAlbum(null);
-          } else {
-            setAlbum(data.album);
-          }
-        }
-      } catch (err) {
-        if (!cancelled) {
-          setError("Could not load album details.");
+        switch (isApiError(err) ? err.code : null) {
+          case "album_not_found":
+            setError("This album could not be found on Spotify.");
+            break;
+          case "spotify_throttled":
+            setError("Spotify is rate limiting us right now. Try again in a moment.");
+            break;
+          case "spotify_unavailable":
+            setError("Spotify is unavailable right now. Try again shortly.");
+            break;
+          default:
+            setError("Could not load album details.");
         }
       } finally {
-        if (!cancelled) {
+        if (!controller.signal.aborted) {
           setLoading(false);
         }
       }
@@ -118,39 +149,34 @@ export default function AlbumPage() {
 
     loadAlbum();
     return () => {
-      cancelled = true;
+      controller.abort();
     };
-  }, [apiUrl, albumId]);
+  }, [albumId]);
 
   useEffect(() => {
-    let cancelled = false;
+    const controller = new AbortController();
+
+    async function loadStats() {
+      if (!albumId) {
+        setStats(null);
+        return;
+      }
 
-    async function loadUser() {
       try {
-        const response = await fetch(`${apiUrl}/auth/me`, {
-          credentials: "include",
-        });
-        const data = await response.json();
-        if (!cancelled) {
-          setUser(data.user || null);
-          setAuthChecked(true);
-        }
+        setStats(await getAlbumStats(albumId, { signal: controller.signal }));
       } catch (err) {
-        if (!cancelled) {
-          setUser(null);
-          setAuthChecked(true);
-        }
+        // stats are supplementary; the review list still renders without them
       }
     }
 
-    loadUser();
+    loadStats();
     return () => {
-      cancelled = true;
+      controller.abort();
     };
-  }, [apiUrl]);
+  }, [albumId, user, statsVersion]);
 
   useEffect(() => {
-    let cancelled = false;
+    const controller = new AbortController();
 
     async function loadReviews() {
       if (!albumId) {
@@ -163,19 +189,15 @@ export default function AlbumPage() {
       setReviewError(null);
 
       try {
-        const response = await fetch(`${apiUrl}/albums/${albumId}/reviews`, {
-          credentials: "include",
-        });
-        const data = await response.json();
-        if (!cancelled) {
-          setReviews(Array.isArray(data.reviews) ? data.reviews : []);
-        }
+        const data = await getAlbumReviews(albumId, {}, { signal: controller.signal });
+        setReviews(data.reviews);
+        setReviewsCursor(data.next_cursor);
       } catch (err) {
-        if (!cancelled) {
+        if (!isAbortError(err)) {
           setReviewError("Could not load reviews.");
         }
       } finally {
-        if (!cancelled) {
+        if (!controller.signal.aborted) {
           setReviewsLoading(false);
         }
       }
@@ -183,9 +205,56 @@ export default function AlbumPage() {
 
     loadReviews();
     return () => {
-      cancelled = true;
+      controller.abort();
+    };
+  }, [albumId]);
+
+  useEffect(() => {
+    if (!user || !albumId) {
+      setInBacklog(false);
+      return;
+    }
+    const controller = new AbortController();
+
+    async function loadBacklog() {
+      try {
+        const items = await getBacklog({ signal: controller.signal });
+        setInBacklog(items.some((item) => item.spotify_album_id === albumId));
+      } catch (err) {
+        // the button falls back to "Listen later"
+      }
+    }
+
+    loadBacklog();
+    return () => {
+      controller.abort();
     };
-  }, [apiUrl, albumId]);
+  }, [user, albumId]);
+
+  async function handleBacklogToggle() {
+    if (!albumId) {
+      return;
+    }
+
+    setBacklogUpdating(true);
+    setBacklogError(null);
+    try {
+      if (inBacklog) {
+        await removeFromBacklog(albumId);
+      } else {
+        await addToBacklog(albumId);
+      }
+      setInBacklog(!inBacklog);
+    } catch (err) {
+      setBacklogError(
+        isApiError(err, "backlog_full")
+          ? "Your listen-later queue is full."
+          : "Could not update your listen-later queue."
+      );
+    } finally {
+      setBacklogUpdating(false);
+    }
+  }
 
   async function handleReviewSubmit(event: React.FormEvent<HTMLFormElement>) {
     event.preventDefault();
@@ -204,39 +273,120 @@ export default function AlbumPage() {
 
     setSubmitting(true);
     try {
-      const response = await fetch(`${apiUrl}/albums/${albumId}/reviews`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        credentials: "include",
-        body: JSON.stringify({
-          rating: ratingNumber,
-          body: bodyValue.trim() || null,
-        }),
+      const { review: created, revised } = await createReview(albumId, {
+        rating: ratingNumber,
+        body: bodyValue.trim() || null,
       });
 
-      if (response.status === 401) {
-        setReviewError("Please sign in with Spotify to add a review.");
-        return;
-      }
-
-      if (!response.ok) {
-        setReviewError("Could not save review.");
-        return;
+      let saved = created;
+      if (trackEditorOpen) {
+        const entries: TrackRating[] = Object.entries(trackDraft)
+          .filter(([, entry]) => entry.rating)
+          .map(([trackId, entry]) => ({
+            track_id: trackId,
+            rating: Number(entry.rating),
+            note: entry.note.trim() || null,
+          }));
+        try {
+          saved = { ...created, track_ratings: await setTrackRatings(created.id, entries) };
+          setTrackEditorOpen(false);
+          setTrackDraft({});
+        } catch (err) {
+          setReviewError("Your review was saved, but the track ratings were not.");
+        }
       }
 
       setBodyValue("");
-      const data = await response.json();
-      if (data.review) {
-        setReviews((prev) => [data.review, ...prev]);
+      // The API takes a reviewed album off the listen-later queue.
+      setInBacklog(false);
+      setReviews((prev) =>
+        revised
+          ? [saved, ...prev.filter((review) => review.id !== saved.id)]
+          : [saved, ...prev]
+      );
+      if (revised) {
+        setHistoryByReview((prev) => {
+          const next = { ...prev };
+          delete next[saved.id];
+          return next;
+        });
+        setHistoryOpenId(null);
       }
+      setStatsVersion((prev) => prev + 1);
     } catch (err) {
-      setReviewError("Could not save review.");
+      setReviewError(
+        isApiError(err, "unauthorized")
+          ? "Please sign in with Spotify to add a review."
+          : "Could not save review."
+      );
     } finally {
       setSubmitting(false);
     }
   }
 
-  function startEditReview(review: Review) {
+  async function handleLogListen(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!albumId) {
+      return;
+    }
+
+    setDiarySaving(true);
+    setDiaryError(null);
+    setDiaryMessage(null);
+    try {
+      const entry = await createDiaryEntry({
+        spotify_album_id: albumId,
+        listened_on: listenDay,
+        ...(relistenChoice === null ? {} : { is_relisten: relistenChoice }),
+        review_id: attachReview && ownReview ? ownReview.id : null,
+      });
+      setDiaryMessage(
+        `Logged ${entry.is_relisten ? "a relisten" : "a listen"} on ${formatDay(entry.listened_on)}.`
+      );
+      setRelistenChoice(null);
+    } catch (err) {
+      setDiaryError(
+        isApiError(err, "listened_on_in_future")
+          ? "That day has not happened yet."
+          : "Could not log this listen."
+      );
+    } finally {
+      setDiarySaving(false);
+    }
+  }
+
+  function handleTrackEditorToggle() {
+    if (!trackEditorOpen) {
+      const draft: Record<string, { rating: string; note: string }> = {};
+      (ownReview?.track_ratings || []).forEach((entry) => {
+        draft[entry.track_id] = { rating: String(entry.rating), note: entry.note || "" };
+      });
+      setTrackDraft(draft);
+    }
+    setTrackEditorOpen(!trackEditorOpen);
+  }
+
+  function updateTrackDraft(trackId: string, change: Partial<{ rating: string; note: string }>) {
+    setTrackDraft((prev) => ({
+      ...prev,
+      [trackId]: { ...(prev[trackId] || { rating: "", note: "" }), ...change },
+    }));
+  }
+
+  function trackLabel(trackId: string) {
+    const track = tracksById.get(trackId);
+    return track ? `${track.track_number}. ${track.name}` : "Unknown track";
+  }
+
+  function sortByTrackNumber(entries: TrackRating[]) {
+    return [...entries].sort(
+      (a, b) =>
+        (tracksById.get(a.track_id)?.track_number ?? Infinity) -
+        (tracksById.get(b.track_id)?.track_number ?? Infinity)
+    );
+  }
+
+  function startEditReview(review: AlbumReview) {
     setReviewActionError(null);
     setEditingReviewId(review.id);
     setEditRatingValue(String(review.rating));
@@ -253,44 +403,32 @@ export default function AlbumPage() {
     setReviewSaving(true);
     setReviewActionError(null);
     try {
-      const response = await fetch(`${apiUrl}/reviews/${reviewId}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        credentials: "include",
-        body: JSON.stringify({
-          rating: ratingNumber,
-          body: editBodyValue.trim() || null,
-        }),
+      const updated = await updateReview(reviewId, {
+        rating: ratingNumber,
+        body: editBodyValue.trim() || null,
       });
-
-      if (!response.ok) {
-        setReviewActionError("Could not update review.");
-        return;
-      }
-
-      const data = await response.json();
-      if (data.review) {
-        setReviews((prev) =>
-          prev.map((review) =>
-            review.id === reviewId
-              ? {
-                  ...review,
-                  rating: data.review.rating,
-                  body: data.review.body,
-                  is_pinned:
-                    typeof data.review.is_pinned === "boolean"
-                      ? data.review.is_pinned
-                      : review.is_pinned,
-                  pinned_at:
-                    typeof data.review.pinned_at !== "undefined"
-                      ? data.review.pinned_at
-                      : review.pinned_at,
-                }
-              : review
-          )
-        );
-        setEditingReviewId(null);
-      }
+      setReviews((prev) =>
+        prev.map((review) =>
+          review.id === reviewId
+            ? {
+                ...review,
+                rating: updated.rating,
+                body: updated.body,
+                is_pinned: updated.is_pinned,
+                pinned_at: updated.pinned_at,
+                revised_at: updated.revised_at,
+              }
+            : review
+        )
+      );
+      setEditingReviewId(null);
+      setHistoryByReview((prev) => {
+        const next = { ...prev };
+        delete next[reviewId];
+        return next;
+      });
+      setHistoryOpenId(null);
+      setStatsVersion((prev) => prev + 1);
     } catch (err) {
       setReviewActionError("Could not update review.");
     } finally {
@@ -306,17 +444,9 @@ export default function AlbumPage() {
     setReviewDeleting(reviewId);
     setReviewActionError(null);
     try {
-      const response = await fetch(`${apiUrl}/reviews/${reviewId}`, {
-        method: "DELETE",
-        credentials: "include",
-      });
-
-      if (!response.ok) {
-        setReviewActionError("Could not delete review.");
-        return;
-      }
-
+      await deleteReview(reviewId);
       setReviews((prev) => prev.filter((review) => review.id !== reviewId));
+      setStatsVersion((prev) => prev + 1);
     } catch (err) {
       setReviewActionError("Could not delete review.");
     } finally {
@@ -328,41 +458,73 @@ export default function AlbumPage() {
     setReviewPinning(reviewId);
     setReviewActionError(null);
     try {
-      const response = await fetch(`${apiUrl}/reviews/${reviewId}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        credentials: "include",
-        body: JSON.stringify({ is_pinned: nextPinned }),
+      const updated = await updateReview(reviewId, { is_pinned: nextPinned });
+      setReviews((prev) =>
+        prev.map((review) =>
+          review.id === reviewId
+            ? {
+                ...review,
+                is_pinned: updated.is_pinned,
+                pinned_at: updated.pinned_at,
+              }
+            : review
+        )
+      );
+    } catch (err) {
+      setReviewActionError(
+        isApiError(err, "pinned_limit")
+          ? "You can only pin up to 3 reviews."
+          : "Could not update pinned reviews."
+      );
+    } finally {
+      setReviewPinning(null);
+    }
+  }
+
+  async function handleLoadMoreReviews() {
+    if (!albumId || !reviewsCursor || reviewsLoadingMore) {
+      return;
+    }
+
+    setReviewsLoadingMore(true);
+    setReviewActionError(null);
+    try {
+      const data = await getAlbumReviews(albumId, { cursor: reviewsCursor });
+      setReviews((prev) => {
+        const seen = new Set(prev.map((review) => review.id));
+        return [...prev, ...data.reviews.filter((review) => !seen.has(review.id))];
       });
+      setReviewsCursor(data.next_cursor);
+    } catch (err) {
+      setReviewActionError("Could not load more reviews.");
+    } finally {
+      setReviewsLoadingMore(false);
+    }
+  }
 
-      if (!response.ok) {
-        const data = await response.json().catch(() => null);
-        if (data?.error === "pinned_limit") {
-          setReviewActionError("You can only pin up to 3 reviews.");
-          return;
-        }
-        setReviewActionError("Could not update pinned reviews.");
-        return;
-      }
+  async function handleToggleHistory(reviewId: number) {
+    if (historyOpenId === reviewId) {
+      setHistoryOpenId(null);
+      return;
+    }
 
-      const data = await response.json();
-      if (data.review) {
-        setReviews((prev) =>
-          prev.map((review) =>
-            review.id === reviewId
-              ? {
-                  ...review,
-                  is_pinned: data.review.is_pinned,
-                  pinned_at: data.review.pinned_at,
-                }
-              : review
-          )
-        );
-      }
+    setHistoryOpenId(reviewId);
+    setHistoryError(null);
+    if (historyByReview[reviewId]) {
+      return;
+    }
+
+    setHistoryLoading(reviewId);
+    try {
+      const data = await getReviewHistory(reviewId);
+      setHistoryByReview((prev) => ({
+        ...prev,
+        [reviewId]: data.revisions,
+      }));
     } catch (err) {
-      setReviewActionError("Could not update pinned reviews.");
+      setHistoryError("Could not load review history.");
     } finally {
-      setReviewPinning(null);
+      setHistoryLoading(null);
     }
   }
 
@@ -374,6 +536,12 @@ export default function AlbumPage() {
     return date.toLocaleDateString();
   }
 
+  // Diary days have no time zone; read them as local dates so they never shift a day.
+  function formatDay(value: string) {
+    const [year, month, day] = value.split("-").map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString();
+  }
+
   return (
     <div className="min-h-screen text-[color:var(--foreground)]">
       <main className="mx-auto flex w-full max-w-6xl flex-col gap-8 px-6 py-12">
@@ -407,7 +575,7 @@ export default function AlbumPage() {
               </Link>
             </nav>
             <div className="flex flex-wrap items-center gap-3">
-              {!authChecked && (
+              {status === "loading" && (
                 <span className="text-xs text-[var(--muted)]">
                   Checking session...
                 </span>
@@ -420,12 +588,9 @@ export default function AlbumPage() {
                   </span>
                 </span>
               ) : (
-                <a
-                  className="inline-flex items-center justify-center rounded-none bg-[var(--accent)] px-4 py-2 text-xs font-semibold text-[#0a140c] transition hover:bg-[var(--accent-strong)]"
-                  href={`${apiUrl}/auth/spotify`}
-                >
+                <SignInLink className="inline-flex items-center justify-center rounded-none bg-[var(--accent)] px-4 py-2 text-xs font-semibold text-[#0a140c] transition hover:bg-[var(--accent-strong)]">
                   Continue with Spotify
-                </a>
+                </SignInLink>
               )}
             </div>
           </div>
@@ -478,6 +643,28 @@ export default function AlbumPage() {
                 </p>
               </div>
 
+              {user && (
+                <div className="flex flex-wrap items-center gap-3">
+                  <button
+                    type="button"
+                    className="rounded-none border border-[color:var(--border)] px-4 py-2 text-xs text-[var(--foreground)] transition hover:border-[var(--accent)] disabled:cursor-not-allowed disabled:text-[var(--muted-strong)]"
+                    onClick={handleBacklogToggle}
+                    disabled={backlogUpdating}
+                  >
+                    {inBacklog ? "Queued ✓ · Remove" : "Listen later"}
+                  </button>
+                  <Link
+                    href="/backlog"
+                    className="text-xs text-[var(--muted)] hover:text-[var(--foreground)]"
+                  >
+                    Your queue
+                  </Link>
+                  {backlogError && (
+                    <span className="text-xs text-red-200">{backlogError}</span>
+                  )}
+                </div>
+              )}
+
               <div className="space-y-2">
                 <p className="text-xs uppercase tracking-[0.2em] text-[var(--muted)]">
                   Tracklist
@@ -491,18 +678,28 @@ export default function AlbumPage() {
                       <span>
                         {track.track_number}. {track.name}
                       </span>
-                      {track.preview_url ? (
-                        <a
-                          className="text-[var(--accent-strong)] hover:text-[var(--accent)]"
-                          href={track.preview_url}
-                          target="_blank"
-                          rel="noreferrer"
-                        >
-                          Preview
-                        </a>
-                      ) : (
-                        <span className="text-zinc-600">No preview</span>
-                      )}
+                      <span className="flex items-center gap-3">
+                        {trackStatsById.has(track.id) && (
+                          <span
+                            className="text-[var(--muted)]"
+                            title={`${trackStatsById.get(track.id)?.rating_count} ratings`}
+                          >
+                            {trackStatsById.get(track.id)?.mean.toFixed(1)}/10
+                          </span>
+                        )}
+                        {track.preview_url ? (
+                          <a
+                            className="text-[var(--accent-strong)] hover:text-[var(--accent)]"
+                            href={track.preview_url}
+                            target="_blank"
+                            rel="noreferrer"
+                          >
+                            Preview
+                          </a>
+                        ) : (
+                          <span className="text-zinc-600">No preview</span>
+                        )}
+                      </span>
                     </div>
                   ))}
                 </div>
@@ -511,6 +708,69 @@ export default function AlbumPage() {
           </section>
         )}
 
+        {user && album && (
+          <section className="space-y-4 border border-[color:var(--border)] p-8">
+            <div>
+              <h2 className="text-lg font-semibold text-[var(--foreground)]">
+                Listening diary
+              </h2>
+              <p className="text-sm text-[var(--muted)]">
+                Log the days you listened to this album. Your diary is on{" "}
+                <Link href="/profile" className="underline hover:text-[var(--foreground)]">
+                  your profile
+                </Link>
+                .
+              </p>
+            </div>
+            <form
+              onSubmit={handleLogListen}
+              className="flex flex-wrap items-center gap-4 border border-[color:var(--border)] p-5 text-sm"
+            >
+              <input
+                type="date"
+                className="rounded-none border border-[color:var(--border)] bg-[color:var(--surface-strong)] px-4 py-2 text-sm text-[var(--foreground)] outline-none transition focus:border-[var(--accent)]"
+                value={listenDay}
+                max={localDay()}
+                required
+                onChange={(event) => setListenDay(event.target.value)}
+              />
+              <label className="flex items-center gap-2 text-xs text-[var(--muted)]">
+                <input
+                  type="checkbox"
+                  checked={relistenChoice ?? !!ownReview}
+                  onChange={(event) => setRelistenChoice(event.target.checked)}
+                />
+                Relisten
+              </label>
+              {ownReview && (
+                <label className="flex items-center gap-2 text-xs text-[var(--muted)]">
+                  <input
+                    type="checkbox"
+                    checked={attachReview}
+                    onChange={(event) => setAttachReview(event.target.checked)}
+                  />
+                  Attach my review ({ownReview.rating}/10)
+                </label>
+              )}
+              <button
+                type="submit"
+                className="rounded-none bg-[var(--accent)] px-5 py-2 text-sm font-semibold text-[#0a140c] transition hover:bg-[var(--accent-strong)] disabled:cursor-not-allowed disabled:bg-[color:var(--surface-strong)] disabled:text-[var(--muted)]"
+                disabled={diarySaving || !listenDay}
+              >
+                {diarySaving ? "Logging..." : "Log listen"}
+              </button>
+            </form>
+            {diaryMessage && (
+              <p className="text-xs text-[var(--muted)]">{diaryMessage}</p>
+            )}
+            {diaryError && (
+              <div className="border border-red-500/40 bg-red-500/10 px-4 py-3 text-xs text-red-200">
+                {diaryError}
+              </div>
+            )}
+          </section>
+        )}
+
         <section className="space-y-6 border border-[color:var(--border)] p-8">
           <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
             <div>
@@ -518,10 +778,10 @@ export default function AlbumPage() {
                 Ratings & reviews
               </h2>
               <p className="text-sm text-[var(--muted)]">
-                {averageRating
-                  ? `Average ${averageRating} · ${reviews.length} review${
-                      reviews.length === 1 ? "" : "s"
-                    }`
+                {stats && stats.review_count > 0 && stats.mean !== null
+                  ? `Average ${stats.mean.toFixed(1)} · Median ${stats.median} · ${
+                      stats.review_count
+                    } review${stats.review_count === 1 ? "" : "s"}`
                   : "No reviews yet."}
               </p>
             </div>
@@ -530,6 +790,68 @@ export default function AlbumPage() {
             </span>
           </div>
 
+          {stats && stats.review_count > 0 && (
+            <div className="space-y-3 border border-[color:var(--border)] p-5">
+              <div className="flex h-28 items-end gap-2">
+                {stats.histogram.map((bucket) => (
+                  <div
+                    key={bucket.rating}
+                    className="flex h-full flex-1 flex-col items-center justify-end gap-1"
+                  >
+                    <span className="text-[10px] text-[var(--muted)]">
+                      {bucket.count > 0 ? bucket.count : ""}
+                    </span>
+                    <div
+                      className="w-full bg-[var(--accent)]"
+                      style={{
+                        height: `${(bucket.count / histogramPeak) * 100}%`,
+                        minHeight: bucket.count > 0 ? "2px" : "0",
+                      }}
+                    />
+                  </div>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                {stats.histogram.map((bucket) => (
+                  <span
+                    key={bucket.rating}
+                    className="flex-1 text-center text-[10px] text-[var(--muted)]"
+                  >
+                    {bucket.rating}
+                  </span>
+                ))}
+              </div>
+              {topTracks.length > 0 && (
+                <div className="space-y-1 border-t border-[color:var(--border)] pt-3">
+                  <p className="text-xs uppercase tracking-[0.2em] text-[var(--muted)]">
+                    Highest rated tracks
+                  </p>
+                  {topTracks.map((entry) => (
+                    <div
+                      key={entry.track_id}
+                      className="flex items-center justify-between text-xs text-[var(--foreground)]"
+                    >
+                      <span>{trackLabel(entry.track_id)}</span>
+                      <span className="text-[var(--muted)]">
+                        {entry.mean.toFixed(1)}/10 · {entry.rating_count} rating
+                        {entry.rating_count === 1 ? "" : "s"}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+              {stats.following && (
+                <p className="text-xs text-[var(--muted)]">
+                  {stats.following.mean !== null
+                    ? `People you follow: average ${stats.following.mean.toFixed(1)} from ${
+                        stats.following.review_count
+                      } review${stats.following.review_count === 1 ? "" : "s"}`
+                    : "Nobody you follow has rated this album yet."}
+                </p>
+              )}
+            </div>
+          )}
+
           <form
             onSubmit={handleReviewSubmit}
             className="flex flex-col gap-4 border border-[color:var(--border)] p-5"
@@ -552,7 +874,11 @@ export default function AlbumPage() {
                 )}
               </select>
               <span className="text-xs text-[var(--muted)]">
-                {user ? "Signed in" : "Sign in to publish"}
+                {!user
+                  ? "Sign in to publish"
+                  : ownReview
+                  ? `You rated this ${ownReview.rating}/10. Posting again keeps the old rating in your history.`
+                  : "Signed in"}
               </span>
             </div>
 
@@ -563,6 +889,58 @@ export default function AlbumPage() {
               onChange={(event) => setBodyValue(event.target.value)}
             />
 
+            {album && album.tracks.length > 0 && (
+              <div className="space-y-3">
+                <button
+                  type="button"
+                  className="text-xs text-[var(--accent-strong)] hover:text-[var(--accent)]"
+                  onClick={handleTrackEditorToggle}
+                >
+                  {trackEditorOpen ? "Skip track ratings" : "Rate tracks (optional)"}
+                </button>
+                {trackEditorOpen && (
+                  <div className="space-y-2 border-l border-[color:var(--border)] pl-4">
+                    {album.tracks.map((track) => (
+                      <div
+                        key={track.id}
+                        className="flex flex-wrap items-center gap-3 text-xs"
+                      >
+                        <span className="min-w-[12rem] flex-1 text-[var(--foreground)]">
+                          {track.track_number}. {track.name}
+                        </span>
+                        <select
+                          className="rounded-none border border-[color:var(--border)] bg-[color:var(--surface-strong)] px-2 py-1 text-xs text-[var(--foreground)] outline-none transition focus:border-[var(--accent)]"
+                          value={trackDraft[track.id]?.rating || ""}
+                          onChange={(event) =>
+                            updateTrackDraft(track.id, { rating: event.target.value })
+                          }
+                        >
+                          <option value="">–</option>
+                          {Array.from({ length: 10 }, (_, idx) => String(idx + 1)).map(
+                            (value) => (
+                              <option key={value} value={value}>
+                                {value}
+                              </option>
+                            )
+                          )}
+                        </select>
+                        <input
+                          className="w-full rounded-none border border-[color:var(--border)] bg-[color:var(--surface-strong)] px-2 py-1 text-xs text-[var(--foreground)] outline-none transition focus:border-[var(--accent)] placeholder:text-[var(--muted)] md:w-56"
+                          placeholder="Note (optional)"
+                          maxLength={280}
+                          value={trackDraft[track.id]?.note || ""}
+                          disabled={!trackDraft[track.id]?.rating}
+                          onChange={(event) =>
+                            updateTrackDraft(track.id, { note: event.target.value })
+                          }
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
             {reviewError && (
               <div className="border border-red-500/40 bg-red-500/10 px-4 py-3 text-xs text-red-200">
                 {reviewError}
@@ -575,15 +953,16 @@ export default function AlbumPage() {
                 className="rounded-none bg-[var(--accent)] px-5 py-2 text-sm font-semibold text-[#0a140c] transition hover:bg-[var(--accent-strong)] disabled:cursor-not-allowed disabled:bg-[color:var(--surface-strong)] disabled:text-[var(--muted)]"
                 disabled={submitting || !user}
               >
-                {submitting ? "Posting..." : "Post review"}
+                {submitting
+                  ? "Posting..."
+                  : ownReview
+                  ? "Post re-review"
+                  : "Post review"}
               </button>
               {!user && (
-                <a
-                  className="text-xs text-[var(--muted)] hover:text-[var(--foreground)]"
-                  href={`${apiUrl}/auth/spotify`}
-                >
+                <SignInLink className="text-xs text-[var(--muted)] hover:text-[var(--foreground)]">
                   Continue with Spotify
-                </a>
+                </SignInLink>
               )}
             </div>
           </form>
@@ -608,11 +987,16 @@ export default function AlbumPage() {
                 className="border border-[color:var(--border)] p-5"
               >
                 <div className="flex flex-wrap items-center justify-between gap-2">
-                  <div className="text-sm font-semibold text-[var(--foreground)]">
+                  <Link
+                    href={`/users/${review.user.id}`}
+                    className="text-sm font-semibold text-[var(--foreground)] hover:text-[var(--accent)]"
+                  >
                     {review.user.display_name || review.user.spotify_id}
-                  </div>
+                  </Link>
                   <div className="text-xs text-[var(--muted)]">
-                    {formatDate(review.created_at)}
+                    {review.revised_at
+                      ? `Re-reviewed ${formatDate(review.revised_at)}`
+                      : formatDate(review.created_at)}
                   </div>
                 </div>
                 {editingReviewId === review.id ? (
@@ -669,6 +1053,54 @@ export default function AlbumPage() {
                         {review.body}
                       </p>
                     )}
+                    {review.track_ratings.length > 0 && (
+                      <div className="mt-3 space-y-1 border-l border-[color:var(--border)] pl-4 text-xs text-[var(--muted)]">
+                        {sortByTrackNumber(review.track_ratings).map((entry) => (
+                          <p key={entry.track_id}>
+                            <span className="text-[var(--foreground)]">
+                              {trackLabel(entry.track_id)}
+                            </span>{" "}
+                            · {entry.rating}/10
+                            {entry.note ? ` · ${entry.note}` : ""}
+                          </p>
+                        ))}
+                      </div>
+                    )}
+                    {review.revised_at && (
+                      <button
+                        type="button"
+                        className="mt-3 text-xs text-[var(--accent-strong)] hover:text-[var(--accent)]"
+                        onClick={() => handleToggleHistory(review.id)}
+                      >
+                        {historyOpenId === review.id ? "Hide history" : "Show history"}
+                      </button>
+                    )}
+                    {historyOpenId === review.id && (
+                      <div className="mt-3 space-y-2 border-l border-[color:var(--border)] pl-4">
+                        {historyLoading === review.id && (
+                          <p className="text-xs text-[var(--muted)]">
+                            Loading history...
+                          </p>
+                        )}
+                        {historyError && (
+                          <div className="border border-red-500/40 bg-red-500/10 px-3 py-2 text-xs text-red-200">
+                            {historyError}
+                          </div>
+                        )}
+                        {(historyByReview[review.id] || []).map((revision) => (
+                          <div key={revision.id} className="text-xs text-[var(--muted)]">
+                            <span className="uppercase tracking-[0.2em] text-[var(--muted-strong)]">
+                              {formatDate(revision.written_at)} · {revision.rating}/10
+                            </span>
+                            {revision.body && (
+                              <p className="mt-1 text-sm text-[var(--foreground)]">
+                                {revision.body}
+                              </p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
                     {user && review.user?.id === user.id && (
                       <div className="mt-3 flex flex-wrap items-center gap-3 text-[10px] uppercase tracking-[0.3em] text-[var(--muted)]">
                         <button
@@ -706,6 +1138,16 @@ export default function AlbumPage() {
                 )}
               </div>
             ))}
+            {reviewsCursor && (
+              <button
+                type="button"
+                className="rounded-none border border-[color:var(--border)] px-4 py-2 text-sm text-[var(--foreground)] transition hover:border-[var(--accent)] disabled:cursor-not-allowed disabled:text-[var(--muted-strong)]"
+                onClick={handleLoadMoreReviews}
+                disabled={reviewsLoadingMore}
+              >
+                {reviewsLoadingMore ? "Loading..." : "Load more"}
+              </button>
+            )}
           </div>
         </section>
       </main>
@@ -0,0 +1,13 @@
+import { RequireSession } from "@/lib/session";
+
+export default function BacklogLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <RequireSession message="You need to sign in to see your listen-later queue.">
+      {children}
+    </RequireSession>
+  );
+}
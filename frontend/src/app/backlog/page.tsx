@@ -0,0 +1,290 @@
+"use client";
+/* eslint-disable @next/next/no-img-element */
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import {
+  getBacklog,
+  isAbortError,
+  removeFromBacklog,
+  reorderBacklog,
+  updateBacklogPriority,
+  type BacklogItem,
+  type BacklogPriority,
+} from "@/lib/api";
+
+const priorities: { value: BacklogPriority; label: string }[] = [
+  { value: "high", label: "High priority" },
+  { value: "normal", label: "Up next" },
+  { value: "low", label: "Someday" },
+];
+
+const priorityRank: Record<BacklogPriority, number> = { high: 0, normal: 1, low: 2 };
+
+// The same order the API returns: priority first, then position.
+function sortBacklog(items: BacklogItem[]) {
+  return [...items].sort(
+    (a, b) =>
+      priorityRank[a.priority] - priorityRank[b.priority] ||
+      a.position - b.position ||
+      a.id - b.id
+  );
+}
+
+export default function BacklogPage() {
+  const [items, setItems] = useState<BacklogItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const groups = useMemo(
+    () =>
+      priorities.map((priority) => ({
+        ...priority,
+        items: items.filter((item) => item.priority === priority.value),
+      })),
+    [items]
+  );
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    async function loadBacklog() {
+      try {
+        setItems(await getBacklog({ signal: controller.signal }));
+      } catch (err) {
+        if (!isAbortError(err)) {
+          setError("Could not load your queue.");
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    }
+
+    loadBacklog();
+    return () => {
+      controller.abort();
+    };
+  }, []);
+
+  // Moves an album one place within its priority; the whole queue order is sent so
+  // positions stay consistent across priorities.
+  async function handleMove(albumId: string, offset: -1 | 1) {
+    const index = items.findIndex((item) => item.spotify_album_id === albumId);
+    const neighbor = items[index + offset];
+    if (index < 0 || !neighbor || neighbor.priority !== items[index].priority) {
+      return;
+    }
+
+    const previous = items;
+    const next = [...items];
+    next[index] = neighbor;
+    next[index + offset] = items[index];
+    const reordered = next.map((item, position) => ({ ...item, position: position + 1 }));
+
+    setItems(reordered);
+    setUpdatingId(albumId);
+    setActionError(null);
+    try {
+      await reorderBacklog(reordered.map((item) => item.spotify_album_id));
+    } catch (err) {
+      setItems(previous);
+      setActionError("Could not reorder your queue.");
+    } finally {
+      setUpdatingId(null);
+    }
+  }
+
+  async function handlePriorityChange(albumId: string, priority: BacklogPriority) {
+    setUpdatingId(albumId);
+    setActionError(null);
+    try {
+      const updated = await updateBacklogPriority(albumId, priority);
+      setItems((prev) =>
+        sortBacklog(
+          prev.map((item) =>
+            item.spotify_album_id === albumId ? { ...item, ...updated } : item
+          )
+        )
+      );
+    } catch (err) {
+      setActionError("Could not change the priority.");
+    } finally {
+      setUpdatingId(null);
+    }
+  }
+
+  async function handleRemove(albumId: string) {
+    setUpdatingId(albumId);
+    setActionError(null);
+    try {
+      await removeFromBacklog(albumId);
+      setItems((prev) => prev.filter((item) => item.spotify_album_id !== albumId));
+    } catch (err) {
+      setActionError("Could not remove that album.");
+    } finally {
+      setUpdatingId(null);
+    }
+  }
+
+  function formatDate(value: string) {
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      return value;
+    }
+    return date.toLocaleDateString();
+  }
+
+  return (
+    <div className="min-h-screen px-4 py-10 text-[color:var(--foreground)]">
+      <main className="mx-auto w-full max-w-4xl space-y-8">
+        <header className="flex flex-wrap items-center justify-between gap-4 border-b border-[color:var(--border)] pb-6">
+          <div>
+            <p className="text-xs uppercase tracking-[0.4em] text-[var(--muted)]">
+              Jukebox
+            </p>
+            <h1 className="font-mono text-2xl font-semibold tracking-tight">
+              Listen later
+            </h1>
+          </div>
+          <div className="flex items-center gap-3 text-sm text-[var(--muted)]">
+            <Link
+              href="/profile"
+              className="rounded-none border border-[color:var(--border)] px-4 py-2 text-[var(--foreground)] transition hover:border-[var(--accent)]"
+            >
+              Profile
+            </Link>
+            <Link
+              href="/"
+              className="rounded-none border border-[color:var(--border)] px-4 py-2 text-[var(--foreground)] transition hover:border-[var(--accent)]"
+            >
+              Search
+            </Link>
+          </div>
+        </header>
+
+        <p className="text-sm text-[var(--muted)]">
+          Queue albums from search or any album page. Reviewing an album takes
+          it off the queue.
+        </p>
+
+        {loading && (
+          <div className="border border-[color:var(--border)] p-6 text-sm text-[var(--muted)]">
+            Loading queue...
+          </div>
+        )}
+
+        {error && (
+          <div className="border border-red-500/40 bg-red-500/10 p-4 text-xs text-red-200">
+            {error}
+          </div>
+        )}
+
+        {actionError && (
+          <div className="border border-red-500/40 bg-red-500/10 p-4 text-xs text-red-200">
+            {actionError}
+          </div>
+        )}
+
+        {!loading && !error && items.length === 0 && (
+          <div className="border border-[color:var(--border)] p-6 text-sm text-[var(--muted)]">
+            Your queue is empty.
+          </div>
+        )}
+
+        {groups
+          .filter((group) => group.items.length > 0)
+          .map((group) => (
+            <section key={group.value} className="space-y-3">
+              <h2 className="text-lg font-semibold text-[var(--foreground)]">
+                {group.label}
+                <span className="ml-2 text-xs text-[var(--muted)]">
+                  {group.items.length}
+                </span>
+              </h2>
+              <div className="space-y-2">
+                {group.items.map((item, index) => (
+                  <div
+                    key={item.spotify_album_id}
+                    className="flex flex-wrap items-center gap-4 border border-[color:var(--border)] p-3 text-sm"
+                  >
+                    <div className="flex flex-col gap-1">
+                      <button
+                        type="button"
+                        className="border border-[color:var(--border)] px-2 text-xs text-[var(--foreground)] transition hover:border-[var(--accent)] disabled:cursor-not-allowed disabled:text-[var(--muted-strong)]"
+                        onClick={() => handleMove(item.spotify_album_id, -1)}
+                        disabled={updatingId !== null || index === 0}
+                        aria-label="Move up"
+                      >
+                        ↑
+                      </button>
+                      <button
+                        type="button"
+                        className="border border-[color:var(--border)] px-2 text-xs text-[var(--foreground)] transition hover:border-[var(--accent)] disabled:cursor-not-allowed disabled:text-[var(--muted-strong)]"
+                        onClick={() => handleMove(item.spotify_album_id, 1)}
+                        disabled={updatingId !== null || index === group.items.length - 1}
+                        aria-label="Move down"
+                      >
+                        ↓
+                      </button>
+                    </div>
+                    <Link
+                      href={`/albums/${item.spotify_album_id}`}
+                      className="flex min-w-0 flex-1 items-center gap-3 hover:text-[var(--accent-strong)]"
+                    >
+                      <div className="h-12 w-12 shrink-0 overflow-hidden border border-[color:var(--border)] bg-[#0b0d12]">
+                        {item.album?.image ? (
+                          <img
+                            src={item.album.image}
+                            alt={`${item.album.name} cover`}
+                            className="h-full w-full object-cover"
+                          />
+                        ) : null}
+                      </div>
+                      <div className="min-w-0">
+                        <p className="truncate font-semibold text-[var(--foreground)]">
+                          {item.album?.name || "Album"}
+                        </p>
+                        <p className="truncate text-xs text-[var(--muted)]">
+                          {item.album?.artists?.join(", ") || item.spotify_album_id} ·
+                          Added {formatDate(item.created_at)}
+                        </p>
+                      </div>
+                    </Link>
+                    <select
+                      className="rounded-none border border-[color:var(--border)] bg-[color:var(--surface-strong)] px-3 py-2 text-xs text-[var(--foreground)] outline-none transition focus:border-[var(--accent)]"
+                      value={item.priority}
+                      disabled={updatingId !== null}
+                      onChange={(event) =>
+                        handlePriorityChange(
+                          item.spotify_album_id,
+                          event.target.value as BacklogPriority
+                        )
+                      }
+                    >
+                      {priorities.map((priority) => (
+                        <option key={priority.value} value={priority.value}>
+                          {priority.label}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      className="rounded-none border border-[color:var(--border)] px-3 py-2 text-xs text-[var(--foreground)] transition hover:border-[var(--accent)] disabled:cursor-not-allowed disabled:text-[var(--muted-strong)]"
+                      onClick={() => handleRemove(item.spotify_album_id)}
+                      disabled={updatingId !== null}
+                    >
+                      {updatingId === item.spotify_album_id ? "Saving..." : "Remove"}
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </section>
+          ))}
+      </main>
+    </div>
+  );
+}
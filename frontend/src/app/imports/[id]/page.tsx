@@ -0,0 +1,616 @@
+"use client";
+/* eslint-disable @next/next/no-img-element */
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import { useParams } from "next/navigation";
+import {
+  commitImport,
+  getImport,
+  isAbortError,
+  isApiError,
+  resolveImportRow,
+  searchAlbums,
+  type AlbumCard,
+  type AlbumSearchResult,
+  type ImportCommitResult,
+  type ImportDetail,
+  type ImportRow,
+  type ListVisibility,
+} from "@/lib/api";
+
+type RowFilter = "review" | "matched" | "skipped";
+
+const pollIntervalMs = 2000;
+
+export default function ImportPage() {
+  const params = useParams();
+  const rawId = params?.id;
+  const importId = Array.isArray(rawId) ? rawId[0] : rawId;
+
+  const [importData, setImportData] = useState<ImportDetail | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<RowFilter>("review");
+
+  const [pickingRowId, setPickingRowId] = useState<number | null>(null);
+  const [query, setQuery] = useState("");
+  const [suggestions, setSuggestions] = useState<AlbumSearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [savingRowId, setSavingRowId] = useState<number | null>(null);
+  const [rowError, setRowError] = useState<{ rowId: number; message: string } | null>(
+    null
+  );
+
+  const [target, setTarget] = useState<"reviews" | "list">("reviews");
+  const [listTitle, setListTitle] = useState("");
+  const [isRanked, setIsRanked] = useState(false);
+  const [visibility, setVisibility] = useState<ListVisibility>("private");
+  const [committing, setCommitting] = useState(false);
+  const [commitError, setCommitError] = useState<string | null>(null);
+  const [commitResult, setCommitResult] = useState<ImportCommitResult | null>(null);
+
+  useEffect(() => {
+    if (!importId) {
+      return;
+    }
+    const controller = new AbortController();
+
+    async function loadImport() {
+      try {
+        setImportData(await getImport(importId as string, { signal: controller.signal }));
+      } catch (err) {
+        if (isAbortError(err)) {
+          return;
+        }
+        setError(
+          isApiError(err, "import_not_found")
+            ? "This import does not exist."
+            : "Could not load this import."
+        );
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    }
+
+    loadImport();
+    return () => {
+      controller.abort();
+    };
+  }, [importId]);
+
+  // Matching runs on the server; poll until every row has been looked up.
+  useEffect(() => {
+    if (!importId || importData?.status !== "matching") {
+      return;
+    }
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      try {
+        setImportData(await getImport(importId, { signal: controller.signal }));
+      } catch (err) {
+        // the next render keeps polling; a failed poll only delays the update
+      }
+    }, pollIntervalMs);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [importId, importData]);
+
+  useEffect(() => {
+    if (pickingRowId === null || query.trim().length < 2) {
+      setSuggestions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      setSearching(true);
+      try {
+        setSuggestions(
+          await searchAlbums(query.trim(), { limit: 6 }, { signal: controller.signal })
+        );
+      } catch (err) {
+        if (!isAbortError(err)) {
+          setSuggestions([]);
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setSearching(false);
+        }
+      }
+    }, 300);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [pickingRowId, query]);
+
+  const rows = useMemo(() => importData?.rows ?? [], [importData]);
+
+  const counts = useMemo(() => {
+    const result = { pending: 0, review: 0, matched: 0, skipped: 0, rated: 0 };
+    rows.forEach((row) => {
+      if (row.status === "pending") {
+        result.pending += 1;
+      } else if (row.status === "ambiguous" || row.status === "unmatched") {
+        result.review += 1;
+      } else if (row.status === "matched" || row.status === "confirmed") {
+        result.matched += 1;
+        if (row.rating !== null) {
+          result.rated += 1;
+        }
+      } else {
+        result.skipped += 1;
+      }
+    });
+    return result;
+  }, [rows]);
+
+  const visibleRows = useMemo(
+    () =>
+      rows.filter((row) => {
+        if (filter === "review") {
+          return row.status === "ambiguous" || row.status === "unmatched";
+        }
+        if (filter === "matched") {
+          return row.status === "matched" || row.status === "confirmed";
+        }
+        return row.status === "skipped";
+      }),
+    [rows, filter]
+  );
+
+  function openPicker(row: ImportRow) {
+    setPickingRowId(row.id);
+    setQuery(`${row.artist} ${row.album}`);
+    setRowError(null);
+  }
+
+  function closePicker() {
+    setPickingRowId(null);
+    setQuery("");
+    setSuggestions([]);
+  }
+
+  async function handleResolve(row: ImportRow, albumId: string | null) {
+    if (!importId) {
+      return;
+    }
+    setSavingRowId(row.id);
+    setRowError(null);
+    try {
+      const updated = await resolveImportRow(importId, row.id, albumId);
+      setImportData((prev) =>
+        prev
+          ? {
+              ...prev,
+              rows: prev.rows.map((entry) =>
+                entry.id === updated.id ? { ...entry, ...updated } : entry
+              ),
+            }
+          : prev
+      );
+      if (pickingRowId === row.id) {
+        closePicker();
+      }
+    } catch (err) {
+      setRowError({
+        rowId: row.id,
+        message: isApiError(err, "invalid_album_id")
+          ? "Spotify does not know that album."
+          : isApiError(err, "spotify_unavailable") || isApiError(err, "spotify_throttled")
+            ? "Spotify is not responding. Try again shortly."
+            : "Could not save this row.",
+      });
+    } finally {
+      setSavingRowId(null);
+    }
+  }
+
+  async function handleCommit(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!importId) {
+      return;
+    }
+
+    setCommitting(true);
+    setCommitError(null);
+    setCommitResult(null);
+    try {
+      const result = await commitImport(
+        importId,
+        target === "reviews"
+          ? { target }
+          : {
+              target,
+              title: listTitle.trim() || undefined,
+              is_ranked: isRanked,
+              visibility,
+            }
+      );
+      setCommitResult(result);
+      if (result.list_id) {
+        setImportData((prev) => (prev ? { ...prev, list_id: result.list_id } : prev));
+      }
+    } catch (err) {
+      setCommitError(
+        isApiError(err, "import_not_ready")
+          ? "Matching is still running."
+          : isApiError(err, "import_failed")
+            ? "Matching failed. Upload the file again to retry."
+            : "Could not finish the import."
+      );
+    } finally {
+      setCommitting(false);
+    }
+  }
+
+  function renderAlbum(album: AlbumCard, detail?: string) {
+    return (
+      <div className="flex items-center gap-3">
+        <div className="h-10 w-10 flex-shrink-0 overflow-hidden border border-[color:var(--border)] bg-[#0b0d12]">
+          {album.image ? (
+            <img
+              src={album.image}
+              alt={`${album.name} cover`}
+              className="h-full w-full object-cover"
+            />
+          ) : null}
+        </div>
+        <div>
+          <p className="text-sm font-semibold text-[var(--foreground)]">{album.name}</p>
+          <p className="text-xs text-[var(--muted)]">
+            {album.artists.join(", ")}
+            {detail ? ` · ${detail}` : ""}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const filterTabs: { key: RowFilter; label: string; count: number }[] = [
+    { key: "review", label: "Needs review", count: counts.review },
+    { key: "matched", label: "Matched", count: counts.matched },
+    { key: "skipped", label: "Skipped", count: counts.skipped },
+  ];
+
+  return (
+    <div className="min-h-screen px-4 py-10 text-[color:var(--foreground)]">
+      <main className="mx-auto w-full max-w-4xl space-y-8">
+        <header className="flex flex-wrap items-center justify-between gap-4 border-b border-[color:var(--border)] pb-6">
+          <div>
+            <p className="text-xs uppercase tracking-[0.4em] text-[var(--muted)]">
+              Import
+            </p>
+            <h1 className="font-mono text-2xl font-semibold tracking-tight">
+              {importData?.filename || "Review matches"}
+            </h1>
+          </div>
+          <div className="flex items-center gap-3 text-sm text-[var(--muted)]">
+            <Link
+              href="/imports"
+              className="rounded-none border border-[color:var(--border)] px-4 py-2 text-[var(--foreground)] transition hover:border-[var(--accent)]"
+            >
+              All imports
+            </Link>
+            <Link
+              href="/profile"
+              className="rounded-none border border-[color:var(--border)] px-4 py-2 text-[var(--foreground)] transition hover:border-[var(--accent)]"
+            >
+              Profile
+            </Link>
+          </div>
+        </header>
+
+        {loading && (
+          <div className="border border-[color:var(--border)] p-6 text-sm text-[var(--muted)]">
+            Loading import...
+          </div>
+        )}
+
+        {error && (
+          <div className="border border-red-500/40 bg-red-500/10 p-4 text-xs text-red-200">
+            {error}
+          </div>
+        )}
+
+        {importData && (
+          <>
+            {importData.status === "matching" && (
+              <div className="space-y-2 border border-[color:var(--border)] p-4 text-sm text-[var(--muted)]">
+                <p>
+                  Matching rows against Spotify: {rows.length - counts.pending} of{" "}
+                  {rows.length} done.
+                </p>
+                <div className="h-1 w-full bg-[color:var(--surface-strong)]">
+                  <div
+                    className="h-1 bg-[var(--accent)]"
+                    style={{
+                      width: `${rows.length ? ((rows.length - counts.pending) / rows.length) * 100 : 0}%`,
+                    }}
+                  />
+                </div>
+              </div>
+            )}
+
+            {importData.status === "failed" && (
+              <div className="border border-red-500/40 bg-red-500/10 p-4 text-xs text-red-200">
+                Matching stopped after {rows.length - counts.pending} of {rows.length} rows.
+                Upload the same file again to pick up where it left off.
+              </div>
+            )}
+
+            <section className="space-y-4">
+              <div className="flex flex-wrap gap-2">
+                {filterTabs.map((tab) => (
+                  <button
+                    key={tab.key}
+                    type="button"
+                    className={`rounded-none border px-3 py-2 text-xs transition ${
+                      filter === tab.key
+                        ? "border-[var(--accent)] text-[var(--foreground)]"
+                        : "border-[color:var(--border)] text-[var(--muted)] hover:border-[var(--accent)]"
+                    }`}
+                    onClick={() => setFilter(tab.key)}
+                  >
+                    {tab.label} ({tab.count})
+                  </button>
+                ))}
+              </div>
+
+              {visibleRows.length === 0 && (
+                <div className="border border-[color:var(--border)] p-6 text-sm text-[var(--muted)]">
+                  {filter === "review"
+                    ? importData.status === "matching"
+                      ? "Rows that need a decision will show up here."
+                      : "Nothing left to review."
+                    : "No rows here."}
+                </div>
+              )}
+
+              <div className="space-y-3">
+                {visibleRows.map((row) => {
+                  const resolved = row.status === "matched" || row.status === "confirmed";
+                  const showCandidates =
+                    !resolved || pickingRowId === row.id;
+                  const candidates = row.candidates.filter(
+                    (candidate) => candidate.id !== row.spotify_album_id
+                  );
+
+                  return (
+                    <div
+                      key={row.id}
+                      className="space-y-3 border border-[color:var(--border)] p-4 text-sm"
+                    >
+                      <div className="flex flex-wrap items-start justify-between gap-3">
+                        <div>
+                          <p className="font-semibold text-[var(--foreground)]">
+                            {row.album}
+                          </p>
+                          <p className="text-xs text-[var(--muted)]">
+                            {row.artist} · Row {row.row_number}
+                            {row.rating !== null ? ` · ${row.rating}/10` : " · Not rated"}
+                            {row.rated_on ? ` · ${row.rated_on}` : ""}
+                          </p>
+                        </div>
+                        <div className="flex flex-wrap gap-2">
+                          <button
+                            type="button"
+                            className="rounded-none border border-[color:var(--border)] px-3 py-2 text-xs text-[var(--foreground)] transition hover:border-[var(--accent)]"
+                            onClick={() =>
+                              pickingRowId === row.id ? closePicker() : openPicker(row)
+                            }
+                          >
+                            {pickingRowId === row.id ? "Close search" : "Search Spotify"}
+                          </button>
+                          {row.status !== "skipped" && (
+                            <button
+                              type="button"
+                              className="rounded-none border border-[color:var(--border)] px-3 py-2 text-xs text-[var(--foreground)] transition hover:border-[var(--accent)] disabled:cursor-not-allowed disabled:text-[var(--muted-strong)]"
+                              onClick={() => handleResolve(row, null)}
+                              disabled={savingRowId === row.id}
+                            >
+                              Skip
+                            </button>
+                          )}
+                        </div>
+                      </div>
+
+                      {resolved && row.match && (
+                        <div className="border border-[var(--accent)] p-3">
+                          {renderAlbum(
+                            row.match,
+                            row.status === "confirmed" ? "Picked by you" : "Matched"
+                          )}
+                        </div>
+                      )}
+
+                      {showCandidates && candidates.length > 0 && (
+                        <div className="space-y-2">
+                          <p className="text-xs uppercase tracking-[0.3em] text-[var(--muted)]">
+                            {resolved ? "Other candidates" : "Is it one of these?"}
+                          </p>
+                          {candidates.map((candidate) => (
+                            <button
+                              key={candidate.id}
+                              type="button"
+                              className="flex w-full items-center justify-between gap-3 border border-[color:var(--border)] p-3 text-left transition hover:border-[var(--accent)] disabled:cursor-not-allowed"
+                              onClick={() => handleResolve(row, candidate.id)}
+                              disabled={savingRowId === row.id}
+                            >
+                              {renderAlbum(candidate, candidate.release_date?.slice(0, 4))}
+                              <span className="text-xs text-[var(--muted)]">
+                                {Math.round(candidate.score * 100)}% match
+                              </span>
+                            </button>
+                          ))}
+                        </div>
+                      )}
+
+                      {showCandidates && !resolved && candidates.length === 0 && (
+                        <p className="text-xs text-[var(--muted)]">
+                          No likely albums found. Search Spotify or skip this row.
+                        </p>
+                      )}
+
+                      {pickingRowId === row.id && (
+                        <div className="space-y-2">
+                          <input
+                            className="w-full rounded-none border border-[color:var(--border)] bg-[color:var(--surface-strong)] px-4 py-3 text-sm text-[var(--foreground)] outline-none transition focus:border-[var(--accent)]"
+                            placeholder="Search albums"
+                            value={query}
+                            onChange={(event) => setQuery(event.target.value)}
+                          />
+                          {searching && (
+                            <p className="text-xs text-[var(--muted)]">Searching...</p>
+                          )}
+                          {suggestions.map((album) => (
+                            <button
+                              key={album.id}
+                              type="button"
+                              className="flex w-full items-center border border-[color:var(--border)] p-3 text-left transition hover:border-[var(--accent)] disabled:cursor-not-allowed"
+                              onClick={() => handleResolve(row, album.id)}
+                              disabled={savingRowId === row.id}
+                            >
+                              {renderAlbum(album, album.release_date?.slice(0, 4))}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+
+                      {rowError?.rowId === row.id && (
+                        <div className="border border-red-500/40 bg-red-500/10 px-4 py-2 text-xs text-red-200">
+                          {rowError.message}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </section>
+
+            <form
+              onSubmit={handleCommit}
+              className="space-y-4 border border-[color:var(--border)] p-6"
+            >
+              <h2 className="text-lg font-semibold text-[var(--foreground)]">
+                Finish import
+              </h2>
+              <p className="text-sm text-[var(--muted)]">
+                {counts.matched} matched albums, {counts.rated} with a rating.
+                {counts.review > 0
+                  ? ` ${counts.review} rows still need review and will be left out.`
+                  : ""}
+              </p>
+              <div className="flex flex-wrap gap-3 text-sm">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="target"
+                    checked={target === "reviews"}
+                    onChange={() => setTarget("reviews")}
+                  />
+                  Create reviews
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="target"
+                    checked={target === "list"}
+                    onChange={() => setTarget("list")}
+                  />
+                  {importData.list_id ? "Add to the imported list" : "Create a list"}
+                </label>
+              </div>
+
+              {target === "list" && !importData.list_id && (
+                <div className="space-y-3">
+                  <input
+                    className="w-full rounded-none border border-[color:var(--border)] bg-[color:var(--surface-strong)] px-4 py-3 text-sm text-[var(--foreground)] outline-none transition focus:border-[var(--accent)]"
+                    placeholder={
+                      importData.filename
+                        ? `Imported from ${importData.filename}`
+                        : "Imported albums"
+                    }
+                    maxLength={120}
+                    value={listTitle}
+                    onChange={(event) => setListTitle(event.target.value)}
+                  />
+                  <label className="flex items-center gap-3 text-xs uppercase tracking-[0.3em] text-[var(--muted)]">
+                    <input
+                      type="checkbox"
+                      className="h-4 w-4 rounded-none border border-[color:var(--border)] bg-[color:var(--surface-strong)] text-[var(--accent)]"
+                      checked={isRanked}
+                      onChange={(event) => setIsRanked(event.target.checked)}
+                    />
+                    Ranked in file order
+                  </label>
+                  <select
+                    className="w-full rounded-none border border-[color:var(--border)] bg-[color:var(--surface-strong)] px-4 py-3 text-sm text-[var(--foreground)] outline-none transition focus:border-[var(--accent)]"
+                    value={visibility}
+                    onChange={(event) =>
+                      setVisibility(event.target.value as ListVisibility)
+                    }
+                  >
+                    <option value="private">Private: only you</option>
+                    <option value="unlisted">Unlisted: anyone with the link</option>
+                    <option value="public">Public: shown on your profile</option>
+                  </select>
+                </div>
+              )}
+
+              {commitError && (
+                <div className="border border-red-500/40 bg-red-500/10 px-4 py-3 text-xs text-red-200">
+                  {commitError}
+                </div>
+              )}
+
+              {commitResult && (
+                <div className="border border-[var(--accent)] px-4 py-3 text-sm text-[var(--foreground)]">
+                  {commitResult.target === "reviews" ? (
+                    <p>
+                      {commitResult.created} reviews created,{" "}
+                      {commitResult.already_present} already reviewed,{" "}
+                      {commitResult.without_rating} without a rating.{" "}
+                      <Link href="/profile" className="underline">
+                        See your profile
+                      </Link>
+                    </p>
+                  ) : (
+                    <p>
+                      {commitResult.created} albums added,{" "}
+                      {commitResult.already_present} already on the list.{" "}
+                      <Link href={`/lists/${commitResult.list_id}`} className="underline">
+                        Open the list
+                      </Link>
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <button
+                type="submit"
+                className="rounded-none bg-[var(--accent)] px-5 py-2 text-sm font-semibold text-[#0a140c] transition hover:bg-[var(--accent-strong)] disabled:cursor-not-allowed disabled:bg-[color:var(--surface-strong)] disabled:text-[var(--muted)]"
+                disabled={
+                  committing || importData.status !== "ready" || counts.matched === 0
+                }
+              >
+                {committing
+                  ? "Importing..."
+                  : target === "reviews"
+                    ? `Import ${counts.rated} ratings`
+                    : `Import ${counts.matched} albums`}
+              </button>
+            </form>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+import { RequireSession } from "@/lib/session";
+
+export default function ImportsLayout({
+  children,
+}: Readonly<{
+  children: React.ReactNode;
+}>) {
+  return (
+    <RequireSession message="You need to sign in to import your ratings.">
+      {children}
+    </RequireSession>
+  );
+}
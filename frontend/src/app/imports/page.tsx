@@ -0,0 +1,235 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  createImport,
+  getImports,
+  isAbortError,
+  isApiError,
+  type ImportSummary,
+} from "@/lib/api";
+
+const uploadErrors: Record<string, string> = {
+  import_empty: "That file has no rows with both an artist and an album.",
+  import_format_unknown:
+    "Could not read that file. Use a RateYourMusic export or artist,album,rating,date columns.",
+  import_too_large: "That file is too large. Split it into files of up to 2000 rows.",
+  import_invalid: "Choose a .csv file.",
+  rate_limited: "Too many uploads. Try again in a minute.",
+};
+
+export default function ImportsPage() {
+  const router = useRouter();
+  const [imports, setImports] = useState<ImportSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [ratingScale, setRatingScale] = useState<5 | 10>(10);
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    async function loadImports() {
+      try {
+        setImports(await getImports({ signal: controller.signal }));
+      } catch (err) {
+        if (!isAbortError(err)) {
+          setError("Could not load your imports.");
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    }
+
+    loadImports();
+    return () => {
+      controller.abort();
+    };
+  }, []);
+
+  async function handleUpload(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    if (!file) {
+      setUploadError("Choose a file to import.");
+      return;
+    }
+
+    setUploading(true);
+    setUploadError(null);
+    try {
+      const created = await createImport(file, { ratingScale });
+      router.push(`/imports/${created.id}`);
+    } catch (err) {
+      setUploadError(
+        (isApiError(err) && uploadErrors[err.code]) || "Could not upload that file."
+      );
+      setUploading(false);
+    }
+  }
+
+  function formatDate(value: string) {
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      return value;
+    }
+    return date.toLocaleDateString();
+  }
+
+  return (
+    <div className="min-h-screen px-4 py-10 text-[color:var(--foreground)]">
+      <main className="mx-auto w-full max-w-4xl space-y-8">
+        <header className="flex flex-wrap items-center justify-between gap-4 border-b border-[color:var(--border)] pb-6">
+          <div>
+            <p className="text-xs uppercase tracking-[0.4em] text-[var(--muted)]">
+              Jukebox
+            </p>
+            <h1 className="font-mono text-2xl font-semibold tracking-tight">
+              Import ratings
+            </h1>
+          </div>
+          <div className="flex items-center gap-3 text-sm text-[var(--muted)]">
+            <Link
+              href="/profile"
+              className="rounded-none border border-[color:var(--border)] px-4 py-2 text-[var(--foreground)] transition hover:border-[var(--accent)]"
+            >
+              Profile
+            </Link>
+            <Link
+              href="/"
+              className="rounded-none border border-[color:var(--border)] px-4 py-2 text-[var(--foreground)] transition hover:border-[var(--accent)]"
+            >
+              Search
+            </Link>
+          </div>
+        </header>
+
+        <form
+          onSubmit={handleUpload}
+          className="space-y-4 border border-[color:var(--border)] p-6"
+        >
+          <div className="space-y-2 text-sm text-[var(--muted)]">
+            <p>
+              Upload a RateYourMusic export, or a CSV with{" "}
+              <span className="font-mono text-[var(--foreground)]">
+                artist,album,rating,date
+              </span>{" "}
+              columns. Each row is matched to a Spotify album, and you can
+              review the uncertain matches before anything is created.
+            </p>
+            <p>
+              Importing the same file again picks up where you left off, and
+              albums you have already reviewed are never changed.
+            </p>
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs uppercase tracking-[0.3em] text-[var(--muted)]">
+              File
+            </label>
+            <input
+              type="file"
+              accept=".csv,.txt,text/csv,text/plain"
+              className="w-full rounded-none border border-[color:var(--border)] bg-[color:var(--surface-strong)] px-4 py-3 text-sm text-[var(--foreground)]"
+              onChange={(event) => setFile(event.target.files?.[0] || null)}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs uppercase tracking-[0.3em] text-[var(--muted)]">
+              Rating scale
+            </label>
+            <select
+              className="w-full rounded-none border border-[color:var(--border)] bg-[color:var(--surface-strong)] px-4 py-3 text-sm text-[var(--foreground)] outline-none transition focus:border-[var(--accent)]"
+              value={ratingScale}
+              onChange={(event) =>
+                setRatingScale(Number(event.target.value) === 5 ? 5 : 10)
+              }
+            >
+              <option value={10}>1 to 10</option>
+              <option value={5}>0.5 to 5 stars</option>
+            </select>
+            <p className="text-xs text-[var(--muted)]">
+              RateYourMusic exports are always read as 1 to 10.
+            </p>
+          </div>
+
+          {uploadError && (
+            <div className="border border-red-500/40 bg-red-500/10 px-4 py-3 text-xs text-red-200">
+              {uploadError}
+            </div>
+          )}
+
+          <button
+            type="submit"
+            className="rounded-none bg-[var(--accent)] px-5 py-2 text-sm font-semibold text-[#0a140c] transition hover:bg-[var(--accent-strong)] disabled:cursor-not-allowed disabled:bg-[color:var(--surface-strong)] disabled:text-[var(--muted)]"
+            disabled={uploading}
+          >
+            {uploading ? "Uploading..." : "Upload and match"}
+          </button>
+        </form>
+
+        <section className="space-y-4">
+          <h2 className="text-lg font-semibold text-[var(--foreground)]">
+            Previous imports
+          </h2>
+
+          {loading && (
+            <div className="border border-[color:var(--border)] p-6 text-sm text-[var(--muted)]">
+              Loading imports...
+            </div>
+          )}
+
+          {error && (
+            <div className="border border-red-500/40 bg-red-500/10 p-4 text-xs text-red-200">
+              {error}
+            </div>
+          )}
+
+          {!loading && !error && imports.length === 0 && (
+            <div className="border border-[color:var(--border)] p-6 text-sm text-[var(--muted)]">
+              Nothing imported yet.
+            </div>
+          )}
+
+          <div className="space-y-3">
+            {imports.map((entry) => (
+              <Link
+                key={entry.id}
+                href={`/imports/${entry.id}`}
+                className="flex flex-wrap items-center justify-between gap-3 border border-[color:var(--border)] p-4 text-sm transition hover:border-[var(--accent)]"
+              >
+                <div className="space-y-1">
+                  <p className="text-[var(--foreground)]">
+                    {entry.filename || "Untitled file"}
+                    <span className="ml-2 text-xs uppercase tracking-[0.2em] text-[var(--muted)]">
+                      {entry.source === "rym" ? "RateYourMusic" : "CSV"}
+                    </span>
+                  </p>
+                  <p className="text-xs text-[var(--muted)]">
+                    Uploaded {formatDate(entry.created_at)} · {entry.counts.total} rows
+                    {entry.committed_at
+                      ? ` · Imported ${formatDate(entry.committed_at)}`
+                      : ""}
+                  </p>
+                </div>
+                <span className="text-xs text-[var(--muted)]">
+                  {entry.status === "matching"
+                    ? "Matching..."
+                    : entry.status === "failed"
+                      ? "Matching failed"
+                      : entry.counts.ambiguous + entry.counts.unmatched > 0
+                      ? `${entry.counts.ambiguous + entry.counts.unmatched} to review`
+                      : "Ready"}
+                </span>
+              </Link>
+            ))}
+          </div>
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -4,59 +4,42 @@
 import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
 import { useParams, useRouter } from "next/navigation";
-
-type User = {
-  id: number;
-  spotify_id: string;
-  display_name: string | null;
-};
-
-type ListItem = {
-  spotify_album_id: string;
-  created_at: string;
-  position?: number;
-};
-
-type ListDetail = {
-  id: number;
-  title: string;
-  description: string | null;
-  is_ranked: boolean;
-  created_at: string;
-  items: ListItem[];
-};
-
-type AlbumCard = {
-  id: string;
-  name: string;
-  artists: string[];
-  image: string | null;
-};
-
-type SearchAlbum = {
-  id: string;
-  name: string;
-  artists: string[];
-  image: string | null;
-  release_date: string;
-};
+import {
+  addListItem,
+  deleteList,
+  getAlbumCards,
+  getList,
+  isAbortError,
+  isApiError,
+  removeListItem,
+  reorderList,
+  searchAlbums,
+  updateList,
+  updateListItems,
+  type AlbumCard,
+  type AlbumSearchResult,
+  type ListDetail,
+  type ListItem,
+  type ListItemOperation,
+  type ListVisibility,
+} from "@/lib/api";
+import { SignInLink, useSession } from "@/lib/session";
 
 export default function ListPage() {
-  const apiUrl = process.env.NEXT_PUBLIC_API_URL || "http://127.0.0.1:4000";
   const params = useParams();
   const rawId = params?.id;
   const listId = Array.isArray(rawId) ? rawId[0] : rawId;
   const router = useRouter();
 
-  const [user, setUser] = useState<User | null>(null);
-  const [authChecked, setAuthChecked] = useState(false);
+  const { status } = useSession();
   const [list, setList] = useState<ListDetail | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [notFound, setNotFound] = useState(false);
   const [albumMap, setAlbumMap] = useState<Record<string, AlbumCard>>({});
 
   const [query, setQuery] = useState("");
-  const [suggestions, setSuggestions] = useState<SearchAlbum[]>([]);
+  const [suggestions, setSuggestions] = useState<AlbumSearchResult[]>([]);
   const [searching, setSearching] = useState(false);
   const [addError, setAddError] = useState<string | null>(null);
   const [adding, setAdding] = useState(false);
@@ -72,41 +55,31 @@ export default function ListPage() {
   const [titleDraft, setTitleDraft] = useState("");
   const [titleSaving, setTitleSaving] = useState(false);
   const [titleError, setTitleError] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [itemsSaving, setItemsSaving] = useState(false);
+  const [itemsError, setItemsError] = useState<string | null>(null);
+  const [visibilitySaving, setVisibilitySaving] = useState(false);
+  const [visibilityError, setVisibilityError] = useState<string | null>(null);
+  const [linkCopied, setLinkCopied] = useState(false);
+
+  const canEdit = list?.is_owner === true;
+  const canReorder = canEdit && list?.is_ranked === true;
 
   const suggestionOpen = useMemo(
     () => query.trim().length > 1 && suggestions.length > 0,
     [query, suggestions]
   );
 
-  useEffect(() => {
-    let cancelled = false;
-
-    async function loadUser() {
-      try {
-        const response = await fetch(`${apiUrl}/auth/me`, {
-          credentials: "include",
-        });
-        const data = await response.json();
-        if (!cancelled) {
-          setUser(data.user || null);
-          setAuthChecked(true);
-        }
-      } catch (err) {
-        if (!cancelled) {
-          setUser(null);
-          setAuthChecked(true);
-        }
-      }
-    }
-
-    loadUser();
-    return () => {
-      cancelled = true;
-    };
-  }, [apiUrl]);
+  const allSelected = useMemo(
+    () =>
+      !!list &&
+      list.items.length > 0 &&
+      list.items.every((item) => selectedIds.includes(item.spotify_album_id)),
+    [list, selectedIds]
+  );
 
   useEffect(() => {
-    let cancelled = false;
+    const controller = new AbortController();
 
     async function loadList() {
       if (!listId) {
@@ -117,36 +90,22 @@ export default function ListPage() {
 
       setLoading(true);
       setError(null);
+      setNotFound(false);
       try {
-        const response = await fetch(`${apiUrl}/lists/${listId}`, {
-          credentials: "include",
-        });
-
-        if (response.status === 401) {
-          setError("Sign in to view this list.");
-          setLoading(false);
-          return;
-        }
-
-        if (!response.ok) {
-          setError("List not found.");
-          setLoading(false);
-          return;
-        }
-
-        const data = await response.json();
-        if (!cancelled) {
-          setList(data.list || null);
-          if (data.list?.title) {
-            setTitleDraft(data.list.title);
-          }
-        }
+        const loaded = await getList(listId, { signal: controller.signal });
+        setList(loaded);
+        setTitleDraft(loaded.title);
       } catch (err) {
-        if (!cancelled) {
-          setError("Could not load list.");
+        if (isAbortError(err)) {
+          return;
         }
+        setNotFound(isApiError(err) && err.status === 404);
+        // Any answer from the API means the list is missing or hidden from this viewer.
+        setError(
+          isApiError(err) && err.status > 0 ? "List not found." : "Could not load list."
+        );
       } finally {
-        if (!cancelled) {
+        if (!controller.signal.aborted) {
           setLoading(false);
         }
       }
@@ -154,69 +113,56 @@ export default function ListPage() {
 
     loadList();
     return () => {
-      cancelled = true;
+      controller.abort();
     };
-  }, [apiUrl, listId]);
+  }, [listId]);
 
   useEffect(() => {
-    let cancelled = false;
+    const controller = new AbortController();
 
     async function loadAlbums() {
       if (!list || list.items.length === 0) {
         return;
       }
 
-      const validIds = Array.from(
-        new Set(list.items.map((item) => item.spotify_album_id))
-      ).filter((id) => /^[A-Za-z0-9]{22}$/.test(id));
+      const inlineAlbums = [
+        ...list.items.map((item) => item.album),
+      ].filter(
+        (album): album is AlbumCard => !!album && !albumMap[album.id]
+      );
+      if (inlineAlbums.length > 0) {
+        setAlbumMap((prev) => {
+          const next = { ...prev };
+          inlineAlbums.forEach((album) => {
+            next[album.id] = album;
+          });
+          return next;
+        });
+        return;
+      }
 
-      const uniqueIds = validIds.filter((id) => !albumMap[id]);
+      const missingIds = list.items
+        .map((item) => item.spotify_album_id)
+        .filter((id) => !albumMap[id]);
 
-      if (uniqueIds.length === 0) {
+      if (missingIds.length === 0) {
         return;
       }
 
       try {
-        const chunks: string[][] = [];
-        for (let i = 0; i < uniqueIds.length; i += 20) {
-          chunks.push(uniqueIds.slice(i, i + 20));
+        const albums = await getAlbumCards(missingIds, {
+          signal: controller.signal,
+        });
+        if (albums.length === 0) {
+          return;
         }
-
-        const responses = await Promise.all(
-          chunks.map((chunk) =>
-            fetch(`${apiUrl}/spotify/albums?ids=${chunk.join(",")}`, {
-              credentials: "include",
-            })
-          )
-        );
-
-        const albums = await Promise.all(
-          responses.map(async (response) => {
-            if (!response.ok) {
-              return [];
-            }
-            const data = await response.json();
-            return Array.isArray(data.albums) ? data.albums : [];
-          })
-        );
-
-        if (!cancelled) {
-          setAlbumMap((prev) => {
-            const next = { ...prev };
-            albums.flat().forEach((album) => {
-              if (!album) {
-                return;
-              }
-              next[album.id] = {
-                id: album.id,
-                name: album.name,
-                artists: album.artists || [],
-                image: album.images?.[1]?.url || album.images?.[0]?.url || null,
-              };
-            });
-            return next;
+        setAlbumMap((prev) => {
+          const next = { ...prev };
+          albums.forEach((album) => {
+            next[album.id] = album;
           });
-        }
+          return next;
+        });
       } catch (err) {
         // ignore album enrichment errors
       }
@@ -224,9 +170,9 @@ export default function ListPage() {
 
     loadAlbums();
     return () => {
-      cancelled = true;
+      controller.abort();
     };
-  }, [apiUrl, list, albumMap]);
+  }, [list, albumMap]);
 
   useEffect(() => {
     if (query.trim().length < 2) {
@@ -234,24 +180,29 @@ export default function ListPage() {
       return;
     }
 
+    const controller = new AbortController();
     const timeout = setTimeout(async () => {
       setSearching(true);
       try {
-        const response = await fetch(
-          `${apiUrl}/spotify/search?query=${encodeURIComponent(query.trim())}&limit=6`,
-          { credentials: "include" }
+        setSuggestions(
+          await searchAlbums(query.trim(), { limit: 6 }, { signal: controller.signal })
         );
-        const data = await response.json();
-        setSuggestions(Array.isArray(data.albums) ? data.albums : []);
       } catch (err) {
-        setSuggestions([]);
+        if (!isAbortError(err)) {
+          setSuggestions([]);
+        }
       } finally {
-        setSearching(false);
+        if (!controller.signal.aborted) {
+          setSearching(false);
+        }
       }
     }, 300);
 
-    return () => clearTimeout(timeout);
-  }, [apiUrl, query]);
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [query]);
 
   function extractAlbumId(value: string) {
     const trimmed = value.trim();
@@ -284,35 +235,7 @@ export default function ListPage() {
     setAddError(null);
     setAdding(true);
     try {
-      const response = await fetch(`${apiUrl}/lists/${listId}/items`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        credentials: "include",
-        body: JSON.stringify({ spotify_album_id: albumId }),
-      });
-
-      if (response.status === 401) {
-        setAddError("Sign in to add albums.");
-        return;
-      }
-
-      if (response.status === 400) {
-        const data = await response.json().catch(() => null);
-        if (data?.error === "invalid_album_id") {
-          setAddError("Pick a suggestion so we can verify the album.");
-          return;
-        }
-        if (data?.error === "spotify_unavailable") {
-          setAddError("Spotify is unavailable right now. Try again.");
-          return;
-        }
-      }
-
-      if (!response.ok) {
-        setAddError("Could not add album.");
-        return;
-      }
-
+      await addListItem(listId, albumId);
       setList((prev) => {
         if (!prev) {
           return prev;
@@ -339,7 +262,15 @@ export default function ListPage() {
       setQuery("");
       setSuggestions([]);
     } catch (err) {
-      setAddError("Could not add album.");
+      if (isApiError(err, "unauthorized")) {
+        setAddError("Sign in to add albums.");
+      } else if (isApiError(err, "invalid_album_id")) {
+        setAddError("Pick a suggestion so we can verify the album.");
+      } else if (isApiError(err, "spotify_unavailable")) {
+        setAddError("Spotify is unavailable right now. Try again.");
+      } else {
+        setAddError("Could not add album.");
+      }
     } finally {
       setAdding(false);
     }
@@ -368,25 +299,9 @@ export default function ListPage() {
     setRankedSaving(true);
     setRankedError(null);
     try {
-      const response = await fetch(`${apiUrl}/lists/${listId}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        credentials: "include",
-        body: JSON.stringify({ is_ranked: nextValue }),
-      });
-
-      if (!response.ok) {
-        throw new Error("ranked_update_failed");
-      }
-
-      const data = await response.json();
-      const updatedRanked =
-        typeof data?.list?.is_ranked === "boolean"
-          ? data.list.is_ranked
-          : nextValue;
-
+      const updated = await updateList(listId, { is_ranked: nextValue });
       setList((prev) =>
-        prev ? { ...prev, is_ranked: updatedRanked } : prev
+        prev ? { ...prev, is_ranked: updated.is_ranked } : prev
       );
     } catch (err) {
       setRankedError("Could not update list ranking.");
@@ -409,30 +324,15 @@ export default function ListPage() {
     setTitleSaving(true);
     setTitleError(null);
     try {
-      const response = await fetch(`${apiUrl}/lists/${listId}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        credentials: "include",
-        body: JSON.stringify({ title: nextTitle }),
-      });
-
-      if (response.status === 401) {
-        setTitleError("Sign in to update this list.");
-        return;
-      }
-
-      if (!response.ok) {
-        setTitleError("Could not update list title.");
-        return;
-      }
-
-      const data = await response.json();
-      setList((prev) =>
-        prev ? { ...prev, title: data.list?.title || nextTitle } : prev
-      );
+      const updated = await updateList(listId, { title: nextTitle });
+      setList((prev) => (prev ? { ...prev, title: updated.title } : prev));
       setEditingTitle(false);
     } catch (err) {
-      setTitleError("Could not update list title.");
+      setTitleError(
+        isApiError(err, "unauthorized")
+          ? "Sign in to update this list."
+          : "Could not update list title."
+      );
     } finally {
       setTitleSaving(false);
     }
@@ -456,26 +356,175 @@ export default function ListPage() {
     setListDeleting(true);
     setListDeleteError(null);
     try {
-      const response = await fetch(`${apiUrl}/lists/${listId}`, {
-        method: "DELETE",
-        credentials: "include",
+      await deleteList(listId);
+      router.push("/profile");
+    } catch (err) {
+      setListDeleteError(
+        isApiError(err, "unauthorized")
+          ? "Sign in to delete this list."
+          : "Could not delete list."
+      );
+    } finally {
+      setListDeleting(false);
+    }
+  }
+
+  async function handleRemoveItem(albumId: string) {
+    if (!listId || !list) {
+      return;
+    }
+
+    setItemsSaving(true);
+    setItemsError(null);
+    try {
+      // A 404 means the album is already gone, which is the outcome we wanted.
+      await removeListItem(listId, albumId).catch((err) => {
+        if (!isApiError(err) || err.status !== 404) {
+          throw err;
+        }
       });
 
-      if (response.status === 401) {
-        setListDeleteError("Sign in to delete this list.");
-        return;
-      }
+      setList((prev) => {
+        if (!prev) {
+          return prev;
+        }
+        const remaining = prev.items.filter(
+          (item) => item.spotify_album_id !== albumId
+        );
+        return {
+          ...prev,
+          items: remaining.map((item, index) => ({
+            ...item,
+            position: remaining.length - index,
+          })),
+        };
+      });
+      setSelectedIds((prev) => prev.filter((id) => id !== albumId));
+    } catch (err) {
+      setItemsError(
+        isApiError(err, "unauthorized")
+          ? "Sign in to update this list."
+          : "Could not remove album."
+      );
+    } finally {
+      setItemsSaving(false);
+    }
+  }
 
-      if (!response.ok) {
-        setListDeleteError("Could not delete list.");
-        return;
-      }
+  async function applyItemOperations(operations: ListItemOperation[]) {
+    if (!listId || operations.length === 0) {
+      return;
+    }
 
-      router.push("/profile");
+    setItemsSaving(true);
+    setItemsError(null);
+    try {
+      const nextItems = await updateListItems(listId, operations);
+      setList((prev) => (prev ? { ...prev, items: nextItems } : prev));
+      setSelectedIds((prev) =>
+        prev.filter((id) =>
+          nextItems.some((item) => item.spotify_album_id === id)
+        )
+      );
     } catch (err) {
-      setListDeleteError("Could not delete list.");
+      setItemsError(
+        isApiError(err, "unauthorized")
+          ? "Sign in to update this list."
+          : "Could not update selected albums."
+      );
     } finally {
-      setListDeleting(false);
+      setItemsSaving(false);
+    }
+  }
+
+  function toggleSelected(albumId: string) {
+    setSelectedIds((prev) =>
+      prev.includes(albumId)
+        ? prev.filter((id) => id !== albumId)
+        : [...prev, albumId]
+    );
+  }
+
+  function handleSelectAll(nextValue: boolean) {
+    setSelectedIds(
+      nextValue && list ? list.items.map((item) => item.spotify_album_id) : []
+    );
+  }
+
+  function getSelectedInOrder() {
+    if (!list) {
+      return [];
+    }
+    return list.items
+      .map((item) => item.spotify_album_id)
+      .filter((id) => selectedIds.includes(id));
+  }
+
+  async function handleRemoveSelected() {
+    const selected = getSelectedInOrder();
+    if (selected.length === 0) {
+      return;
+    }
+
+    if (
+      !window.confirm(
+        `Remove ${selected.length} album${selected.length === 1 ? "" : "s"}?`
+      )
+    ) {
+      return;
+    }
+
+    await applyItemOperations(
+      selected.map((id) => ({ op: "remove", spotify_album_id: id }))
+    );
+  }
+
+  async function handleMoveSelected(target: "top" | "bottom") {
+    if (!list) {
+      return;
+    }
+
+    const selected = getSelectedInOrder();
+    if (selected.length === 0) {
+      return;
+    }
+
+    const lastIndex = list.items.length - 1;
+    await applyItemOperations(
+      selected.map((id, index) => ({
+        op: "move",
+        spotify_album_id: id,
+        index: target === "top" ? index : lastIndex,
+      }))
+    );
+  }
+
+  async function handleVisibilityChange(nextValue: ListVisibility) {
+    if (!listId || !list) {
+      return;
+    }
+
+    setVisibilitySaving(true);
+    setVisibilityError(null);
+    try {
+      const updated = await updateList(listId, { visibility: nextValue });
+      setList((prev) =>
+        prev ? { ...prev, visibility: updated.visibility } : prev
+      );
+    } catch (err) {
+      setVisibilityError("Could not update list visibility.");
+    } finally {
+      setVisibilitySaving(false);
+    }
+  }
+
+  async function handleCopyLink() {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setLinkCopied(true);
+      setTimeout(() => setLinkCopied(false), 2000);
+    } catch (err) {
+      setVisibilityError("Could not copy the link.");
     }
   }
 
@@ -520,18 +569,10 @@ export default function ListPage() {
     setReorderSaving(true);
     setReorderError(null);
     try {
-      const response = await fetch(`${apiUrl}/lists/${listId}/reorder`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        credentials: "include",
-        body: JSON.stringify({
-          order: orderedItems.map((item) => item.spotify_album_id),
-        }),
-      });
-
-      if (!response.ok) {
-        throw new Error("reorder_failed");
-      }
+      await reorderList(
+        listId,
+        orderedItems.map((item) => item.spotify_album_id)
+      );
     } catch (err) {
       setReorderError("Could not save the new order.");
       setList((prev) => (prev ? { ...prev, items: previousItems } : prev));
@@ -544,7 +585,7 @@ export default function ListPage() {
     event: React.DragEvent<HTMLDivElement>,
     itemId: string
   ) {
-    if (reorderSaving || !list?.is_ranked) {
+    if (reorderSaving || !canReorder) {
       return;
     }
     event.dataTransfer.effectAllowed = "move";
@@ -556,7 +597,7 @@ export default function ListPage() {
     event: React.DragEvent<HTMLDivElement>,
     itemId: string
   ) {
-    if (reorderSaving || !list?.is_ranked) {
+    if (reorderSaving || !canReorder) {
       return;
     }
     event.preventDefault();
@@ -570,7 +611,7 @@ export default function ListPage() {
     targetId: string
   ) {
     event.preventDefault();
-    if (!list || reorderSaving || !list.is_ranked) {
+    if (!list || reorderSaving || !canReorder) {
       return;
     }
 
@@ -642,15 +683,28 @@ export default function ListPage() {
                 <h1 className="font-mono text-2xl font-semibold tracking-tight">
                   {list?.title || "Album list"}
                 </h1>
-                <button
-                  type="button"
-                  className="border border-[color:var(--border)] px-2 py-1 text-[10px] uppercase tracking-[0.3em] text-[var(--muted)] transition hover:border-[var(--accent)]"
-                  onClick={() => setEditingTitle(true)}
-                >
-                  Edit
-                </button>
+                {canEdit && (
+                  <button
+                    type="button"
+                    className="border border-[color:var(--border)] px-2 py-1 text-[10px] uppercase tracking-[0.3em] text-[var(--muted)] transition hover:border-[var(--accent)]"
+                    onClick={() => setEditingTitle(true)}
+                  >
+                    Edit
+                  </button>
+                )}
               </div>
             )}
+            {list && !list.is_owner && (
+              <p className="mt-1 text-xs text-[var(--muted)]">
+                A list by{" "}
+                <Link
+                  href={`/users/${list.user.id}`}
+                  className="text-[var(--accent-strong)] hover:text-[var(--accent)]"
+                >
+                  {list.user.display_name || list.user.spotify_id}
+                </Link>
+              </p>
+            )}
             {list?.description && (
               <p className="mt-2 text-sm text-[var(--muted)]">
                 {list.description}
@@ -670,27 +724,38 @@ export default function ListPage() {
             >
               Search
             </Link>
-            <button
-              type="button"
-              className="rounded-none border border-red-500/40 px-4 py-2 text-[var(--foreground)] transition hover:border-red-500 disabled:cursor-not-allowed disabled:text-red-300/60"
-              onClick={handleDeleteList}
-              disabled={listDeleting}
-            >
-              {listDeleting ? "Deleting..." : "Delete list"}
-            </button>
+            {canEdit && (
+              <button
+                type="button"
+                className="rounded-none border border-red-500/40 px-4 py-2 text-[var(--foreground)] transition hover:border-red-500 disabled:cursor-not-allowed disabled:text-red-300/60"
+                onClick={handleDeleteList}
+                disabled={listDeleting}
+              >
+                {listDeleting ? "Deleting..." : "Delete list"}
+              </button>
+            )}
           </div>
         </header>
 
-        {!authChecked && (
+        {status === "loading" && (
           <div className="border border-[color:var(--border)] p-6 text-sm text-[var(--muted)]">
             Checking session...
           </div>
         )}
 
-        {error && (
-          <div className="border border-red-500/40 bg-red-500/10 p-6 text-sm text-red-200">
-            {error}
+        {notFound && status === "unauthenticated" ? (
+          <div className="border border-[color:var(--border)] p-6 text-sm text-[var(--foreground)]">
+            <p>This list is private or does not exist. Sign in if it is yours.</p>
+            <SignInLink className="mt-4 inline-flex items-center justify-center rounded-none bg-[var(--accent)] px-5 py-2 text-sm font-semibold text-[#0a140c] transition hover:bg-[var(--accent-strong)]">
+              Continue with Spotify
+            </SignInLink>
           </div>
+        ) : (
+          error && (
+            <div className="border border-red-500/40 bg-red-500/10 p-6 text-sm text-red-200">
+              {error}
+            </div>
+          )
         )}
         {listDeleteError && (
           <div className="border border-red-500/40 bg-red-500/10 p-6 text-sm text-red-200">
@@ -698,63 +763,64 @@ export default function ListPage() {
           </div>
         )}
 
-        {authChecked && !error && list && (
+        {status !== "loading" && !error && list && (
           <section className="space-y-6">
-            <form
-              onSubmit={handleAddSubmit}
-              className="relative border border-[color:var(--border)] p-5"
-            >
-              <label className="text-xs uppercase tracking-[0.3em] text-[var(--muted)]">
-                Add albums
-              </label>
-              <input
-                className="mt-2 w-full rounded-none border border-[color:var(--border)] bg-[color:var(--surface-strong)] px-4 py-3 text-sm text-[var(--foreground)] outline-none transition focus:border-[var(--accent)]"
-                placeholder="Start typing an album name or paste a Spotify URL"
-                value={query}
-                onChange={(event) => setQuery(event.target.value)}
-              />
-              {searching && (
-                <div className="mt-2 text-xs text-[var(--muted)]">
-                  Searching...
-                </div>
-              )}
-              {suggestionOpen && (
-                <div className="absolute left-5 right-5 top-full z-10 mt-2 border border-[color:var(--border)] bg-[color:var(--surface)]">
-                  {suggestions.map((album) => (
-                    <button
-                      key={album.id}
-                      type="button"
-                      className="flex w-full items-center gap-3 border-b border-[color:var(--border)] px-4 py-3 text-left text-sm text-[var(--foreground)] hover:bg-[color:var(--surface-strong)]"
-                      onClick={() => addAlbumToList(album.id)}
-                    >
-                      <div className="h-10 w-10 flex-shrink-0 overflow-hidden border border-[color:var(--border)] bg-[#0b0d12]">
-                        {album.image ? (
-                          <img
-                            src={album.image}
-                            alt={`${album.name} cover`}
-                            className="h-full w-full object-cover"
-                          />
-                        ) : null}
-                      </div>
-                      <div>
-                        <p className="text-sm font-semibold">{album.name}</p>
-                        <p className="text-xs text-[var(--muted)]">
-                          {album.artists.join(", ")}
-                        </p>
-                      </div>
-                    </button>
-                  ))}
-                </div>
-              )}
-              {!suggestionOpen && query.trim().length > 1 && !searching && (
-                <div className="mt-2 text-xs text-[var(--muted)]">
-                  Keep typing or paste a Spotify album URL.
+            {canEdit && (
+              <form
+                onSubmit={handleAddSubmit}
+                className="relative border border-[color:var(--border)] p-5"
+              >
+                <label className="text-xs uppercase tracking-[0.3em] text-[var(--muted)]">
+                  Add albums
+                </label>
+                <input
+                  className="mt-2 w-full rounded-none border border-[color:var(--border)] bg-[color:var(--surface-strong)] px-4 py-3 text-sm text-[var(--foreground)] outline-none transition focus:border-[var(--accent)]"
+                  placeholder="Start typing an album name or paste a Spotify URL"
+                  value={query}
+                  onChange={(event) => setQuery(event.target.value)}
+                />
+                {searching && (
+                  <div className="mt-2 text-xs text-[var(--muted)]">
+                    Searching...
+                  </div>
+                )}
+                {suggestionOpen && (
+                  <div className="absolute left-5 right-5 top-full z-10 mt-2 border border-[color:var(--border)] bg-[color:var(--surface)]">
+                    {suggestions.map((album) => (
+                      <button
+                        key={album.id}
+                        type="button"
+                        className="flex w-full items-center gap-3 border-b border-[color:var(--border)] px-4 py-3 text-left text-sm text-[var(--foreground)] hover:bg-[color:var(--surface-strong)]"
+                        onClick={() => addAlbumToList(album.id)}
+                      >
+                        <div className="h-10 w-10 flex-shrink-0 overflow-hidden border border-[color:var(--border)] bg-[#0b0d12]">
+                          {album.image ? (
+                            <img
+                              src={album.image}
+                              alt={`${album.name} cover`}
+                              className="h-full w-full object-cover"
+                            />
+                          ) : null}
+                        </div>
+                        <div>
+                          <p className="text-sm font-semibold">{album.name}</p>
+                          <p className="text-xs text-[var(--muted)]">
+                            {album.artists.join(", ")}
+                          </p>
+                        </div>
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {!suggestionOpen && query.trim().length > 1 && !searching && (
+                  <div className="mt-2 text-xs text-[var(--muted)]">
+                    Keep typing or paste a Spotify album URL.
+                  </div>
+                )}
+              {addError && (
+                <div className="mt-3 border border-red-500/40 bg-red-500/10 px-4 py-2 text-xs text-red-200">
+                  {addError}
                 </div>
-              )}
-            {addError && (
-              <div className="mt-3 border border-red-500/40 bg-red-500/10 px-4 py-2 text-xs text-red-200">
-                {addError}
-              </div>
             )}
             {reorderError && (
               <div className="mt-3 border border-red-500/40 bg-red-500/10 px-4 py-2 text-xs text-red-200">
@@ -766,6 +832,11 @@ export default function ListPage() {
                 {rankedError}
               </div>
             )}
+            {itemsError && (
+              <div className="mt-3 border border-red-500/40 bg-red-500/10 px-4 py-2 text-xs text-red-200">
+                {itemsError}
+              </div>
+            )}
             <button
               type="submit"
               className="mt-4 rounded-none bg-[var(--accent)] px-4 py-2 text-sm font-semibold text-[#0a140c] transition hover:bg-[var(--accent-strong)] disabled:cursor-not-allowed disabled:bg-[color:var(--surface-strong)] disabled:text-[var(--muted)]"
@@ -774,42 +845,139 @@ export default function ListPage() {
                 {adding ? "Adding..." : "Add album"}
               </button>
             </form>
+            )}
 
-            <div className="flex flex-wrap items-center justify-between gap-4 border border-[color:var(--border)] px-4 py-3 text-xs uppercase tracking-[0.3em] text-[var(--muted)]">
-              <label className="flex items-center gap-3">
-                <input
-                  type="checkbox"
-                  className="h-4 w-4 rounded-none border border-[color:var(--border)] bg-[color:var(--surface-strong)] text-[var(--accent)]"
-                  checked={list.is_ranked}
-                  disabled={rankedSaving}
-                  onChange={(event) => handleRankedToggle(event.target.checked)}
-                />
-                Ranked list
-              </label>
-              <span className="text-[10px] text-[var(--muted-strong)]">
-                {list.is_ranked ? "Drag to reorder" : "Unranked list"}
-              </span>
-            </div>
+            {canEdit && (
+              <div className="flex flex-wrap items-center justify-between gap-4 border border-[color:var(--border)] px-4 py-3 text-xs uppercase tracking-[0.3em] text-[var(--muted)]">
+                <label className="flex items-center gap-3">
+                  Visibility
+                  <select
+                    className="rounded-none border border-[color:var(--border)] bg-[color:var(--surface-strong)] px-3 py-1 text-xs normal-case tracking-normal text-[var(--foreground)] outline-none transition focus:border-[var(--accent)]"
+                    value={list.visibility}
+                    disabled={visibilitySaving}
+                    onChange={(event) =>
+                      handleVisibilityChange(event.target.value as ListVisibility)
+                    }
+                  >
+                    <option value="private">Private</option>
+                    <option value="unlisted">Unlisted</option>
+                    <option value="public">Public</option>
+                  </select>
+                </label>
+                <div className="flex items-center gap-3 text-[10px]">
+                  <span className="text-[var(--muted-strong)]">
+                    {list.visibility === "private"
+                      ? "Only you can see this list"
+                      : list.visibility === "unlisted"
+                      ? "Anyone with the link can view"
+                      : "Shown on your public profile"}
+                  </span>
+                  {list.visibility !== "private" && (
+                    <button
+                      type="button"
+                      className="border border-[color:var(--border)] px-3 py-1 text-[var(--foreground)] transition hover:border-[var(--accent)]"
+                      onClick={handleCopyLink}
+                    >
+                      {linkCopied ? "Copied" : "Copy link"}
+                    </button>
+                  )}
+                </div>
+              </div>
+            )}
+            {visibilityError && (
+              <div className="border border-red-500/40 bg-red-500/10 px-4 py-2 text-xs text-red-200">
+                {visibilityError}
+              </div>
+            )}
+
+            {canEdit && (
+              <div className="flex flex-wrap items-center justify-between gap-4 border border-[color:var(--border)] px-4 py-3 text-xs uppercase tracking-[0.3em] text-[var(--muted)]">
+                <label className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 rounded-none border border-[color:var(--border)] bg-[color:var(--surface-strong)] text-[var(--accent)]"
+                    checked={list.is_ranked}
+                    disabled={rankedSaving}
+                    onChange={(event) => handleRankedToggle(event.target.checked)}
+                  />
+                  Ranked list
+                </label>
+                <span className="text-[10px] text-[var(--muted-strong)]">
+                  {list.is_ranked ? "Drag to reorder" : "Unranked list"}
+                </span>
+              </div>
+            )}
+
+            {canEdit && list.items.length > 0 && (
+              <div className="flex flex-wrap items-center justify-between gap-4 border border-[color:var(--border)] px-4 py-3 text-xs uppercase tracking-[0.3em] text-[var(--muted)]">
+                <label className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 rounded-none border border-[color:var(--border)] bg-[color:var(--surface-strong)] text-[var(--accent)]"
+                    checked={allSelected}
+                    disabled={itemsSaving}
+                    onChange={(event) => handleSelectAll(event.target.checked)}
+                  />
+                  Select all
+                </label>
+                <div className="flex flex-wrap items-center gap-2 text-[10px]">
+                  <span className="text-[var(--muted-strong)]">
+                    {selectedIds.length} selected
+                  </span>
+                  {list.is_ranked && (
+                    <>
+                      <button
+                        type="button"
+                        className="border border-[color:var(--border)] px-3 py-1 text-[var(--foreground)] transition hover:border-[var(--accent)] disabled:cursor-not-allowed disabled:text-[var(--muted-strong)]"
+                        onClick={() => handleMoveSelected("top")}
+                        disabled={itemsSaving || selectedIds.length === 0}
+                      >
+                        Move to top
+                      </button>
+                      <button
+                        type="button"
+                        className="border border-[color:var(--border)] px-3 py-1 text-[var(--foreground)] transition hover:border-[var(--accent)] disabled:cursor-not-allowed disabled:text-[var(--muted-strong)]"
+                        onClick={() => handleMoveSelected("bottom")}
+                        disabled={itemsSaving || selectedIds.length === 0}
+                      >
+                        Move to bottom
+                      </button>
+                    </>
+                  )}
+                  <button
+                    type="button"
+                    className="border border-red-500/40 px-3 py-1 text-red-200 transition hover:border-red-500 disabled:cursor-not-allowed disabled:text-red-300/60"
+                    onClick={handleRemoveSelected}
+                    disabled={itemsSaving || selectedIds.length === 0}
+                  >
+                    {itemsSaving ? "Saving..." : "Remove selected"}
+                  </button>
+                </div>
+              </div>
+            )}
 
             <div className="space-y-4">
               {list.items.length === 0 && (
                 <div className="border border-[color:var(--border)] p-6 text-sm text-[var(--muted)]">
-                  No albums yet. Start typing to add one.
+                  {canEdit
+                    ? "No albums yet. Start typing to add one."
+                    : "No albums in this list yet."}
                 </div>
               )}
               {list.items.map((item, index) => {
                 const album = albumMap[item.spotify_album_id];
                 const isDragging = draggingId === item.spotify_album_id;
                 const isDragOver = dragOverId === item.spotify_album_id;
+                const isSelected = selectedIds.includes(item.spotify_album_id);
                 return (
                   <div
                     key={item.spotify_album_id}
                     className={`group flex flex-col gap-4 border border-[color:var(--border)] p-4 transition md:flex-row md:items-center ${
                       isDragOver ? "border-[var(--accent)] bg-[color:var(--surface-strong)]" : ""
                     } ${isDragging ? "opacity-70" : ""} ${
-                      list.is_ranked ? "cursor-grab" : ""
+                      canReorder ? "cursor-grab" : ""
                     }`}
-                    draggable={list.is_ranked && !reorderSaving}
+                    draggable={canReorder && !reorderSaving}
                     onDragStart={(event) =>
                       handleDragStart(event, item.spotify_album_id)
                     }
@@ -821,6 +989,16 @@ export default function ListPage() {
                     }
                     onDragEnd={handleDragEnd}
                   >
+                    {canEdit && (
+                      <input
+                        type="checkbox"
+                        aria-label={`Select ${album?.name || item.spotify_album_id}`}
+                        className="h-4 w-4 flex-shrink-0 rounded-none border border-[color:var(--border)] bg-[color:var(--surface-strong)] text-[var(--accent)]"
+                        checked={isSelected}
+                        disabled={itemsSaving}
+                        onChange={() => toggleSelected(item.spotify_album_id)}
+                      />
+                    )}
                     <div className="relative h-28 w-28 flex-shrink-0 overflow-hidden border border-[color:var(--border)] bg-[color:var(--surface-strong)]">
                       {album?.image ? (
                         <img
@@ -847,7 +1025,7 @@ export default function ListPage() {
                         {album?.artists?.join(", ") || item.spotify_album_id}
                       </p>
                     </div>
-                    {list.is_ranked && (
+                    {canReorder && (
                       <div className="flex items-center gap-2 text-[10px] uppercase tracking-[0.3em] text-[var(--muted)] opacity-0 transition group-hover:opacity-100">
                         <span
                           className="cursor-grab border border-[color:var(--border)] px-2 py-1 transition group-active:cursor-grabbing"
@@ -862,6 +1040,16 @@ export default function ListPage() {
                         )}
                       </div>
                     )}
+                    {canEdit && (
+                      <button
+                        type="button"
+                        className="self-start border border-red-500/40 px-3 py-1 text-[10px] uppercase tracking-[0.3em] text-red-200 transition hover:border-red-500 disabled:cursor-not-allowed disabled:text-red-300/60 md:self-center"
+                        onClick={() => handleRemoveItem(item.spotify_album_id)}
+                        disabled={itemsSaving}
+                      >
+                        Remove
+                      </button>
+                    )}
                   </div>
                 );
               })}
@@ -3,79 +3,207 @@
 
 import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
-
-type User = {
-  id: number;
-  spotify_id: string;
-  display_name: string | null;
-};
-
-type AlbumSummary = {
-  id: string;
-  name: string;
-  artists: string[];
-  image: string | null;
-  release_date: string;
-  total_tracks: number;
-};
-
-type AlbumDetail = {
-  id: string;
-  name: string;
-  artists: string[];
-  images: { url: string; width: number; height: number }[];
-  release_date: string;
-  total_tracks: number;
-  label: string;
-  genres: string[];
-  tracks: {
-    id: string;
-    name: string;
-    track_number: number;
-    duration_ms: number;
-    preview_url: string | null;
-  }[];
-};
+import {
+  addToBacklog,
+  getAlbum,
+  getAlbumCards,
+  getBacklog,
+  getFeed,
+  isAbortError,
+  isApiError,
+  removeFromBacklog,
+  searchAlbums,
+  type AlbumCard,
+  type AlbumDetail,
+  type AlbumSearchResult,
+  type FeedActivity,
+} from "@/lib/api";
+import { SignInLink, useSession } from "@/lib/session";
 
 export default function Home() {
-  const apiUrl = process.env.NEXT_PUBLIC_API_URL || "http://127.0.0.1:4000";
-  const [user, setUser] = useState<User | null>(null);
-  const [authChecked, setAuthChecked] = useState(false);
+  const { user, status, updateUser, signOut } = useSession();
   const [query, setQuery] = useState("");
-  const [results, setResults] = useState<AlbumSummary[]>([]);
+  const [results, setResults] = useState<AlbumSearchResult[]>([]);
   const [selected, setSelected] = useState<AlbumDetail | null>(null);
   const [loadingSearch, setLoadingSearch] = useState(false);
   const [loadingAlbum, setLoadingAlbum] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [feed, setFeed] = useState<FeedActivity[]>([]);
+  const [feedCursor, setFeedCursor] = useState<string | null>(null);
+  const [feedLoading, setFeedLoading] = useState(false);
+  const [feedError, setFeedError] = useState<string | null>(null);
+  const [albumMap, setAlbumMap] = useState<Record<string, AlbumCard>>({});
+  const [backlogIds, setBacklogIds] = useState<string[]>([]);
+  const [backlogUpdating, setBacklogUpdating] = useState<string | null>(null);
 
   const canSearch = useMemo(() => query.trim().length > 1, [query]);
 
   useEffect(() => {
-    let cancelled = false;
+    const controller = new AbortController();
+
+    async function loadFeed() {
+      if (!user) {
+        setFeed([]);
+        setFeedCursor(null);
+        return;
+      }
 
-    async function loadUser() {
+      setFeedLoading(true);
+      setFeedError(null);
       try {
-        const response = await fetch(`${apiUrl}/auth/me`, {
-          credentials: "include",
-        });
-        const data = await response.json();
-        if (!cancelled) {
-          setUser(data.user || null);
-          setAuthChecked(true);
+        const data = await getFeed({}, { signal: controller.signal });
+        setFeed(data.activities);
+        setFeedCursor(data.next_cursor);
+      } catch (err) {
+        if (!isAbortError(err)) {
+          setFeedError("Could not load your feed.");
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setFeedLoading(false);
         }
+      }
+    }
+
+    loadFeed();
+    return () => {
+      controller.abort();
+    };
+  }, [user]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    async function loadBacklog() {
+      if (!user) {
+        setBacklogIds([]);
+        return;
+      }
+
+      try {
+        const items = await getBacklog({ signal: controller.signal });
+        setBacklogIds(items.map((item) => item.spotify_album_id));
       } catch (err) {
-        if (!cancelled) {
-          setUser(null);
-          setAuthChecked(true);
+        // the queue buttons fall back to "Listen later"
+      }
+    }
+
+    loadBacklog();
+    return () => {
+      controller.abort();
+    };
+  }, [user]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    async function loadAlbums() {
+      const inlineAlbums = [
+        ...feed.map((activity) => activity.album),
+      ].filter(
+        (album): album is AlbumCard => !!album && !albumMap[album.id]
+      );
+      if (inlineAlbums.length > 0) {
+        setAlbumMap((prev) => {
+          const next = { ...prev };
+          inlineAlbums.forEach((album) => {
+            next[album.id] = album;
+          });
+          return next;
+        });
+        return;
+      }
+
+      const missingIds = feed
+        .map((activity) => activity.spotify_album_id)
+        .filter((id): id is string => typeof id === "string" && !albumMap[id]);
+
+      if (missingIds.length === 0) {
+        return;
+      }
+
+      try {
+        const albums = await getAlbumCards(missingIds, {
+          signal: controller.signal,
+        });
+        if (albums.length === 0) {
+          return;
         }
+        setAlbumMap((prev) => {
+          const next = { ...prev };
+          albums.forEach((album) => {
+            next[album.id] = album;
+          });
+          return next;
+        });
+      } catch (err) {
+        // ignore album enrichment errors
       }
     }
 
-    loadUser();
+    loadAlbums();
     return () => {
-      cancelled = true;
+      controller.abort();
     };
-  }, [apiUrl]);
+  }, [feed, albumMap]);
+
+  async function handleLoadMoreFeed() {
+    if (!feedCursor || feedLoading) {
+      return;
+    }
+
+    setFeedLoading(true);
+    setFeedError(null);
+    try {
+      const data = await getFeed({ cursor: feedCursor });
+      setFeed((prev) => [...prev, ...data.activities]);
+      setFeedCursor(data.next_cursor);
+    } catch (err) {
+      setFeedError("Could not load more activity.");
+    } finally {
+      setFeedLoading(false);
+    }
+  }
+
+  function describeActivity(activity: FeedActivity) {
+    switch (activity.type) {
+      case "review_created":
+        return "reviewed";
+      case "review_revised":
+        return "re-reviewed";
+      case "review_pinned":
+        return "pinned a review of";
+      case "list_created":
+        return "created the list";
+      case "list_item_added":
+        return "added an album to";
+      default:
+        return "updated";
+    }
+  }
+
+  function formatDate(value: string) {
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      return value;
+    }
+    return date.toLocaleDateString();
+  }
+
+  function describeSpotifyError(err: unknown, fallback: string) {
+    switch (isApiError(err) ? err.code : null) {
+      case "spotify_reauth_required":
+        return "Spotify access was revoked. Reconnect to keep searching.";
+      case "spotify_throttled":
+        return "Spotify is rate limiting us right now. Try again in a moment.";
+      case "spotify_unavailable":
+        return "Spotify is unavailable right now. Try again shortly.";
+      case "album_not_found":
+        return "That album could not be found on Spotify.";
+      default:
+        return fallback;
+    }
+  }
 
   async function handleSearch(event: React.FormEvent<HTMLFormElement>) {
     event.preventDefault();
@@ -89,56 +217,52 @@ export default function Home() {
 
     setLoadingSearch(true);
     try {
-      const response = await fetch(
-        `${apiUrl}/spotify/search?query=${encodeURIComponent(query.trim())}`,
-        { credentials: "include" }
-      );
-      if (!response.ok) {
-        setError("Search failed. Try again.");
-        setResults([]);
-        return;
-      }
-      const data = await response.json();
-      setResults(data.albums || []);
+      setResults(await searchAlbums(query.trim()));
     } catch (err) {
-      setError("Search failed. Try again.");
+      if (isApiError(err, "spotify_reauth_required")) {
+        updateUser((current) => ({ ...current, needs_reauth: true }));
+      }
+      setError(describeSpotifyError(err, "Search failed. Try again."));
+      setResults([]);
     } finally {
       setLoadingSearch(false);
     }
   }
 
-  async function handleSelect(albumId: string) {
+  async function handleBacklogToggle(albumId: string) {
+    const queued = backlogIds.includes(albumId);
+    setBacklogUpdating(albumId);
     setError(null);
-    setLoadingAlbum(true);
     try {
-      const response = await fetch(`${apiUrl}/spotify/albums/${albumId}`, {
-        credentials: "include",
-      });
-      if (!response.ok) {
-        setError("Could not load album details.");
-        setSelected(null);
-        return;
+      if (queued) {
+        await removeFromBacklog(albumId);
+        setBacklogIds((prev) => prev.filter((id) => id !== albumId));
+      } else {
+        await addToBacklog(albumId);
+        setBacklogIds((prev) => [...prev, albumId]);
       }
-      const data = await response.json();
-      if (!data.album) {
-        setError("Album details unavailable.");
-        setSelected(null);
-        return;
-      }
-      setSelected(data.album);
     } catch (err) {
-      setError("Could not load album details.");
+      setError(
+        isApiError(err, "backlog_full")
+          ? "Your listen-later queue is full."
+          : describeSpotifyError(err, "Could not update your listen-later queue.")
+      );
     } finally {
-      setLoadingAlbum(false);
+      setBacklogUpdating(null);
     }
   }
 
-  async function handleLogout() {
-    await fetch(`${apiUrl}/auth/logout`, {
-      method: "POST",
-      credentials: "include",
-    });
-    setUser(null);
+  async function handleSelect(albumId: string) {
+    setError(null);
+    setLoadingAlbum(true);
+    try {
+      setSelected(await getAlbum(albumId));
+    } catch (err) {
+      setError(describeSpotifyError(err, "Could not load album details."));
+      setSelected(null);
+    } finally {
+      setLoadingAlbum(false);
+    }
   }
 
   return (
@@ -169,9 +293,17 @@ export default function Home() {
               >
                 Profile
               </Link>
+              {user && (
+                <Link
+                  href="/backlog"
+                  className="rounded-none border border-[color:var(--border)] px-4 py-2 text-[var(--foreground)] transition hover:border-[var(--accent)]"
+                >
+                  Listen later
+                </Link>
+              )}
             </nav>
             <div className="flex flex-wrap items-center gap-3">
-              {!authChecked && (
+              {status === "loading" && (
                 <span className="text-xs text-[var(--muted)]">
                   Checking session...
                 </span>
@@ -186,18 +318,15 @@ export default function Home() {
                   </span>
                   <button
                     className="rounded-none border border-[color:var(--border)] px-4 py-2 text-sm text-[var(--foreground)] transition hover:border-[var(--accent)]"
-                    onClick={handleLogout}
+                    onClick={signOut}
                   >
                     Log out
                   </button>
                 </>
               ) : (
-                <a
-                  className="inline-flex items-center justify-center rounded-none bg-[var(--accent)] px-6 py-3 text-sm font-semibold text-[#0a140c] transition hover:bg-[var(--accent-strong)]"
-                  href={`${apiUrl}/auth/spotify`}
-                >
+                <SignInLink className="inline-flex items-center justify-center rounded-none bg-[var(--accent)] px-6 py-3 text-sm font-semibold text-[#0a140c] transition hover:bg-[var(--accent-strong)]">
                   Continue with Spotify
-                </a>
+                </SignInLink>
               )}
             </div>
           </div>
@@ -241,6 +370,17 @@ export default function Home() {
           </button>
         </form>
 
+        {user?.needs_reauth && (
+          <div className="flex flex-wrap items-center justify-between gap-3 border border-[color:var(--border)] px-4 py-3 text-sm text-[var(--muted)]">
+            <span>
+              Your Spotify connection has expired or was revoked.
+            </span>
+            <SignInLink className="rounded-none border border-[color:var(--border)] px-4 py-2 text-sm text-[var(--foreground)] transition hover:border-[var(--accent)]">
+              Reconnect Spotify
+            </SignInLink>
+          </div>
+        )}
+
         {error && (
           <div className="border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
             {error}
@@ -294,6 +434,16 @@ export default function Home() {
                       </div>
                     </div>
                   </button>
+                  {user && (
+                    <button
+                      type="button"
+                      className="mt-2 rounded-none border border-[color:var(--border)] px-3 py-1 text-xs text-[var(--foreground)] transition hover:border-[var(--accent)] disabled:cursor-not-allowed disabled:text-[var(--muted-strong)]"
+                      onClick={() => handleBacklogToggle(album.id)}
+                      disabled={backlogUpdating === album.id}
+                    >
+                      {backlogIds.includes(album.id) ? "Queued ✓" : "Listen later"}
+                    </button>
+                  )}
                 </div>
               ))}
             </div>
@@ -373,6 +523,106 @@ export default function Home() {
             )}
           </section>
         </div>
+
+        {user && (
+          <section className="space-y-4 border-t border-[color:var(--border)] pt-6">
+            <h2 className="text-sm font-semibold uppercase tracking-[0.2em] text-[var(--muted)]">
+              From people you follow
+            </h2>
+            {feedError && (
+              <div className="border border-red-500/40 bg-red-500/10 px-4 py-3 text-sm text-red-200">
+                {feedError}
+              </div>
+            )}
+            {!feedLoading && !feedError && feed.length === 0 && (
+              <p className="text-sm text-[var(--muted)]">
+                Nothing yet. Follow people to see their reviews and lists here.
+              </p>
+            )}
+            <div className="space-y-3">
+              {feed.map((activity) => {
+                const album = activity.spotify_album_id
+                  ? albumMap[activity.spotify_album_id]
+                  : null;
+                return (
+                  <div
+                    key={activity.id}
+                    className="flex items-start gap-4 border border-[color:var(--border)] p-4"
+                  >
+                    {activity.spotify_album_id && (
+                      <Link
+                        href={`/albums/${activity.spotify_album_id}`}
+                        className="h-14 w-14 flex-shrink-0 overflow-hidden border border-[color:var(--border)] bg-[#0b0d12]"
+                      >
+                        {album?.image ? (
+                          <img
+                            src={album.image}
+                            alt={`${album.name} cover`}
+                            className="h-full w-full object-cover"
+                          />
+                        ) : null}
+                      </Link>
+                    )}
+                    <div className="min-w-0 flex-1 space-y-1">
+                      <p className="text-sm text-[var(--muted)]">
+                        <Link
+                          href={`/users/${activity.user.id}`}
+                          className="font-semibold text-[var(--foreground)] hover:text-[var(--accent)]"
+                        >
+                          {activity.user.display_name || activity.user.spotify_id}
+                        </Link>{" "}
+                        {describeActivity(activity)}{" "}
+                        {activity.spotify_album_id && (
+                          <Link
+                            href={`/albums/${activity.spotify_album_id}`}
+                            className="text-[var(--foreground)] hover:text-[var(--accent)]"
+                          >
+                            {album ? album.name : "an album"}
+                          </Link>
+                        )}
+                        {activity.type === "list_item_added" && " in "}
+                        {activity.list && (
+                          <Link
+                            href={`/lists/${activity.list.id}`}
+                            className="text-[var(--foreground)] hover:text-[var(--accent)]"
+                          >
+                            {activity.list.title}
+                          </Link>
+                        )}
+                      </p>
+                      {album && (
+                        <p className="text-xs text-[var(--muted)]">
+                          {album.artists.join(", ")}
+                        </p>
+                      )}
+                      {activity.review && (
+                        <p className="text-xs text-[var(--muted-strong)]">
+                          Rating {activity.review.rating}/10
+                          {activity.review.body ? ` — ${activity.review.body}` : ""}
+                        </p>
+                      )}
+                      <p className="text-xs text-[var(--muted)]">
+                        {formatDate(activity.created_at)}
+                      </p>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+            {feedLoading && (
+              <p className="text-sm text-[var(--muted)]">Loading activity...</p>
+            )}
+            {feedCursor && !feedLoading && (
+              <button
+                type="button"
+                className="rounded-none border border-[color:var(--border)] px-4 py-2 text-sm text-[var(--foreground)] transition hover:border-[var(--accent)]"
+                onClick={handleLoadMoreFeed}
+              >
+                Load more
+              </button>
+            )}
+          </section>
+        )}
       </main>
     </div>
   );
@@ -2,73 +2,72 @@
 /* eslint-disable @next/next/no-img-element */
 
 import Link from "next/link";
+import { useRouter } from "next/navigation";
 import { useEffect, useMemo, useState } from "react";
+import {
+  clearListeningHistory,
+  deleteAccount,
+  deleteDiaryEntry,
+  deleteList,
+  deleteReview,
+  exportUrl,
+  followUser,
+  getAlbumCards,
+  getDiary,
+  getFollowers,
+  getFollowing,
+  getListeningSummary,
+  getMyLists,
+  getMyReviews,
+  getProfile,
+  getSessions,
+  getUnratedListens,
+  isAbortError,
+  isApiError,
+  revokeAllSessions,
+  revokeSession,
+  searchAlbums,
+  searchUsers,
+  unfollowUser,
+  updateProfile,
+  updateReview,
+  uploadAvatar,
+  uploadListeningHistory,
+  type AlbumCard,
+  type AlbumSearchResult,
+  type DiaryEntry,
+  type List,
+  type ListeningSummary,
+  type Profile,
+  type Review,
+  type Session,
+  type UnratedListen,
+  type UserSummary,
+} from "@/lib/api";
+import { useSession } from "@/lib/session";
+
+type PageKind = "reviews" | "lists" | "followers" | "following";
+
+const weekdays = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Diary days are plain YYYY-MM-DD strings; build them from local dates so nothing shifts.
+function toDay(date: Date) {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
 
-type User = {
-  id: number;
-  spotify_id: string;
-  display_name: string | null;
-};
-
-type Review = {
-  id: number;
-  spotify_album_id: string;
-  rating: number;
-  body: string | null;
-  created_at: string;
-  is_pinned?: boolean;
-  pinned_at?: string | null;
-};
-
-type ListItem = {
-  spotify_album_id: string;
-  created_at: string;
-  position?: number;
-};
-
-type List = {
-  id: number;
-  title: string;
-  description: string | null;
-  created_at: string;
-  is_ranked: boolean;
-  items: ListItem[];
-};
-
-type AlbumCard = {
-  id: string;
-  name: string;
-  artists: string[];
-  image: string | null;
-};
-
-type Profile = {
-  display_name: string | null;
-  avatar_url: string | null;
-  bio: string | null;
-  favorite_genres: string[];
-  favorite_album_ids: string[];
-};
-
-type SearchAlbum = {
-  id: string;
-  name: string;
-  artists: string[];
-  image: string | null;
-  release_date: string;
-};
-
-type UserSummary = {
-  id: number;
-  spotify_id: string;
-  display_name: string | null;
-  avatar_url: string | null;
+const listeningUploadErrors: Record<string, string> = {
+  listening_history_basic:
+    "That is the short listening history. Request the extended streaming history from Spotify instead.",
+  listening_history_invalid: "Could not read that file. Upload the Streaming_History_Audio JSON files.",
+  listening_history_too_large: "Those files are too large. Upload them a few at a time.",
+  rate_limited: "Too many uploads. Try again in a minute.",
 };
 
 export default function ProfilePage() {
-  const apiUrl = process.env.NEXT_PUBLIC_API_URL || "http://127.0.0.1:4000";
-  const [user, setUser] = useState<User | null>(null);
-  const [authChecked, setAuthChecked] = useState(false);
+  const router = useRouter();
+  const { user, updateUser, clearSession } = useSession();
   const [reviews, setReviews] = useState<Review[]>([]);
   const [albumMap, setAlbumMap] = useState<Record<string, AlbumCard>>({});
   const [loading, setLoading] = useState(true);
@@ -99,7 +98,7 @@ export default function ProfilePage() {
   const [genresInput, setGenresInput] = useState("");
   const [favoriteAlbumIds, setFavoriteAlbumIds] = useState<string[]>([]);
   const [favoriteQuery, setFavoriteQuery] = useState("");
-  const [favoriteSuggestions, setFavoriteSuggestions] = useState<SearchAlbum[]>([]);
+  const [favoriteSuggestions, setFavoriteSuggestions] = useState<AlbumSearchResult[]>([]);
   const [favoriteSearching, setFavoriteSearching] = useState(false);
   const [favoriteError, setFavoriteError] = useState<string | null>(null);
   const [avatarUrl, setAvatarUrl] = useState<string | null>(null);
@@ -111,6 +110,31 @@ export default function ProfilePage() {
   const [reviewSaving, setReviewSaving] = useState(false);
   const [reviewDeleting, setReviewDeleting] = useState<number | null>(null);
   const [reviewPinning, setReviewPinning] = useState<number | null>(null);
+  const [reviewsCursor, setReviewsCursor] = useState<string | null>(null);
+  const [listsCursor, setListsCursor] = useState<string | null>(null);
+  const [followersCursor, setFollowersCursor] = useState<string | null>(null);
+  const [followingCursor, setFollowingCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState<PageKind | null>(null);
+  const [sessions, setSessions] = useState<Session[]>([]);
+  const [sessionsLoading, setSessionsLoading] = useState(false);
+  const [sessionsError, setSessionsError] = useState<string | null>(null);
+  const [sessionRevoking, setSessionRevoking] = useState<string | null>(null);
+  const [accountDeleting, setAccountDeleting] = useState(false);
+  const [accountError, setAccountError] = useState<string | null>(null);
+  const [listening, setListening] = useState<ListeningSummary | null>(null);
+  const [unratedListens, setUnratedListens] = useState<UnratedListen[]>([]);
+  const [listeningError, setListeningError] = useState<string | null>(null);
+  const [listeningFiles, setListeningFiles] = useState<File[]>([]);
+  const [listeningUploading, setListeningUploading] = useState(false);
+  const [listeningClearing, setListeningClearing] = useState(false);
+  const [diaryMonth, setDiaryMonth] = useState(() => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), 1);
+  });
+  const [diaryEntries, setDiaryEntries] = useState<DiaryEntry[]>([]);
+  const [diaryLoading, setDiaryLoading] = useState(false);
+  const [diaryError, setDiaryError] = useState<string | null>(null);
+  const [diaryDeleting, setDiaryDeleting] = useState<number | null>(null);
 
   const averageRating = useMemo(() => {
     if (reviews.length === 0) {
@@ -162,112 +186,202 @@ export default function ProfilePage() {
   }
 
   useEffect(() => {
-    let cancelled = false;
+    const controller = new AbortController();
 
-    async function loadUser() {
+    async function loadProfile() {
+      if (!user) {
+        setProfile(null);
+        setProfileLoading(false);
+        return;
+      }
+
+      setProfileLoading(true);
+      setProfileError(null);
       try {
-        const response = await fetch(`${apiUrl}/auth/me`, {
-          credentials: "include",
-        });
-        const data = await response.json();
-        if (!cancelled) {
-          setUser(data.user || null);
-          setAuthChecked(true);
-        }
+        const nextProfile = await getProfile({ signal: controller.signal });
+        setProfile(nextProfile);
+        setDisplayName(nextProfile.display_name || "");
+        setBio(nextProfile.bio || "");
+        setGenresInput(nextProfile.favorite_genres?.join(", ") || "");
+        setFavoriteAlbumIds(nextProfile.favorite_album_ids || []);
+        setAvatarUrl(nextProfile.avatar_url || null);
       } catch (err) {
-        if (!cancelled) {
-          setUser(null);
-          setAuthChecked(true);
+        if (isAbortError(err)) {
+          return;
+        }
+        if (isApiError(err, "unauthorized")) {
+          setProfile(null);
+        } else {
+          setProfileError("Could not load profile.");
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setProfileLoading(false);
         }
       }
     }
 
-    loadUser();
+    loadProfile();
     return () => {
-      cancelled = true;
+      controller.abort();
     };
-  }, [apiUrl]);
+  }, [user]);
 
   useEffect(() => {
-    let cancelled = false;
+    const controller = new AbortController();
 
-    async function loadProfile() {
+    async function loadSessions() {
       if (!user) {
-        setProfile(null);
-        setProfileLoading(false);
+        setSessions([]);
         return;
       }
 
-      setProfileLoading(true);
-      setProfileError(null);
+      setSessionsLoading(true);
+      setSessionsError(null);
       try {
-        const response = await fetch(`${apiUrl}/me/profile`, {
-          credentials: "include",
-        });
-
-        if (response.status === 401) {
-          if (!cancelled) {
-            setProfile(null);
-          }
-          return;
+        setSessions(await getSessions({ signal: controller.signal }));
+      } catch (err) {
+        if (!isAbortError(err)) {
+          setSessionsError("Could not load sessions.");
         }
-
-        const data = await response.json();
-        if (!cancelled) {
-          const nextProfile = data.profile || null;
-          setProfile(nextProfile);
-          setDisplayName(nextProfile?.display_name || "");
-          setBio(nextProfile?.bio || "");
-          setGenresInput(nextProfile?.favorite_genres?.join(", ") || "");
-          setFavoriteAlbumIds(nextProfile?.favorite_album_ids || []);
-          setAvatarUrl(nextProfile?.avatar_url || null);
+      } finally {
+        if (!controller.signal.aborted) {
+          setSessionsLoading(false);
         }
+      }
+    }
+
+    loadSessions();
+    return () => {
+      controller.abort();
+    };
+  }, [user]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    async function loadDiary() {
+      if (!user) {
+        setDiaryEntries([]);
+        return;
+      }
+
+      const from = toDay(diaryMonth);
+      const to = toDay(new Date(diaryMonth.getFullYear(), diaryMonth.getMonth() + 1, 0));
+      setDiaryLoading(true);
+      setDiaryError(null);
+      try {
+        const entries: DiaryEntry[] = [];
+        let cursor: string | null = null;
+        do {
+          const page = await getDiary(
+            { from, to, limit: 100, cursor },
+            { signal: controller.signal }
+          );
+          entries.push(...page.entries);
+          cursor = page.next_cursor;
+        } while (cursor);
+        setDiaryEntries(entries);
       } catch (err) {
-        if (!cancelled) {
-          setProfileError("Could not load profile.");
+        if (!isAbortError(err)) {
+          setDiaryError("Could not load your diary.");
         }
       } finally {
-        if (!cancelled) {
-          setProfileLoading(false);
+        if (!controller.signal.aborted) {
+          setDiaryLoading(false);
         }
       }
     }
 
-    loadProfile();
+    loadDiary();
     return () => {
-      cancelled = true;
+      controller.abort();
     };
-  }, [apiUrl, user]);
+  }, [user, diaryMonth]);
+
+  const diaryByDay = useMemo(() => {
+    const byDay: Record<string, DiaryEntry[]> = {};
+    diaryEntries.forEach((entry) => {
+      byDay[entry.listened_on] = [...(byDay[entry.listened_on] || []), entry];
+    });
+    return byDay;
+  }, [diaryEntries]);
+
+  // Leading nulls pad the first week so day 1 lands under its weekday.
+  const calendarDays = useMemo(() => {
+    const year = diaryMonth.getFullYear();
+    const month = diaryMonth.getMonth();
+    const daysInMonth = new Date(year, month + 1, 0).getDate();
+    return [
+      ...Array.from({ length: diaryMonth.getDay() }, () => null),
+      ...Array.from({ length: daysInMonth }, (_, index) => new Date(year, month, index + 1)),
+    ];
+  }, [diaryMonth]);
+
+  // Albums from an upload are matched in the background, so keep refreshing while
+  // any are still pending.
+  const listeningPending = (listening?.pending_albums || 0) > 0;
+  useEffect(() => {
+    if (!user) {
+      setListening(null);
+      setUnratedListens([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+
+    async function loadListening() {
+      try {
+        const [summary, albums] = await Promise.all([
+          getListeningSummary({ signal: controller.signal }),
+          getUnratedListens({ limit: 12 }, { signal: controller.signal }),
+        ]);
+        setListening(summary);
+        setUnratedListens(albums);
+        if (summary.pending_albums > 0) {
+          timeout = setTimeout(loadListening, 3000);
+        }
+      } catch (err) {
+        if (!isAbortError(err)) {
+          setListeningError("Could not load your listening history.");
+        }
+      }
+    }
+
+    if (listeningPending) {
+      timeout = setTimeout(loadListening, 3000);
+    } else {
+      loadListening();
+    }
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [user, listeningPending]);
 
   useEffect(() => {
-    let cancelled = false;
+    const controller = new AbortController();
 
     async function loadReviews() {
       setLoading(true);
       setError(null);
 
       try {
-        const response = await fetch(`${apiUrl}/me/reviews`, {
-          credentials: "include",
-        });
-
-        if (response.status === 401) {
-          if (!cancelled) {
-            setReviews([]);
-          }
+        const data = await getMyReviews({}, { signal: controller.signal });
+        setReviews(data.reviews);
+        setReviewsCursor(data.next_cursor);
+      } catch (err) {
+        if (isAbortError(err)) {
           return;
         }
-
-        const data = await response.json();
-        if (!cancelled) {
-          setReviews(Array.isArray(data.reviews) ? data.reviews : []);
-        }
-      } catch (err) {
-        if (!cancelled) {
+        if (isApiError(err, "unauthorized")) {
+          setReviews([]);
+        } else {
           setError("Could not load reviews.");
         }
       } finally {
-        if (!cancelled) {
+        if (!controller.signal.aborted) {
           setLoading(false);
         }
       }
@@ -275,39 +389,32 @@ export default function ProfilePage() {
 
     loadReviews();
     return () => {
-      cancelled = true;
+      controller.abort();
     };
-  }, [apiUrl]);
+  }, []);
 
   useEffect(() => {
-    let cancelled = false;
+    const controller = new AbortController();
 
     async function loadLists() {
       setListsLoading(true);
       setListsError(null);
 
       try {
-        const response = await fetch(`${apiUrl}/me/lists`, {
-          credentials: "include",
-        });
-
-        if (response.status === 401) {
-          if (!cancelled) {
-            setLists([]);
-          }
+        const data = await getMyLists({}, { signal: controller.signal });
+        setLists(data.lists);
+        setListsCursor(data.next_cursor);
+      } catch (err) {
+        if (isAbortError(err)) {
           return;
         }
-
-        const data = await response.json();
-        if (!cancelled) {
-          setLists(Array.isArray(data.lists) ? data.lists : []);
-        }
-      } catch (err) {
-        if (!cancelled) {
+        if (isApiError(err, "unauthorized")) {
+          setLists([]);
+        } else {
           setListsError("Could not load lists.");
         }
       } finally {
-        if (!cancelled) {
+        if (!controller.signal.aborted) {
           setListsLoading(false);
         }
       }
@@ -315,12 +422,12 @@ export default function ProfilePage() {
 
     loadLists();
     return () => {
-      cancelled = true;
+      controller.abort();
     };
-  }, [apiUrl]);
+  }, []);
 
   useEffect(() => {
-    let cancelled = false;
+    const controller = new AbortController();
 
     async function loadFollows() {
       if (!user) {
@@ -334,35 +441,22 @@ export default function ProfilePage() {
       setFollowingLoading(true);
       setFollowActionError(null);
       try {
-        const [followersResponse, followingResponse] = await Promise.all([
-          fetch(`${apiUrl}/users/${user.id}/followers?limit=12`, {
-            credentials: "include",
-          }),
-          fetch(`${apiUrl}/users/${user.id}/following?limit=12`, {
-            credentials: "include",
-          }),
+        const [followersData, followingData] = await Promise.all([
+          getFollowers(user.id, { limit: 12 }, { signal: controller.signal }),
+          getFollowing(user.id, { limit: 12 }, { signal: controller.signal }),
         ]);
 
-        const followersData = await followersResponse.json().catch(() => null);
-        const followingData = await followingResponse.json().catch(() => null);
-
-        if (!cancelled) {
-          const nextFollowers = Array.isArray(followersData?.followers)
-            ? followersData.followers
-            : [];
-          const nextFollowing = Array.isArray(followingData?.following)
-            ? followingData.following
-            : [];
-          setFollowers(nextFollowers);
-          setFollowing(nextFollowing);
-          setFollowingIds(nextFollowing.map((person: UserSummary) => person.id));
-        }
+        setFollowers(followersData.followers);
+        setFollowing(followingData.following);
+        setFollowersCursor(followersData.next_cursor);
+        setFollowingCursor(followingData.next_cursor);
+        setFollowingIds(followingData.following.map((person) => person.id));
       } catch (err) {
-        if (!cancelled) {
+        if (!isAbortError(err)) {
           setFollowActionError("Could not load follow data.");
         }
       } finally {
-        if (!cancelled) {
+        if (!controller.signal.aborted) {
           setFollowersLoading(false);
           setFollowingLoading(false);
         }
@@ -371,9 +465,9 @@ export default function ProfilePage() {
 
     loadFollows();
     return () => {
-      cancelled = true;
+      controller.abort();
     };
-  }, [apiUrl, user]);
+  }, [user]);
 
   useEffect(() => {
     if (followSearch.trim().length < 2) {
@@ -382,35 +476,35 @@ export default function ProfilePage() {
       return;
     }
 
+    const controller = new AbortController();
     const timeout = setTimeout(async () => {
       setFollowSearching(true);
       setFollowError(null);
       try {
-        const response = await fetch(
-          `${apiUrl}/users/search?query=${encodeURIComponent(
-            followSearch.trim()
-          )}&limit=6`,
-          { credentials: "include" }
+        setFollowResults(
+          await searchUsers(
+            followSearch.trim(),
+            { limit: 6 },
+            { signal: controller.signal }
+          )
         );
-
-        if (!response.ok) {
+      } catch (err) {
+        if (!isAbortError(err)) {
           setFollowError("Could not search users.");
           setFollowResults([]);
-          return;
         }
-
-        const data = await response.json();
-        setFollowResults(Array.isArray(data.users) ? data.users : []);
-      } catch (err) {
-        setFollowError("Could not search users.");
-        setFollowResults([]);
       } finally {
-        setFollowSearching(false);
+        if (!controller.signal.aborted) {
+          setFollowSearching(false);
+        }
       }
     }, 300);
 
-    return () => clearTimeout(timeout);
-  }, [apiUrl, followSearch]);
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [followSearch]);
 
   useEffect(() => {
     if (favoriteQuery.trim().length < 2) {
@@ -418,88 +512,83 @@ export default function ProfilePage() {
       return;
     }
 
+    const controller = new AbortController();
     const timeout = setTimeout(async () => {
       setFavoriteSearching(true);
       try {
-        const response = await fetch(
-          `${apiUrl}/spotify/search?query=${encodeURIComponent(
-            favoriteQuery.trim()
-          )}&limit=5`,
-          { credentials: "include" }
+        setFavoriteSuggestions(
+          await searchAlbums(
+            favoriteQuery.trim(),
+            { limit: 5 },
+            { signal: controller.signal }
+          )
         );
-        const data = await response.json();
-        setFavoriteSuggestions(Array.isArray(data.albums) ? data.albums : []);
       } catch (err) {
-        setFavoriteSuggestions([]);
+        if (!isAbortError(err)) {
+          setFavoriteSuggestions([]);
+        }
       } finally {
-        setFavoriteSearching(false);
+        if (!controller.signal.aborted) {
+          setFavoriteSearching(false);
+        }
       }
     }, 300);
 
-    return () => clearTimeout(timeout);
-  }, [apiUrl, favoriteQuery]);
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [favoriteQuery]);
 
   useEffect(() => {
-    let cancelled = false;
+    const controller = new AbortController();
 
     async function loadAlbums() {
+      const inlineAlbums = [
+        ...reviews.map((review) => review.album),
+        ...lists.flatMap((list) => list.items.map((item) => item.album)),
+        ...(profile?.favorite_albums || []),
+      ].filter(
+        (album): album is AlbumCard => !!album && !albumMap[album.id]
+      );
+      if (inlineAlbums.length > 0) {
+        setAlbumMap((prev) => {
+          const next = { ...prev };
+          inlineAlbums.forEach((album) => {
+            next[album.id] = album;
+          });
+          return next;
+        });
+        return;
+      }
+
       const reviewIds = reviews.map((review) => review.spotify_album_id);
       const listIds = lists.flatMap((list) =>
         list.items.map((item) => item.spotify_album_id)
       );
-      const favoriteIds = favoriteAlbumIds;
 
-      const validIds = Array.from(
-        new Set([...reviewIds, ...listIds, ...favoriteIds])
-      ).filter((id) => /^[A-Za-z0-9]{22}$/.test(id));
-
-      const uniqueIds = validIds.filter((id) => !albumMap[id]);
+      const missingIds = [...reviewIds, ...listIds, ...favoriteAlbumIds].filter(
+        (id) => !albumMap[id]
+      );
 
-      if (uniqueIds.length === 0) {
+      if (missingIds.length === 0) {
         return;
       }
 
       try {
-        const chunks: string[][] = [];
-        for (let i = 0; i < uniqueIds.length; i += 20) {
-          chunks.push(uniqueIds.slice(i, i + 20));
+        const albums = await getAlbumCards(missingIds, {
+          signal: controller.signal,
+        });
+        if (albums.length === 0) {
+          return;
         }
-
-        const responses = await Promise.all(
-          chunks.map((chunk) =>
-            fetch(`${apiUrl}/spotify/albums?ids=${chunk.join(",")}`, {
-              credentials: "include",
-            })
-          )
-        );
-
-        const albums = await Promise.all(
-          responses.map(async (response) => {
-            if (!response.ok) {
-              return [];
-            }
-            const data = await response.json();
-            return Array.isArray(data.albums) ? data.albums : [];
-          })
-        );
-
-        if (!cancelled) {
-          setAlbumMap((prev) => {
-            const next = { ...prev };
-            albums.flat().forEach((album) => {
-              if (!album) {
-                return;
-              }
-              next[album.id] = {
-                id: album.id,
-                name: album.name,
-                artists: album.artists || [],
-                image: album.images?.[1]?.url || album.images?.[0]?.url || null,
-              };
-            });
-            return next;
+        setAlbumMap((prev) => {
+          const next = { ...prev };
+          albums.forEach((album) => {
+            next[album.id] = album;
           });
-        }
+          return next;
+        });
       } catch (err) {
         // ignore album enrichment errors
       }
@@ -507,9 +596,61 @@ export default function ProfilePage() {
 
     loadAlbums();
     return () => {
-      cancelled = true;
+      controller.abort();
     };
-  }, [apiUrl, reviews, lists, favoriteAlbumIds, albumMap]);
+  }, [reviews, lists, favoriteAlbumIds, profile, albumMap]);
+
+  function reportLoadMoreError(kind: PageKind) {
+    if (kind === "reviews") {
+      setError("Could not load more reviews.");
+    } else if (kind === "lists") {
+      setListsError("Could not load more lists.");
+    } else {
+      setFollowActionError("Could not load more follow data.");
+    }
+  }
+
+  async function handleLoadMore(kind: PageKind) {
+    const cursors: Record<PageKind, string | null> = {
+      reviews: reviewsCursor,
+      lists: listsCursor,
+      followers: followersCursor,
+      following: followingCursor,
+    };
+    const cursor = cursors[kind];
+    if (!user || !cursor || loadingMore) {
+      return;
+    }
+
+    setLoadingMore(kind);
+    try {
+      if (kind === "reviews") {
+        const data = await getMyReviews({ cursor });
+        setReviews((prev) => [...prev, ...data.reviews]);
+        setReviewsCursor(data.next_cursor);
+      } else if (kind === "lists") {
+        const data = await getMyLists({ cursor });
+        setLists((prev) => [...prev, ...data.lists]);
+        setListsCursor(data.next_cursor);
+      } else if (kind === "followers") {
+        const data = await getFollowers(user.id, { limit: 12, cursor });
+        setFollowers((prev) => [...prev, ...data.followers]);
+        setFollowersCursor(data.next_cursor);
+      } else {
+        const data = await getFollowing(user.id, { limit: 12, cursor });
+        setFollowing((prev) => [...prev, ...data.following]);
+        setFollowingIds((prev) => [
+          ...prev,
+          ...data.following.map((person) => person.id),
+        ]);
+        setFollowingCursor(data.next_cursor);
+      }
+    } catch (err) {
+      reportLoadMoreError(kind);
+    } finally {
+      setLoadingMore(null);
+    }
+  }
 
   function formatDate(value: string) {
     const date = new Date(value);
@@ -539,47 +680,29 @@ export default function ProfilePage() {
     setProfileSaving(true);
     setProfileError(null);
     try {
-      const response = await fetch(`${apiUrl}/me/profile`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        credentials: "include",
-        body: JSON.stringify({
-          display_name: displayName.trim() || null,
-          bio: bio.trim() || null,
-          favorite_genres: genres,
-          favorite_album_ids: favoriteAlbumIds,
-        }),
+      const nextProfile = await updateProfile({
+        display_name: displayName.trim() || null,
+        bio: bio.trim() || null,
+        favorite_genres: genres,
+        favorite_album_ids: favoriteAlbumIds,
       });
-
-      if (response.status === 401) {
-        setProfileError("Sign in to update your profile.");
-        return;
-      }
-
-      if (!response.ok) {
-        setProfileError("Could not update profile.");
-        return;
-      }
-
-      const data = await response.json();
-      const nextProfile = data.profile || null;
       setProfile(nextProfile);
-      setDisplayName(nextProfile?.display_name || "");
-      setBio(nextProfile?.bio || "");
-      setGenresInput(nextProfile?.favorite_genres?.join(", ") || "");
-      setFavoriteAlbumIds(nextProfile?.favorite_album_ids || []);
-      setAvatarUrl(nextProfile?.avatar_url || avatarUrl);
-      setUser((prev) =>
-        prev
-          ? {
-              ...prev,
-              display_name: nextProfile?.display_name || prev.display_name,
-            }
-          : prev
-      );
+      setDisplayName(nextProfile.display_name || "");
+      setBio(nextProfile.bio || "");
+      setGenresInput(nextProfile.favorite_genres?.join(", ") || "");
+      setFavoriteAlbumIds(nextProfile.favorite_album_ids || []);
+      setAvatarUrl(nextProfile.avatar_url || avatarUrl);
+      updateUser((prev) => ({
+        ...prev,
+        display_name: nextProfile.display_name || prev.display_name,
+      }));
       setEditingProfile(false);
     } catch (err) {
-      setProfileError("Could not update profile.");
+      setProfileError(
+        isApiError(err, "unauthorized")
+          ? "Sign in to update your profile."
+          : "Could not update profile."
+      );
     } finally {
       setProfileSaving(false);
     }
@@ -596,40 +719,24 @@ export default function ProfilePage() {
     setAvatarUploading(true);
     setProfileError(null);
     try {
-      const formData = new FormData();
-      formData.append("avatar", file);
-      const response = await fetch(`${apiUrl}/me/avatar`, {
-        method: "POST",
-        credentials: "include",
-        body: formData,
-      });
-
-      if (response.status === 401) {
-        setProfileError("Sign in to update your photo.");
-        return;
-      }
-
-      if (!response.ok) {
-        setProfileError("Could not upload photo.");
-        return;
-      }
-
-      const data = await response.json();
-      if (data.avatar_url) {
-        setAvatarUrl(data.avatar_url);
-        setProfile((prev) =>
-          prev ? { ...prev, avatar_url: data.avatar_url } : prev
-        );
-      }
+      const nextAvatarUrl = await uploadAvatar(file);
+      setAvatarUrl(nextAvatarUrl);
+      setProfile((prev) =>
+        prev ? { ...prev, avatar_url: nextAvatarUrl } : prev
+      );
     } catch (err) {
-      setProfileError("Could not upload photo.");
+      setProfileError(
+        isApiError(err, "unauthorized")
+          ? "Sign in to update your photo."
+          : "Could not upload photo."
+      );
     } finally {
       setAvatarUploading(false);
       event.target.value = "";
     }
   }
 
-  function handleFavoriteAdd(album: SearchAlbum) {
+  function handleFavoriteAdd(album: AlbumSearchResult) {
     setFavoriteError(null);
     if (favoriteAlbumIds.includes(album.id)) {
       return;
@@ -679,44 +786,25 @@ export default function ProfilePage() {
     setReviewSaving(true);
     setReviewActionError(null);
     try {
-      const response = await fetch(`${apiUrl}/reviews/${reviewId}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        credentials: "include",
-        body: JSON.stringify({
-          rating: ratingNumber,
-          body: editBodyValue.trim() || null,
-        }),
+      const updated = await updateReview(reviewId, {
+        rating: ratingNumber,
+        body: editBodyValue.trim() || null,
       });
-
-      if (!response.ok) {
-        setReviewActionError("Could not update review.");
-        return;
-      }
-
-      const data = await response.json();
-      if (data.review) {
-        setReviews((prev) =>
-          prev.map((review) =>
-            review.id === reviewId
-              ? {
-                  ...review,
-                  rating: data.review.rating,
-                  body: data.review.body,
-                  is_pinned:
-                    typeof data.review.is_pinned === "boolean"
-                      ? data.review.is_pinned
-                      : review.is_pinned,
-                  pinned_at:
-                    typeof data.review.pinned_at !== "undefined"
-                      ? data.review.pinned_at
-                      : review.pinned_at,
-                }
-              : review
-          )
-        );
-        setEditingReviewId(null);
-      }
+      setReviews((prev) =>
+        prev.map((review) =>
+          review.id === reviewId
+            ? {
+                ...review,
+                rating: updated.rating,
+                body: updated.body,
+                is_pinned: updated.is_pinned,
+                pinned_at: updated.pinned_at,
+                revised_at: updated.revised_at,
+              }
+            : review
+        )
+      );
+      setEditingReviewId(null);
     } catch (err) {
       setReviewActionError("Could not update review.");
     } finally {
@@ -732,16 +820,7 @@ export default function ProfilePage() {
     setReviewDeleting(reviewId);
     setReviewActionError(null);
     try {
-      const response = await fetch(`${apiUrl}/reviews/${reviewId}`, {
-        method: "DELETE",
-        credentials: "include",
-      });
-
-      if (!response.ok) {
-        setReviewActionError("Could not delete review.");
-        return;
-      }
-
+      await deleteReview(reviewId);
       setReviews((prev) => prev.filter((review) => review.id !== reviewId));
     } catch (err) {
       setReviewActionError("Could not delete review.");
@@ -754,39 +833,24 @@ export default function ProfilePage() {
     setReviewPinning(reviewId);
     setReviewActionError(null);
     try {
-      const response = await fetch(`${apiUrl}/reviews/${reviewId}`, {
-        method: "PATCH",
-        headers: { "Content-Type": "application/json" },
-        credentials: "include",
-        body: JSON.stringify({ is_pinned: nextPinned }),
-      });
-
-      if (!response.ok) {
-        const data = await response.json().catch(() => null);
-        if (data?.error === "pinned_limit") {
-          setReviewActionError("You can only pin up to 3 reviews.");
-          return;
-        }
-        setReviewActionError("Could not update pinned reviews.");
-        return;
-      }
-
-      const data = await response.json();
-      if (data.review) {
-        setReviews((prev) =>
-          prev.map((review) =>
-            review.id === reviewId
-              ? {
-                  ...review,
-                  is_pinned: data.review.is_pinned,
-                  pinned_at: data.review.pinned_at,
-                }
-              : review
-          )
-        );
-      }
+      const updated = await updateReview(reviewId, { is_pinned: nextPinned });
+      setReviews((prev) =>
+        prev.map((review) =>
+          review.id === reviewId
+            ? {
+                ...review,
+                is_pinned: updated.is_pinned,
+                pinned_at: updated.pinned_at,
+              }
+            : review
+        )
+      );
     } catch (err) {
-      setReviewActionError("Could not update pinned reviews.");
+      setReviewActionError(
+        isApiError(err, "pinned_limit")
+          ? "You can only pin up to 3 reviews."
+          : "Could not update pinned reviews."
+      );
     } finally {
       setReviewPinning(null);
     }
@@ -800,48 +864,166 @@ export default function ProfilePage() {
     setListDeleting(listId);
     setListActionError(null);
     try {
-      const response = await fetch(`${apiUrl}/lists/${listId}`, {
-        method: "DELETE",
-        credentials: "include",
+      await deleteList(listId);
+      setLists((prev) => prev.filter((list) => list.id !== listId));
+    } catch (err) {
+      setListActionError(
+        isApiError(err, "unauthorized")
+          ? "Sign in to delete lists."
+          : "Could not delete list."
+      );
+    } finally {
+      setListDeleting(null);
+    }
+  }
+
+  async function handleRevokeSession(session: Session) {
+    if (
+      session.current &&
+      !window.confirm("This will sign you out on this device. Continue?")
+    ) {
+      return;
+    }
+
+    setSessionRevoking(session.id);
+    setSessionsError(null);
+    try {
+      // A 404 means the session already expired or was revoked elsewhere.
+      await revokeSession(session.id).catch((err) => {
+        if (!isApiError(err) || err.status !== 404) {
+          throw err;
+        }
       });
 
-      if (response.status === 401) {
-        setListActionError("Sign in to delete lists.");
+      if (session.current) {
+        clearSession();
         return;
       }
 
-      if (!response.ok) {
-        setListActionError("Could not delete list.");
-        return;
-      }
+      setSessions((prev) => prev.filter((entry) => entry.id !== session.id));
+    } catch (err) {
+      setSessionsError("Could not sign out that session.");
+    } finally {
+      setSessionRevoking(null);
+    }
+  }
 
-      setLists((prev) => prev.filter((list) => list.id !== listId));
+  async function handleRevokeAllSessions() {
+    if (!window.confirm("Sign out of every device, including this one?")) {
+      return;
+    }
+
+    setSessionRevoking("all");
+    setSessionsError(null);
+    try {
+      await revokeAllSessions();
+      setSessions([]);
+      clearSession();
     } catch (err) {
-      setListActionError("Could not delete list.");
+      setSessionsError("Could not sign out everywhere.");
     } finally {
-      setListDeleting(null);
+      setSessionRevoking(null);
     }
   }
 
-  async function handleFollowUser(targetId: number) {
-    setFollowUpdatingId(targetId);
-    setFollowActionError(null);
+  async function handleListeningUpload(event: React.FormEvent<HTMLFormElement>) {
+    event.preventDefault();
+    const form = event.currentTarget;
+    if (listeningFiles.length === 0) {
+      setListeningError("Choose your streaming history files.");
+      return;
+    }
+
+    setListeningUploading(true);
+    setListeningError(null);
+    try {
+      const result = await uploadListeningHistory(listeningFiles);
+      setListening(result.summary);
+      setUnratedListens(await getUnratedListens({ limit: 12 }));
+      setListeningFiles([]);
+      form.reset();
+    } catch (err) {
+      setListeningError(
+        (isApiError(err) && listeningUploadErrors[err.code]) ||
+          "Could not upload those files."
+      );
+    } finally {
+      setListeningUploading(false);
+    }
+  }
+
+  async function handleListeningClear() {
+    if (!window.confirm("Forget your imported listening history?")) {
+      return;
+    }
+
+    setListeningClearing(true);
+    setListeningError(null);
     try {
-      const response = await fetch(`${apiUrl}/users/${targetId}/follow`, {
-        method: "POST",
-        credentials: "include",
+      await clearListeningHistory();
+      setListening(null);
+      setUnratedListens([]);
+    } catch (err) {
+      setListeningError("Could not forget your listening history.");
+    } finally {
+      setListeningClearing(false);
+    }
+  }
+
+  function shiftDiaryMonth(offset: number) {
+    setDiaryMonth(
+      (prev) => new Date(prev.getFullYear(), prev.getMonth() + offset, 1)
+    );
+  }
+
+  function formatDay(value: string) {
+    const [year, month, day] = value.split("-").map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString();
+  }
+
+  async function handleDiaryDelete(entryId: number) {
+    setDiaryDeleting(entryId);
+    setDiaryError(null);
+    try {
+      await deleteDiaryEntry(entryId).catch((err) => {
+        if (!isApiError(err, "diary_entry_not_found")) {
+          throw err;
+        }
       });
+      setDiaryEntries((prev) => prev.filter((entry) => entry.id !== entryId));
+    } catch (err) {
+      setDiaryError("Could not remove that entry.");
+    } finally {
+      setDiaryDeleting(null);
+    }
+  }
 
-      if (response.status === 401) {
-        setFollowActionError("Sign in to follow users.");
-        return;
-      }
+  async function handleDeleteAccount() {
+    if (
+      !window.confirm(
+        "Delete your account? Your reviews, lists and follows are removed for good. Download your data first if you want a copy."
+      )
+    ) {
+      return;
+    }
 
-      if (!response.ok) {
-        setFollowActionError("Could not follow user.");
-        return;
-      }
+    setAccountDeleting(true);
+    setAccountError(null);
+    try {
+      await deleteAccount();
+      clearSession();
+      router.push("/");
+    } catch (err) {
+      setAccountError("Could not delete your account.");
+      setAccountDeleting(false);
+    }
+  }
 
+  async function handleFollowUser(targetId: number) {
+    setFollowUpdatingId(targetId);
+    setFollowActionError(null);
+    try {
+      await followUser(targetId);
       setFollowingIds((prev) =>
         prev.includes(targetId) ? prev : [...prev, targetId]
       );
@@ -857,7 +1039,11 @@ export default function ProfilePage() {
         );
       }
     } catch (err) {
-      setFollowActionError("Could not follow user.");
+      setFollowActionError(
+        isApiError(err, "unauthorized")
+          ? "Sign in to follow users."
+          : "Could not follow user."
+      );
     } finally {
       setFollowUpdatingId(null);
     }
@@ -867,25 +1053,15 @@ export default function ProfilePage() {
     setFollowUpdatingId(targetId);
     setFollowActionError(null);
     try {
-      const response = await fetch(`${apiUrl}/users/${targetId}/follow`, {
-        method: "DELETE",
-        credentials: "include",
-      });
-
-      if (response.status === 401) {
-        setFollowActionError("Sign in to unfollow users.");
-        return;
-      }
-
-      if (!response.ok) {
-        setFollowActionError("Could not unfollow user.");
-        return;
-      }
-
+      await unfollowUser(targetId);
       setFollowingIds((prev) => prev.filter((id) => id !== targetId));
       setFollowing((prev) => prev.filter((person) => person.id !== targetId));
     } catch (err) {
-      setFollowActionError("Could not unfollow user.");
+      setFollowActionError(
+        isApiError(err, "unauthorized")
+          ? "Sign in to unfollow users."
+          : "Could not unfollow user."
+      );
     } finally {
       setFollowUpdatingId(null);
     }
@@ -921,6 +1097,12 @@ export default function ProfilePage() {
               <span className="rounded-none border border-[color:var(--border)] px-4 py-2 text-[var(--foreground)]">
                 Profile
               </span>
+              <Link
+                href="/backlog"
+                className="rounded-none border border-[color:var(--border)] px-4 py-2 text-[var(--foreground)] transition hover:border-[var(--accent)]"
+              >
+                Listen later
+              </Link>
             </nav>
             <Link
               href="/"
@@ -934,24 +1116,6 @@ export default function ProfilePage() {
           </p>
         </header>
 
-        {!authChecked && (
-          <div className="border border-[color:var(--border)] p-6 text-sm text-[var(--muted)]">
-            Checking session...
-          </div>
-        )}
-
-        {authChecked && !user && (
-          <div className="border border-[color:var(--border)] p-6 text-sm text-[var(--foreground)]">
-            <p>You need to sign in to view your profile.</p>
-            <a
-              className="mt-4 inline-flex items-center justify-center rounded-none bg-[var(--accent)] px-5 py-2 text-sm font-semibold text-[#0a140c] transition hover:bg-[var(--accent-strong)]"
-              href={`${apiUrl}/auth/spotify`}
-            >
-              Continue with Spotify
-            </a>
-          </div>
-        )}
-
         {user && (
           <section className="border border-[color:var(--border)] p-6">
             <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
@@ -962,6 +1126,12 @@ export default function ProfilePage() {
                 <p className="text-lg font-semibold text-[var(--foreground)]">
                   {user.display_name || user.spotify_id}
                 </p>
+                <Link
+                  href={`/users/${user.id}`}
+                  className="text-xs text-[var(--accent-strong)] hover:text-[var(--accent)]"
+                >
+                  View public profile
+                </Link>
               </div>
               <div className="flex gap-6 text-sm text-[var(--muted)]">
                 <span>{reviews.length} reviews</span>
@@ -1379,9 +1549,12 @@ export default function ProfilePage() {
                               )}
                             </div>
                             <div>
-                              <p className="text-sm font-semibold text-[var(--foreground)]">
+                              <Link
+                                href={`/users/${person.id}`}
+                                className="block text-sm font-semibold text-[var(--foreground)] hover:text-[var(--accent)]"
+                              >
                                 {getUserLabel(person)}
-                              </p>
+                              </Link>
                               <p className="text-xs text-[var(--muted)]">
                                 {person.spotify_id}
                               </p>
@@ -1446,9 +1619,12 @@ export default function ProfilePage() {
                             )}
                           </div>
                           <div>
-                            <p className="text-sm font-semibold text-[var(--foreground)]">
+                            <Link
+                              href={`/users/${person.id}`}
+                              className="block text-sm font-semibold text-[var(--foreground)] hover:text-[var(--accent)]"
+                            >
                               {getUserLabel(person)}
-                            </p>
+                            </Link>
                             <p className="text-xs text-[var(--muted)]">
                               {person.spotify_id}
                             </p>
@@ -1467,6 +1643,16 @@ export default function ProfilePage() {
                       </div>
                     ))}
                   </div>
+                  {followingCursor && (
+                    <button
+                      type="button"
+                      className="border border-[color:var(--border)] px-3 py-1 text-xs uppercase tracking-[0.2em] text-[var(--foreground)] transition hover:border-[var(--accent)] disabled:cursor-not-allowed disabled:text-[var(--muted-strong)]"
+                      onClick={() => handleLoadMore("following")}
+                      disabled={loadingMore !== null}
+                    >
+                      {loadingMore === "following" ? "Loading..." : "Load more"}
+                    </button>
+                  )}
                 </div>
 
                 <div className="space-y-2">
@@ -1506,9 +1692,12 @@ export default function ProfilePage() {
                               )}
                             </div>
                             <div>
-                              <p className="text-sm font-semibold text-[var(--foreground)]">
+                              <Link
+                                href={`/users/${person.id}`}
+                                className="block text-sm font-semibold text-[var(--foreground)] hover:text-[var(--accent)]"
+                              >
                                 {getUserLabel(person)}
-                              </p>
+                              </Link>
                               <p className="text-xs text-[var(--muted)]">
                                 {person.spotify_id}
                               </p>
@@ -1534,6 +1723,16 @@ export default function ProfilePage() {
                       );
                     })}
                   </div>
+                  {followersCursor && (
+                    <button
+                      type="button"
+                      className="border border-[color:var(--border)] px-3 py-1 text-xs uppercase tracking-[0.2em] text-[var(--foreground)] transition hover:border-[var(--accent)] disabled:cursor-not-allowed disabled:text-[var(--muted-strong)]"
+                      onClick={() => handleLoadMore("followers")}
+                      disabled={loadingMore !== null}
+                    >
+                      {loadingMore === "followers" ? "Loading..." : "Load more"}
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
@@ -1625,7 +1824,8 @@ export default function ProfilePage() {
                     </div>
                   </div>
                   <div className="mt-2 text-[10px] uppercase tracking-[0.3em] text-[var(--muted-strong)]">
-                    {list.is_ranked ? "Ranked list" : "Unranked list"}
+                    {list.is_ranked ? "Ranked list" : "Unranked list"} ·{" "}
+                    {list.visibility}
                   </div>
 
                   <Link href={`/lists/${list.id}`} className="mt-4 block">
@@ -1661,6 +1861,16 @@ export default function ProfilePage() {
                 </div>
               ))}
             </div>
+            {listsCursor && (
+              <button
+                type="button"
+                className="rounded-none border border-[color:var(--border)] px-4 py-2 text-sm text-[var(--foreground)] transition hover:border-[var(--accent)] disabled:cursor-not-allowed disabled:text-[var(--muted-strong)]"
+                onClick={() => handleLoadMore("lists")}
+                disabled={loadingMore !== null}
+              >
+                {loadingMore === "lists" ? "Loading..." : "Load more"}
+              </button>
+            )}
           </section>
         )}
 
@@ -1912,6 +2122,390 @@ export default function ProfilePage() {
                 );
               })}
             </div>
+            {reviewsCursor && (
+              <button
+                type="button"
+                className="rounded-none border border-[color:var(--border)] px-4 py-2 text-sm text-[var(--foreground)] transition hover:border-[var(--accent)] disabled:cursor-not-allowed disabled:text-[var(--muted-strong)]"
+                onClick={() => handleLoadMore("reviews")}
+                disabled={loadingMore !== null}
+              >
+                {loadingMore === "reviews" ? "Loading..." : "Load more"}
+              </button>
+            )}
+          </section>
+        )}
+
+        {user && (
+          <section className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <h2 className="text-lg font-semibold text-[var(--foreground)]">
+                Diary
+              </h2>
+              <div className="flex items-center gap-3 text-sm">
+                <button
+                  type="button"
+                  className="rounded-none border border-[color:var(--border)] px-3 py-1 text-[var(--foreground)] transition hover:border-[var(--accent)]"
+                  onClick={() => shiftDiaryMonth(-1)}
+                  aria-label="Previous month"
+                >
+                  ‹
+                </button>
+                <span className="min-w-[9rem] text-center text-[var(--foreground)]">
+                  {diaryMonth.toLocaleDateString(undefined, {
+                    month: "long",
+                    year: "numeric",
+                  })}
+                </span>
+                <button
+                  type="button"
+                  className="rounded-none border border-[color:var(--border)] px-3 py-1 text-[var(--foreground)] transition hover:border-[var(--accent)]"
+                  onClick={() => shiftDiaryMonth(1)}
+                  aria-label="Next month"
+                >
+                  ›
+                </button>
+              </div>
+            </div>
+
+            {diaryError && (
+              <div className="border border-red-500/40 bg-red-500/10 p-4 text-xs text-red-200">
+                {diaryError}
+              </div>
+            )}
+
+            <div className="grid grid-cols-7 gap-1 text-xs">
+              {weekdays.map((weekday) => (
+                <span
+                  key={weekday}
+                  className="px-1 pb-1 text-[10px] uppercase tracking-[0.2em] text-[var(--muted-strong)]"
+                >
+                  {weekday}
+                </span>
+              ))}
+              {calendarDays.map((date, index) => {
+                if (!date) {
+                  return <div key={`pad-${index}`} />;
+                }
+                const entries = diaryByDay[toDay(date)] || [];
+                return (
+                  <div
+                    key={toDay(date)}
+                    className={`min-h-[4.5rem] border p-1 ${
+                      entries.length > 0
+                        ? "border-[var(--accent)]"
+                        : "border-[color:var(--border)]"
+                    }`}
+                  >
+                    <span className="text-[10px] text-[var(--muted)]">
+                      {date.getDate()}
+                    </span>
+                    <div className="mt-1 flex flex-wrap gap-1">
+                      {entries.slice(0, 3).map((entry) => (
+                        <Link
+                          key={entry.id}
+                          href={`/albums/${entry.spotify_album_id}`}
+                          title={entry.album?.name || entry.spotify_album_id}
+                          className="block h-7 w-7 overflow-hidden border border-[color:var(--border)] bg-[#0b0d12]"
+                        >
+                          {entry.album?.image ? (
+                            <img
+                              src={entry.album.image}
+                              alt={`${entry.album.name} cover`}
+                              className="h-full w-full object-cover"
+                            />
+                          ) : null}
+                        </Link>
+                      ))}
+                      {entries.length > 3 && (
+                        <span className="text-[10px] text-[var(--muted)]">
+                          +{entries.length - 3}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+
+            {diaryLoading && (
+              <p className="text-sm text-[var(--muted)]">Loading diary...</p>
+            )}
+
+            {!diaryLoading && !diaryError && diaryEntries.length === 0 && (
+              <div className="border border-[color:var(--border)] p-6 text-sm text-[var(--muted)]">
+                Nothing logged this month. Log a listen from any album page.
+              </div>
+            )}
+
+            <div className="space-y-2">
+              {diaryEntries.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="flex flex-wrap items-center justify-between gap-3 border border-[color:var(--border)] p-3 text-sm"
+                >
+                  <Link
+                    href={`/albums/${entry.spotify_album_id}`}
+                    className="min-w-0 hover:text-[var(--accent-strong)]"
+                  >
+                    <p className="truncate text-[var(--foreground)]">
+                      {entry.album?.name || "Album"}
+                      {entry.is_relisten && (
+                        <span className="ml-2 text-[10px] uppercase tracking-[0.2em] text-[var(--accent-strong)]">
+                          Relisten
+                        </span>
+                      )}
+                    </p>
+                    <p className="truncate text-xs text-[var(--muted)]">
+                      {formatDay(entry.listened_on)} ·{" "}
+                      {entry.album?.artists?.join(", ") || entry.spotify_album_id}
+                      {entry.review ? ` · Rated ${entry.review.rating}/10` : ""}
+                    </p>
+                  </Link>
+                  <button
+                    type="button"
+                    className="rounded-none border border-[color:var(--border)] px-3 py-2 text-xs text-[var(--foreground)] transition hover:border-[var(--accent)] disabled:cursor-not-allowed disabled:text-[var(--muted-strong)]"
+                    onClick={() => handleDiaryDelete(entry.id)}
+                    disabled={diaryDeleting !== null}
+                  >
+                    {diaryDeleting === entry.id ? "Removing..." : "Remove"}
+                  </button>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {user && (
+          <section className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-[var(--foreground)]">
+                Listening history
+              </h2>
+              {listening && listening.plays > 0 && (
+                <button
+                  type="button"
+                  className="border border-red-500/40 px-3 py-2 text-xs text-red-200 transition hover:border-red-500 disabled:cursor-not-allowed"
+                  onClick={handleListeningClear}
+                  disabled={listeningClearing}
+                >
+                  {listeningClearing ? "Forgetting..." : "Forget history"}
+                </button>
+              )}
+            </div>
+
+            <form
+              onSubmit={handleListeningUpload}
+              className="space-y-3 border border-[color:var(--border)] p-4 text-sm"
+            >
+              <p className="text-[var(--muted)]">
+                Upload the Streaming_History_Audio files from Spotify&apos;s
+                extended streaming history download. Plays are grouped into
+                albums by day; uploading the same files again adds nothing.
+              </p>
+              {listening && listening.plays > 0 && (
+                <p className="text-xs text-[var(--muted)]">
+                  {listening.plays} plays across {listening.albums} albums
+                  {listening.first_listened_at && listening.last_listened_at
+                    ? `, ${formatDate(listening.first_listened_at)} to ${formatDate(listening.last_listened_at)}`
+                    : ""}
+                  {listening.pending_albums > 0
+                    ? ` · Matching ${listening.pending_albums} albums...`
+                    : ""}
+                  {listening.unmatched_albums > 0
+                    ? ` · ${listening.unmatched_albums} not found on Spotify`
+                    : ""}
+                </p>
+              )}
+              <div className="flex flex-wrap items-center gap-3">
+                <input
+                  type="file"
+                  accept=".json,application/json"
+                  multiple
+                  className="flex-1 rounded-none border border-[color:var(--border)] bg-[color:var(--surface-strong)] px-4 py-2 text-xs text-[var(--foreground)]"
+                  onChange={(event) =>
+                    setListeningFiles(Array.from(event.target.files || []))
+                  }
+                />
+                <button
+                  type="submit"
+                  className="rounded-none bg-[var(--accent)] px-4 py-2 text-xs font-semibold text-[#0a140c] transition hover:bg-[var(--accent-strong)] disabled:cursor-not-allowed disabled:bg-[color:var(--surface-strong)] disabled:text-[var(--muted)]"
+                  disabled={listeningUploading}
+                >
+                  {listeningUploading ? "Uploading..." : "Upload"}
+                </button>
+              </div>
+            </form>
+
+            {listeningError && (
+              <div className="border border-red-500/40 bg-red-500/10 p-4 text-xs text-red-200">
+                {listeningError}
+              </div>
+            )}
+
+            {unratedListens.length > 0 && (
+              <div className="space-y-3">
+                <p className="text-xs uppercase tracking-[0.3em] text-[var(--muted)]">
+                  Listened but not rated
+                </p>
+                <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+                  {unratedListens.map((entry) => (
+                    <Link
+                      key={entry.spotify_album_id}
+                      href={`/albums/${entry.spotify_album_id}`}
+                      className="flex items-center gap-3 border border-[color:var(--border)] p-3 transition hover:border-[var(--accent)]"
+                    >
+                      <div className="h-12 w-12 shrink-0 overflow-hidden border border-[color:var(--border)] bg-[#0b0d12]">
+                        {entry.album?.image ? (
+                          <img
+                            src={entry.album.image}
+                            alt={`${entry.album.name} cover`}
+                            className="h-full w-full object-cover"
+                          />
+                        ) : null}
+                      </div>
+                      <div className="min-w-0">
+                        <p className="truncate text-sm font-semibold text-[var(--foreground)]">
+                          {entry.album?.name || "Album"}
+                        </p>
+                        <p className="truncate text-xs text-[var(--muted)]">
+                          {entry.album?.artists?.join(", ") || entry.spotify_album_id}
+                        </p>
+                        <p className="text-[10px] uppercase tracking-[0.2em] text-[var(--muted-strong)]">
+                          {entry.play_count} plays · Last{" "}
+                          {formatDate(entry.last_listened_at)}
+                        </p>
+                      </div>
+                    </Link>
+                  ))}
+                </div>
+              </div>
+            )}
+          </section>
+        )}
+
+        {user && (
+          <section className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-[var(--foreground)]">
+                Sessions
+              </h2>
+              <button
+                type="button"
+                className="border border-red-500/40 px-3 py-2 text-xs text-red-200 transition hover:border-red-500 disabled:cursor-not-allowed"
+                onClick={handleRevokeAllSessions}
+                disabled={sessionRevoking !== null}
+              >
+                {sessionRevoking === "all"
+                  ? "Signing out..."
+                  : "Log out everywhere"}
+              </button>
+            </div>
+
+            {sessionsLoading && (
+              <div className="border border-[color:var(--border)] p-6 text-sm text-[var(--muted)]">
+                Loading sessions...
+              </div>
+            )}
+
+            {sessionsError && (
+              <div className="border border-red-500/40 bg-red-500/10 p-4 text-xs text-red-200">
+                {sessionsError}
+              </div>
+            )}
+
+            <div className="space-y-3">
+              {sessions.map((session) => (
+                <div
+                  key={session.id}
+                  className="flex flex-wrap items-center justify-between gap-3 border border-[color:var(--border)] p-4 text-sm"
+                >
+                  <div className="space-y-1">
+                    <p className="text-[var(--foreground)]">
+                      {session.user_agent || "Unknown device"}
+                      {session.current && (
+                        <span className="ml-2 text-xs uppercase tracking-[0.2em] text-[var(--accent-strong)]">
+                          This device
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-[var(--muted)]">
+                      {session.ip ? `${session.ip} · ` : ""}Signed in{" "}
+                      {formatDate(session.created_at)} · Last active{" "}
+                      {formatDate(session.last_seen_at)}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    className="rounded-none border border-[color:var(--border)] px-3 py-2 text-xs text-[var(--foreground)] transition hover:border-[var(--accent)] disabled:cursor-not-allowed disabled:text-[var(--muted-strong)]"
+                    onClick={() => handleRevokeSession(session)}
+                    disabled={sessionRevoking !== null}
+                  >
+                    {sessionRevoking === session.id ? "Signing out..." : "Sign out"}
+                  </button>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        {user && (
+          <section className="space-y-4">
+            <h2 className="text-lg font-semibold text-[var(--foreground)]">
+              Your data
+            </h2>
+            <div className="space-y-3 border border-[color:var(--border)] p-4 text-sm">
+              <p className="text-[var(--muted)]">
+                Download your profile, reviews, lists, follows, diary and
+                listening history. Album names are included alongside the
+                Spotify ids. Ratings kept elsewhere can be imported from a
+                RateYourMusic export or a CSV file.
+              </p>
+              <div className="flex flex-wrap gap-3">
+                <a
+                  href={exportUrl("json")}
+                  className="rounded-none border border-[color:var(--border)] px-3 py-2 text-xs text-[var(--foreground)] transition hover:border-[var(--accent)]"
+                >
+                  Everything (JSON)
+                </a>
+                <a
+                  href={exportUrl("reviews.csv")}
+                  className="rounded-none border border-[color:var(--border)] px-3 py-2 text-xs text-[var(--foreground)] transition hover:border-[var(--accent)]"
+                >
+                  Reviews (CSV)
+                </a>
+                <a
+                  href={exportUrl("lists.csv")}
+                  className="rounded-none border border-[color:var(--border)] px-3 py-2 text-xs text-[var(--foreground)] transition hover:border-[var(--accent)]"
+                >
+                  Lists (CSV)
+                </a>
+                <Link
+                  href="/imports"
+                  className="rounded-none border border-[color:var(--border)] px-3 py-2 text-xs text-[var(--foreground)] transition hover:border-[var(--accent)]"
+                >
+                  Import ratings
+                </Link>
+              </div>
+            </div>
+            <div className="flex flex-wrap items-center justify-between gap-3 border border-red-500/40 p-4 text-sm">
+              <p className="text-[var(--muted)]">
+                Deleting your account removes everything above and signs you
+                out on every device.
+              </p>
+              <button
+                type="button"
+                className="border border-red-500/40 px-3 py-2 text-xs text-red-200 transition hover:border-red-500 disabled:cursor-not-allowed"
+                onClick={handleDeleteAccount}
+                disabled={accountDeleting}
+              >
+                {accountDeleting ? "Deleting..." : "Delete account"}
+              </button>
+            </div>
+            {accountError && (
+              <div className="border border-red-500/40 bg-red-500/10 p-4 text-xs text-red-200">
+                {accountError}
+              </div>
+            )}
           </section>
         )}
       </main>
@@ -0,0 +1,686 @@
+"use client";
+/* eslint-disable @next/next/no-img-element */
+
+import Link from "next/link";
+import { useEffect, useMemo, useState } from "react";
+import { useParams } from "next/navigation";
+import {
+  followUser,
+  getAlbumCards,
+  getUser,
+  getUserLists,
+  getUserReviews,
+  isAbortError,
+  isApiError,
+  unfollowUser,
+  type AlbumCard,
+  type List,
+  type PublicProfile,
+  type Review,
+} from "@/lib/api";
+import { SignInLink, useSession } from "@/lib/session";
+
+export default function UserPage() {
+  const params = useParams();
+  const rawId = params?.id;
+  const userId = Array.isArray(rawId) ? rawId[0] : rawId;
+
+  const { user, status } = useSession();
+  const [profile, setProfile] = useState<PublicProfile | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reviews, setReviews] = useState<Review[]>([]);
+  const [pinnedReviews, setPinnedReviews] = useState<Review[]>([]);
+  const [reviewsLoading, setReviewsLoading] = useState(true);
+  const [lists, setLists] = useState<List[]>([]);
+  const [listsLoading, setListsLoading] = useState(true);
+  const [albumMap, setAlbumMap] = useState<Record<string, AlbumCard>>({});
+  const [followSaving, setFollowSaving] = useState(false);
+  const [followError, setFollowError] = useState<string | null>(null);
+  const [reviewsCursor, setReviewsCursor] = useState<string | null>(null);
+  const [listsCursor, setListsCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState<"reviews" | "lists" | null>(
+    null
+  );
+  const [loadMoreError, setLoadMoreError] = useState<string | null>(null);
+
+  const isSelf = !!user && !!profile && user.id === profile.id;
+  const profileName = profile?.display_name || profile?.spotify_id || "User";
+  const profileInitial = profileName.charAt(0).toUpperCase();
+
+  const recentReviews = useMemo(() => {
+    return reviews.filter((review) => !review.is_pinned);
+  }, [reviews]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    async function loadProfile() {
+      if (!userId) {
+        setError("Missing user id.");
+        setLoading(false);
+        return;
+      }
+
+      setLoading(true);
+      setError(null);
+      try {
+        setProfile(await getUser(userId, { signal: controller.signal }));
+      } catch (err) {
+        if (!isAbortError(err)) {
+          setError(
+            isApiError(err) && err.status === 404
+              ? "User not found."
+              : "Could not load user."
+          );
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    }
+
+    loadProfile();
+    return () => {
+      controller.abort();
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    async function loadReviews() {
+      if (!userId) {
+        setReviewsLoading(false);
+        return;
+      }
+
+      // Either half failing just leaves that section empty.
+      const emptyPage = (err: unknown) => {
+        if (isAbortError(err)) {
+          throw err;
+        }
+        return { reviews: [] as Review[], next_cursor: null };
+      };
+
+      setReviewsLoading(true);
+      try {
+        const [recentData, pinnedData] = await Promise.all([
+          getUserReviews(userId, {}, { signal: controller.signal }).catch(emptyPage),
+          getUserReviews(
+            userId,
+            { pinned: true, limit: 3 },
+            { signal: controller.signal }
+          ).catch(emptyPage),
+        ]);
+
+        setReviews(recentData.reviews);
+        setReviewsCursor(recentData.next_cursor);
+        setPinnedReviews(pinnedData.reviews);
+      } catch (err) {
+        // aborted; a newer load owns the state
+      } finally {
+        if (!controller.signal.aborted) {
+          setReviewsLoading(false);
+        }
+      }
+    }
+
+    loadReviews();
+    return () => {
+      controller.abort();
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    async function loadLists() {
+      if (!userId) {
+        setListsLoading(false);
+        return;
+      }
+
+      setListsLoading(true);
+      try {
+        const data = await getUserLists(userId, {}, { signal: controller.signal });
+        setLists(data.lists);
+        setListsCursor(data.next_cursor);
+      } catch (err) {
+        if (!isAbortError(err)) {
+          setLists([]);
+        }
+      } finally {
+        if (!controller.signal.aborted) {
+          setListsLoading(false);
+        }
+      }
+    }
+
+    loadLists();
+    return () => {
+      controller.abort();
+    };
+  }, [userId]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    async function loadAlbums() {
+      const inlineAlbums = [
+        ...[...reviews, ...pinnedReviews].map((review) => review.album),
+        ...lists.flatMap((list) => list.items.map((item) => item.album)),
+        ...(profile?.favorite_albums || []),
+      ].filter(
+        (album): album is AlbumCard => !!album && !albumMap[album.id]
+      );
+      if (inlineAlbums.length > 0) {
+        setAlbumMap((prev) => {
+          const next = { ...prev };
+          inlineAlbums.forEach((album) => {
+            next[album.id] = album;
+          });
+          return next;
+        });
+        return;
+      }
+
+      const reviewIds = [...reviews, ...pinnedReviews].map(
+        (review) => review.spotify_album_id
+      );
+      const listIds = lists.flatMap((list) =>
+        list.items.slice(0, 4).map((item) => item.spotify_album_id)
+      );
+      const favoriteIds = profile?.favorite_album_ids || [];
+
+      const missingIds = [...reviewIds, ...listIds, ...favoriteIds].filter(
+        (id) => !albumMap[id]
+      );
+
+      if (missingIds.length === 0) {
+        return;
+      }
+
+      try {
+        const albums = await getAlbumCards(missingIds, {
+          signal: controller.signal,
+        });
+        if (albums.length === 0) {
+          return;
+        }
+        setAlbumMap((prev) => {
+          const next = { ...prev };
+          albums.forEach((album) => {
+            next[album.id] = album;
+          });
+          return next;
+        });
+      } catch (err) {
+        // ignore album enrichment errors
+      }
+    }
+
+    loadAlbums();
+    return () => {
+      controller.abort();
+    };
+  }, [reviews, pinnedReviews, lists, profile, albumMap]);
+
+  function formatDate(value: string) {
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      return value;
+    }
+    return date.toLocaleDateString();
+  }
+
+  async function handleFollowToggle() {
+    if (!profile) {
+      return;
+    }
+
+    const nextFollowing = !profile.is_following;
+    setFollowSaving(true);
+    setFollowError(null);
+    try {
+      await (nextFollowing ? followUser(profile.id) : unfollowUser(profile.id));
+      setProfile((prev) =>
+        prev
+          ? {
+              ...prev,
+              is_following: nextFollowing,
+              followers_count: Math.max(
+                prev.followers_count + (nextFollowing ? 1 : -1),
+                0
+              ),
+            }
+          : prev
+      );
+    } catch (err) {
+      if (isApiError(err, "unauthorized")) {
+        setFollowError("Sign in to follow users.");
+        return;
+      }
+      setFollowError(
+        nextFollowing ? "Could not follow user." : "Could not unfollow user."
+      );
+    } finally {
+      setFollowSaving(false);
+    }
+  }
+
+  async function handleLoadMore(kind: "reviews" | "lists") {
+    const cursor = kind === "reviews" ? reviewsCursor : listsCursor;
+    if (!userId || !cursor || loadingMore) {
+      return;
+    }
+
+    setLoadingMore(kind);
+    setLoadMoreError(null);
+    try {
+      if (kind === "reviews") {
+        const data = await getUserReviews(userId, { cursor });
+        setReviews((prev) => [...prev, ...data.reviews]);
+        setReviewsCursor(data.next_cursor);
+      } else {
+        const data = await getUserLists(userId, { cursor });
+        setLists((prev) => [...prev, ...data.lists]);
+        setListsCursor(data.next_cursor);
+      }
+    } catch (err) {
+      setLoadMoreError(`Could not load more ${kind}.`);
+    } finally {
+      setLoadingMore(null);
+    }
+  }
+
+  function renderReview(review: Review, keyPrefix: string) {
+    const album = albumMap[review.spotify_album_id];
+    return (
+      <div
+        key={`${keyPrefix}-${review.id}`}
+        className="flex flex-col gap-4 border border-[color:var(--border)] p-5 md:flex-row md:items-start"
+      >
+        <div className="relative h-28 w-28 flex-shrink-0 overflow-hidden border border-[color:var(--border)] bg-[#0b0d12]">
+          {album?.image ? (
+            <img
+              src={album.image}
+              alt={`${album.name} cover`}
+              className="absolute inset-0 h-full w-full object-cover"
+            />
+          ) : null}
+        </div>
+        <div className="flex-1 space-y-2">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div>
+              <p className="text-sm font-semibold text-[var(--foreground)]">
+                {album?.name || "Album"}
+              </p>
+              <p className="text-xs text-[var(--muted)]">
+                {album?.artists?.join(", ") || review.spotify_album_id}
+              </p>
+            </div>
+            <span className="text-xs text-[var(--muted)]">
+              {formatDate(review.created_at)}
+            </span>
+          </div>
+          <div className="text-xs uppercase tracking-[0.2em] text-[var(--accent-strong)]">
+            Rating {review.rating}/10
+          </div>
+          {review.body && (
+            <p className="text-sm text-[var(--foreground)]">{review.body}</p>
+          )}
+          <Link
+            href={`/albums/${review.spotify_album_id}`}
+            className="text-xs text-[var(--accent-strong)] hover:text-[var(--accent)]"
+          >
+            View album
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen text-[color:var(--foreground)]">
+      <main className="mx-auto flex w-full max-w-6xl flex-col gap-8 px-6 py-12">
+        <header className="flex flex-col gap-6 border-b border-[color:var(--border)] pb-6">
+          <div className="flex flex-wrap items-center justify-between gap-6">
+            <div className="flex items-center gap-3">
+              <div className="flex h-11 w-11 items-center justify-center rounded-none bg-[color:var(--accent)] text-lg font-bold text-[#0a140c]">
+                J
+              </div>
+              <div>
+                <p className="text-xs uppercase tracking-[0.4em] text-[var(--muted)]">
+                  Jukebox
+                </p>
+                <p className="font-mono text-xl font-semibold tracking-tight">
+                  Member profile
+                </p>
+              </div>
+            </div>
+            <nav className="flex flex-wrap items-center gap-3 text-sm text-[var(--muted)]">
+              <Link
+                href="/"
+                className="rounded-none border border-[color:var(--border)] px-4 py-2 text-[var(--foreground)] transition hover:border-[var(--accent)]"
+              >
+                Search
+              </Link>
+              <Link
+                href="/profile"
+                className="rounded-none border border-[color:var(--border)] px-4 py-2 text-[var(--foreground)] transition hover:border-[var(--accent)]"
+              >
+                Profile
+              </Link>
+            </nav>
+            <div className="flex flex-wrap items-center gap-3">
+              {status === "loading" && (
+                <span className="text-xs text-[var(--muted)]">
+                  Checking session...
+                </span>
+              )}
+              {status === "unauthenticated" && (
+                <SignInLink className="inline-flex items-center justify-center rounded-none bg-[var(--accent)] px-4 py-2 text-xs font-semibold text-[#0a140c] transition hover:bg-[var(--accent-strong)]">
+                  Continue with Spotify
+                </SignInLink>
+              )}
+            </div>
+          </div>
+        </header>
+
+        {loading && (
+          <div className="border border-[color:var(--border)] p-8 text-sm text-[var(--muted)]">
+            Loading profile...
+          </div>
+        )}
+
+        {error && (
+          <div className="border border-red-500/40 bg-red-500/10 p-6 text-sm text-red-200">
+            {error}
+          </div>
+        )}
+
+        {!loading && !error && profile && (
+          <section className="space-y-6 border border-[color:var(--border)] p-6">
+            <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+              <div className="flex items-center gap-4">
+                <div className="relative h-20 w-20 overflow-hidden border border-[color:var(--border)] bg-[color:var(--surface-strong)]">
+                  {profile.avatar_url ? (
+                    <img
+                      src={profile.avatar_url}
+                      alt={`${profileName} avatar`}
+                      className="h-full w-full object-cover"
+                    />
+                  ) : (
+                    <div className="flex h-full w-full items-center justify-center text-lg font-semibold text-[var(--muted-strong)]">
+                      {profileInitial}
+                    </div>
+                  )}
+                </div>
+                <div>
+                  <p className="text-lg font-semibold text-[var(--foreground)]">
+                    {profileName}
+                  </p>
+                  <p className="text-xs text-[var(--muted)]">
+                    {profile.spotify_id}
+                  </p>
+                  <div className="mt-2 flex flex-wrap gap-4 text-xs uppercase tracking-[0.2em] text-[var(--muted)]">
+                    <span>{profile.review_count} reviews</span>
+                    <span>{profile.followers_count} followers</span>
+                    <span>{profile.following_count} following</span>
+                  </div>
+                </div>
+              </div>
+              {isSelf ? (
+                <Link
+                  href="/profile"
+                  className="rounded-none border border-[color:var(--border)] px-4 py-2 text-xs text-[var(--foreground)] transition hover:border-[var(--accent)]"
+                >
+                  Edit your profile
+                </Link>
+              ) : (
+                <button
+                  type="button"
+                  className={`rounded-none px-5 py-2 text-xs font-semibold uppercase tracking-[0.2em] transition disabled:cursor-not-allowed disabled:text-[var(--muted-strong)] ${
+                    profile.is_following
+                      ? "border border-[color:var(--border)] text-[var(--foreground)] hover:border-[var(--accent)]"
+                      : "bg-[var(--accent)] text-[#0a140c] hover:bg-[var(--accent-strong)]"
+                  }`}
+                  onClick={handleFollowToggle}
+                  disabled={followSaving || !user}
+                >
+                  {followSaving
+                    ? "Saving..."
+                    : profile.is_following
+                    ? "Unfollow"
+                    : "Follow"}
+                </button>
+              )}
+            </div>
+
+            {followError && (
+              <div className="border border-red-500/40 bg-red-500/10 px-4 py-3 text-xs text-red-200">
+                {followError}
+              </div>
+            )}
+
+            <div className="border border-[color:var(--border)] p-4 text-sm text-[var(--foreground)]">
+              {profile.bio ? profile.bio : "No bio yet."}
+            </div>
+
+            <div className="grid gap-6 lg:grid-cols-2">
+              <div className="space-y-3">
+                <p className="text-xs uppercase tracking-[0.3em] text-[var(--muted)]">
+                  Favorite genres
+                </p>
+                {profile.favorite_genres.length === 0 ? (
+                  <p className="text-sm text-[var(--muted)]">
+                    No favorite genres yet.
+                  </p>
+                ) : (
+                  <div className="flex flex-wrap gap-2 text-[10px] uppercase tracking-[0.3em] text-[var(--muted-strong)]">
+                    {profile.favorite_genres.map((genre) => (
+                      <span
+                        key={genre}
+                        className="border border-[color:var(--border)] px-2 py-1"
+                      >
+                        {genre}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+              <div className="space-y-3">
+                <p className="text-xs uppercase tracking-[0.3em] text-[var(--muted)]">
+                  Top albums
+                </p>
+                {profile.favorite_album_ids.length === 0 ? (
+                  <p className="text-sm text-[var(--muted)]">
+                    No favorite albums yet.
+                  </p>
+                ) : (
+                  <div className="grid gap-3 sm:grid-cols-3">
+                    {profile.favorite_album_ids.map((albumId, index) => {
+                      const album = albumMap[albumId];
+                      return (
+                        <Link
+                          key={albumId}
+                          href={`/albums/${albumId}`}
+                          className="border border-[color:var(--border)] p-3 transition hover:border-[var(--accent)]"
+                        >
+                          <div className="text-[10px] uppercase tracking-[0.3em] text-[var(--muted-strong)]">
+                            #{index + 1}
+                          </div>
+                          <div className="mt-2 flex items-center gap-3">
+                            <div className="h-12 w-12 overflow-hidden border border-[color:var(--border)] bg-[#0b0d12]">
+                              {album?.image ? (
+                                <img
+                                  src={album.image}
+                                  alt={`${album.name} cover`}
+                                  className="h-full w-full object-cover"
+                                />
+                              ) : null}
+                            </div>
+                            <div>
+                              <p className="text-sm font-semibold text-[var(--foreground)]">
+                                {album?.name || "Album"}
+                              </p>
+                              <p className="text-xs text-[var(--muted)]">
+                                {album?.artists?.join(", ") || albumId}
+                              </p>
+                            </div>
+                          </div>
+                        </Link>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            </div>
+          </section>
+        )}
+
+        {!loading && !error && profile && (
+          <section className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-[var(--foreground)]">
+                Lists
+              </h2>
+            </div>
+
+            {listsLoading && (
+              <div className="border border-[color:var(--border)] p-6 text-sm text-[var(--muted)]">
+                Loading lists...
+              </div>
+            )}
+
+            {!listsLoading && lists.length === 0 && (
+              <div className="border border-[color:var(--border)] p-6 text-sm text-[var(--muted)]">
+                No lists yet.
+              </div>
+            )}
+
+            <div className="grid gap-4 md:grid-cols-2">
+              {lists.map((list) => (
+                <Link
+                  key={list.id}
+                  href={`/lists/${list.id}`}
+                  className="block border border-[color:var(--border)] p-5 transition hover:border-[var(--accent)]"
+                >
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div>
+                      <p className="text-sm font-semibold text-[var(--foreground)]">
+                        {list.title}
+                      </p>
+                      {list.description && (
+                        <p className="text-xs text-[var(--muted)]">
+                          {list.description}
+                        </p>
+                      )}
+                    </div>
+                    <span className="text-xs text-[var(--muted)]">
+                      {list.items.length} album
+                      {list.items.length === 1 ? "" : "s"}
+                    </span>
+                  </div>
+                  <div className="mt-2 text-[10px] uppercase tracking-[0.3em] text-[var(--muted-strong)]">
+                    {list.is_ranked ? "Ranked list" : "Unranked list"}
+                  </div>
+                  <div className="mt-4 grid grid-cols-4 gap-2">
+                    {list.items.slice(0, 4).map((item) => {
+                      const album = albumMap[item.spotify_album_id];
+                      return (
+                        <div
+                          key={item.spotify_album_id}
+                          className="relative w-full overflow-hidden border border-[color:var(--border)] bg-[#0b0d12] pb-[100%]"
+                        >
+                          {album?.image ? (
+                            <img
+                              src={album.image}
+                              alt={`${album.name} cover`}
+                              className="absolute inset-0 h-full w-full object-cover"
+                            />
+                          ) : (
+                            <div className="absolute inset-0 flex items-center justify-center text-[10px] uppercase tracking-[0.3em] text-[var(--muted-strong)]">
+                              No art
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                </Link>
+              ))}
+            </div>
+            {listsCursor && (
+              <button
+                type="button"
+                className="rounded-none border border-[color:var(--border)] px-4 py-2 text-sm text-[var(--foreground)] transition hover:border-[var(--accent)] disabled:cursor-not-allowed disabled:text-[var(--muted-strong)]"
+                onClick={() => handleLoadMore("lists")}
+                disabled={loadingMore !== null}
+              >
+                {loadingMore === "lists" ? "Loading..." : "Load more"}
+              </button>
+            )}
+          </section>
+        )}
+
+        {!loading && !error && profile && (
+          <section className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-[var(--foreground)]">
+                Reviews
+              </h2>
+              <span className="text-xs uppercase tracking-[0.2em] text-[var(--muted)]">
+                Latest first
+              </span>
+            </div>
+
+            {reviewsLoading && (
+              <div className="border border-[color:var(--border)] p-6 text-sm text-[var(--muted)]">
+                Loading reviews...
+              </div>
+            )}
+
+            {!reviewsLoading && pinnedReviews.length > 0 && (
+              <div className="space-y-3">
+                <h3 className="text-sm font-semibold text-[var(--foreground)]">
+                  Pinned reviews
+                </h3>
+                <div className="space-y-4">
+                  {pinnedReviews.map((review) => renderReview(review, "pinned"))}
+                </div>
+              </div>
+            )}
+
+            {!reviewsLoading && reviews.length === 0 && (
+              <div className="border border-[color:var(--border)] p-6 text-sm text-[var(--muted)]">
+                No reviews yet.
+              </div>
+            )}
+
+            <div className="space-y-4">
+              {recentReviews.map((review) => renderReview(review, "recent"))}
+            </div>
+            {loadMoreError && (
+              <div className="border border-red-500/40 bg-red-500/10 px-4 py-3 text-xs text-red-200">
+                {loadMoreError}
+              </div>
+            )}
+            {reviewsCursor && (
+              <button
+                type="button"
+                className="rounded-none border border-[color:var(--border)] px-4 py-2 text-sm text-[var(--foreground)] transition hover:border-[var(--accent)] disabled:cursor-not-allowed disabled:text-[var(--muted-strong)]"
+                onClick={() => handleLoadMore("reviews")}
+                disabled={loadingMore !== null}
+              >
+                {loadingMore === "reviews" ? "Loading..." : "Load more"}
+              </button>
+            )}
+          </section>
+        )}
+      </main>
+    </div>
+  );
+}
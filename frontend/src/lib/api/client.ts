@@ -0,0 +1,680 @@
+import type {
+  AlbumCard,
+  AlbumDetail,
+  AlbumReview,
+  AlbumSearchResult,
+  AlbumStats,
+  BacklogItem,
+  BacklogPriority,
+  AlbumSummary,
+  CurrentUser,
+  DiaryEntry,
+  DiaryEntryInput,
+  DiaryQuery,
+  ExportFormat,
+  FeedActivity,
+  FieldError,
+  Follow,
+  ImportCommitInput,
+  ImportCommitResult,
+  ImportDetail,
+  ImportRow,
+  ImportSummary,
+  List,
+  ListDetail,
+  ListInput,
+  ListItem,
+  ListItemOperation,
+  ListUpdate,
+  ListeningSummary,
+  ListeningUpload,
+  Page,
+  PageQuery,
+  Profile,
+  ProfileUpdate,
+  PublicProfile,
+  Review,
+  ReviewHistory,
+  ReviewInput,
+  ReviewUpdate,
+  Session,
+  TrackRating,
+  UnratedListen,
+  UpdatedReview,
+  UserSummary,
+} from "./types";
+
+export const apiUrl = process.env.NEXT_PUBLIC_API_URL || "http://127.0.0.1:4000";
+
+// Full-page navigation target for "Continue with Spotify"; not a fetch.
+export const spotifyLoginUrl = `${apiUrl}/auth/spotify`;
+
+// Codes the pages branch on. Any other backend code still comes through as a string.
+export type KnownErrorCode =
+  | "network_error"
+  | "unauthorized"
+  | "not_found"
+  | "rate_limited"
+  | "server_error"
+  | "request_failed"
+  | "album_not_found"
+  | "backlog_full"
+  | "backlog_item_not_found"
+  | "diary_entry_not_found"
+  | "invalid_album_id"
+  | "import_failed"
+  | "import_not_found"
+  | "import_not_ready"
+  | "list_not_found"
+  | "listened_on_in_future"
+  | "pinned_limit"
+  | "spotify_reauth_required"
+  | "spotify_throttled"
+  | "spotify_unavailable"
+  | "user_not_found";
+
+export type ApiErrorCode = KnownErrorCode | (string & {});
+
+// Every failed call rejects with an ApiError: `code` is the backend's `error` field, or a
+// generic code derived from the status when the body has none (network_error for no response).
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode;
+  readonly fieldErrors: FieldError[];
+  readonly retryAfterSeconds: number | null;
+
+  constructor(
+    status: number,
+    code: ApiErrorCode,
+    {
+      fieldErrors = [],
+      retryAfterSeconds = null,
+    }: { fieldErrors?: FieldError[]; retryAfterSeconds?: number | null } = {}
+  ) {
+    super(code);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+    this.fieldErrors = fieldErrors;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export function isApiError(error: unknown, code?: ApiErrorCode): error is ApiError {
+  return error instanceof ApiError && (code === undefined || error.code === code);
+}
+
+// True when the caller aborted the request; such errors should be ignored, not reported.
+export function isAbortError(error: unknown) {
+  return error instanceof Error && error.name === "AbortError";
+}
+
+export type RequestOptions = {
+  signal?: AbortSignal;
+};
+
+// Called when a protected endpoint rejects the session cookie, so the app can prompt a re-login
+// instead of every page handling expiry on its own. Returns an unsubscribe function.
+type UnauthorizedListener = () => void;
+const unauthorizedListeners = new Set<UnauthorizedListener>();
+
+export function onUnauthorized(listener: UnauthorizedListener) {
+  unauthorizedListeners.add(listener);
+  return () => {
+    unauthorizedListeners.delete(listener);
+  };
+}
+
+type QueryValue = string | number | boolean | string[] | null | undefined;
+
+type RequestConfig = RequestOptions & {
+  method?: "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+  query?: Record<string, QueryValue>;
+  body?: unknown;
+};
+
+function buildQuery(query: Record<string, QueryValue> = {}) {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === "") {
+      return;
+    }
+    params.set(key, Array.isArray(value) ? value.join(",") : String(value));
+  });
+  const text = params.toString();
+  return text ? `?${text}` : "";
+}
+
+function codeForStatus(status: number) {
+  if (status === 401) {
+    return "unauthorized";
+  }
+  if (status === 404) {
+    return "not_found";
+  }
+  if (status === 429) {
+    return "rate_limited";
+  }
+  return status >= 500 ? "server_error" : "request_failed";
+}
+
+async function request<T>(path: string, config: RequestConfig = {}): Promise<T> {
+  const { method = "GET", query, body, signal } = config;
+  const isForm = typeof FormData !== "undefined" && body instanceof FormData;
+
+  let response: Response;
+  try {
+    response = await fetch(`${apiUrl}${path}${buildQuery(query)}`, {
+      method,
+      credentials: "include",
+      signal,
+      headers: body !== undefined && !isForm ? { "Content-Type": "application/json" } : undefined,
+      body: body === undefined ? undefined : isForm ? (body as FormData) : JSON.stringify(body),
+    });
+  } catch (err) {
+    if (isAbortError(err)) {
+      throw err;
+    }
+    throw new ApiError(0, "network_error");
+  }
+
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    // Only requireAuth answers with this code; a signed-out /auth/me or a revoked Spotify
+    // grant (spotify_reauth_required) is not a lost session.
+    if (data?.error === "unauthorized") {
+      unauthorizedListeners.forEach((listener) => listener());
+    }
+    const retryAfter = Number(response.headers.get("Retry-After"));
+    throw new ApiError(
+      response.status,
+      typeof data?.error === "string" ? data.error : codeForStatus(response.status),
+      {
+        fieldErrors: Array.isArray(data?.errors) ? data.errors : [],
+        retryAfterSeconds: retryAfter > 0 ? retryAfter : null,
+      }
+    );
+  }
+  return data as T;
+}
+
+type Id = number | string;
+type Status = { status: "ok" };
+
+// --- auth
+
+// Resolves to null when nobody is signed in rather than rejecting.
+export async function getCurrentUser(options: RequestOptions = {}) {
+  try {
+    const data = await request<{ user: CurrentUser | null }>("/auth/me", options);
+    return data.user;
+  } catch (err) {
+    if (isApiError(err, "unauthorized")) {
+      return null;
+    }
+    throw err;
+  }
+}
+
+export function logout(options: RequestOptions = {}) {
+  return request<Status>("/auth/logout", { ...options, method: "POST" });
+}
+
+// --- users
+
+export async function searchUsers(
+  query: string,
+  { limit }: { limit?: number } = {},
+  options: RequestOptions = {}
+) {
+  const data = await request<{ users: UserSummary[] }>("/users/search", {
+    ...options,
+    query: { query, limit },
+  });
+  return data.users;
+}
+
+export async function getUser(userId: Id, options: RequestOptions = {}) {
+  const data = await request<{ user: PublicProfile }>(`/users/${userId}`, options);
+  return data.user;
+}
+
+export function followUser(userId: Id, options: RequestOptions = {}) {
+  return request<Status & { following_id: number }>(`/users/${userId}/follow`, {
+    ...options,
+    method: "POST",
+  });
+}
+
+export function unfollowUser(userId: Id, options: RequestOptions = {}) {
+  return request<Status & { following_id: number }>(`/users/${userId}/follow`, {
+    ...options,
+    method: "DELETE",
+  });
+}
+
+export function getUserReviews(
+  userId: Id,
+  query: PageQuery & { pinned?: boolean } = {},
+  options: RequestOptions = {}
+) {
+  return request<Page<"reviews", Review>>(`/users/${userId}/reviews`, { ...options, query });
+}
+
+export function getUserLists(userId: Id, query: PageQuery = {}, options: RequestOptions = {}) {
+  return request<Page<"lists", List>>(`/users/${userId}/lists`, { ...options, query });
+}
+
+export function getFollowers(userId: Id, query: PageQuery = {}, options: RequestOptions = {}) {
+  return request<Page<"followers", Follow>>(`/users/${userId}/followers`, {
+    ...options,
+    query,
+  });
+}
+
+export function getFollowing(userId: Id, query: PageQuery = {}, options: RequestOptions = {}) {
+  return request<Page<"following", Follow>>(`/users/${userId}/following`, {
+    ...options,
+    query,
+  });
+}
+
+// --- me
+
+export function getFeed(query: PageQuery = {}, options: RequestOptions = {}) {
+  return request<Page<"activities", FeedActivity>>("/me/feed", { ...options, query });
+}
+
+export async function getSessions(options: RequestOptions = {}) {
+  const data = await request<{ sessions: Session[] }>("/me/sessions", options);
+  return data.sessions;
+}
+
+export function revokeSession(sessionId: string, options: RequestOptions = {}) {
+  return request<Status>(`/me/sessions/${sessionId}`, { ...options, method: "DELETE" });
+}
+
+export function revokeAllSessions(options: RequestOptions = {}) {
+  return request<Status & { revoked: number }>("/me/sessions", {
+    ...options,
+    method: "DELETE",
+  });
+}
+
+export async function getProfile(options: RequestOptions = {}) {
+  const data = await request<{ profile: Profile }>("/me/profile", options);
+  return data.profile;
+}
+
+export async function updateProfile(update: ProfileUpdate, options: RequestOptions = {}) {
+  const data = await request<{ profile: Profile }>("/me/profile", {
+    ...options,
+    method: "PATCH",
+    body: update,
+  });
+  return data.profile;
+}
+
+export async function uploadAvatar(file: File, options: RequestOptions = {}) {
+  const formData = new FormData();
+  formData.append("avatar", file);
+  const data = await request<{ avatar_url: string }>("/me/avatar", {
+    ...options,
+    method: "POST",
+    body: formData,
+  });
+  return data.avatar_url;
+}
+
+// A plain link target: the browser downloads the attachment with the session cookie.
+export function exportUrl(format: ExportFormat = "json") {
+  return `${apiUrl}/me/export?${new URLSearchParams({ format })}`;
+}
+
+export function deleteAccount(options: RequestOptions = {}) {
+  return request<Status>("/me", { ...options, method: "DELETE" });
+}
+
+export function getMyReviews(query: PageQuery = {}, options: RequestOptions = {}) {
+  return request<Page<"reviews", Review>>("/me/reviews", { ...options, query });
+}
+
+export function getMyLists(query: PageQuery = {}, options: RequestOptions = {}) {
+  return request<Page<"lists", List>>("/me/lists", { ...options, query });
+}
+
+export async function createList(input: ListInput, options: RequestOptions = {}) {
+  const data = await request<{ list: Omit<List, "items"> }>("/me/lists", {
+    ...options,
+    method: "POST",
+    body: input,
+  });
+  return data.list;
+}
+
+// --- spotify
+
+export async function searchAlbums(
+  query: string,
+  { limit }: { limit?: number } = {},
+  options: RequestOptions = {}
+) {
+  const data = await request<{ albums: AlbumSearchResult[] }>("/spotify/search", {
+    ...options,
+    query: { query, limit },
+  });
+  return data.albums;
+}
+
+// At most 20 ids per call; see getAlbumCards for larger sets.
+export function getAlbums(ids: string[], options: RequestOptions = {}) {
+  return request<{ albums: AlbumSummary[]; unavailable_ids?: string[] }>("/spotify/albums", {
+    ...options,
+    query: { ids },
+  });
+}
+
+export async function getAlbum(albumId: string, options: RequestOptions = {}) {
+  const data = await request<{ album: AlbumDetail }>(`/spotify/albums/${albumId}`, options);
+  return data.album;
+}
+
+const spotifyIdPattern = /^[A-Za-z0-9]{22}$/;
+
+// Album cards for any number of ids, fetched 20 at a time. Malformed ids are skipped and a
+// failed batch only leaves its albums out, since cards are decoration around other content.
+export async function getAlbumCards(ids: string[], options: RequestOptions = {}) {
+  const validIds = Array.from(new Set(ids)).filter((id) => spotifyIdPattern.test(id));
+  const chunks: string[][] = [];
+  for (let i = 0; i < validIds.length; i += 20) {
+    chunks.push(validIds.slice(i, i + 20));
+  }
+
+  const results = await Promise.all(
+    chunks.map((chunk) =>
+      getAlbums(chunk, options).catch((err) => {
+        if (isAbortError(err)) {
+          throw err;
+        }
+        return { albums: [] as AlbumSummary[] };
+      })
+    )
+  );
+
+  return results.flatMap((result) =>
+    result.albums.filter(Boolean).map(
+      (album): AlbumCard => ({
+        id: album.id,
+        name: album.name,
+        artists: album.artists || [],
+        image: album.images?.[1]?.url || album.images?.[0]?.url || null,
+      })
+    )
+  );
+}
+
+// --- albums and reviews
+
+export function getAlbumReviews(albumId: string, query: PageQuery = {}, options: RequestOptions = {}) {
+  return request<Page<"reviews", AlbumReview>>(`/albums/${albumId}/reviews`, {
+    ...options,
+    query,
+  });
+}
+
+export async function getAlbumStats(albumId: string, options: RequestOptions = {}) {
+  const data = await request<{ stats: AlbumStats }>(`/albums/${albumId}/stats`, options);
+  return data.stats;
+}
+
+// `revised` is true when the post replaced the user's earlier review of the album.
+export function createReview(albumId: string, input: ReviewInput, options: RequestOptions = {}) {
+  return request<{ review: AlbumReview; revised: boolean }>(`/albums/${albumId}/reviews`, {
+    ...options,
+    method: "POST",
+    body: input,
+  });
+}
+
+export async function updateReview(reviewId: Id, update: ReviewUpdate, options: RequestOptions = {}) {
+  const data = await request<{ review: UpdatedReview }>(`/reviews/${reviewId}`, {
+    ...options,
+    method: "PATCH",
+    body: update,
+  });
+  return data.review;
+}
+
+export function deleteReview(reviewId: Id, options: RequestOptions = {}) {
+  return request<Status>(`/reviews/${reviewId}`, { ...options, method: "DELETE" });
+}
+
+export function getReviewHistory(reviewId: Id, options: RequestOptions = {}) {
+  return request<ReviewHistory>(`/reviews/${reviewId}/history`, options);
+}
+
+// Replaces every track rating of the review; an empty array clears them.
+export async function setTrackRatings(
+  reviewId: Id,
+  trackRatings: TrackRating[],
+  options: RequestOptions = {}
+) {
+  const data = await request<{ track_ratings: TrackRating[] }>(`/reviews/${reviewId}/tracks`, {
+    ...options,
+    method: "PUT",
+    body: { track_ratings: trackRatings },
+  });
+  return data.track_ratings;
+}
+
+// --- lists
+
+export async function getList(listId: Id, options: RequestOptions = {}) {
+  const data = await request<{ list: ListDetail }>(`/lists/${listId}`, options);
+  return data.list;
+}
+
+export async function updateList(listId: Id, update: ListUpdate, options: RequestOptions = {}) {
+  const data = await request<{ list: Omit<List, "items"> }>(`/lists/${listId}`, {
+    ...options,
+    method: "PATCH",
+    body: update,
+  });
+  return data.list;
+}
+
+export function deleteList(listId: Id, options: RequestOptions = {}) {
+  return request<Status>(`/lists/${listId}`, { ...options, method: "DELETE" });
+}
+
+export async function addListItem(listId: Id, albumId: string, options: RequestOptions = {}) {
+  const data = await request<{
+    item: { list_id: number; spotify_album_id: string; position: number };
+  }>(`/lists/${listId}/items`, {
+    ...options,
+    method: "POST",
+    body: { spotify_album_id: albumId },
+  });
+  return data.item;
+}
+
+export function removeListItem(listId: Id, albumId: string, options: RequestOptions = {}) {
+  return request<Status>(`/lists/${listId}/items/${albumId}`, {
+    ...options,
+    method: "DELETE",
+  });
+}
+
+// `order` must name every item in the list exactly once, first to last.
+export function reorderList(listId: Id, order: string[], options: RequestOptions = {}) {
+  return request<Status>(`/lists/${listId}/reorder`, {
+    ...options,
+    method: "POST",
+    body: { order },
+  });
+}
+
+export async function updateListItems(
+  listId: Id,
+  operations: ListItemOperation[],
+  options: RequestOptions = {}
+) {
+  const data = await request<{ items: ListItem[] }>(`/lists/${listId}/items`, {
+    ...options,
+    method: "PATCH",
+    body: { operations },
+  });
+  return data.items;
+}
+
+// --- imports
+
+export async function getImports(options: RequestOptions = {}) {
+  const data = await request<{ imports: ImportSummary[] }>("/me/imports", options);
+  return data.imports;
+}
+
+// Uploading a file that was imported before resolves to that import instead of a new one.
+export async function createImport(
+  file: File,
+  { ratingScale = 10 }: { ratingScale?: 5 | 10 } = {},
+  options: RequestOptions = {}
+) {
+  const formData = new FormData();
+  formData.append("file", file);
+  const data = await request<{ import: ImportDetail }>("/me/imports", {
+    ...options,
+    method: "POST",
+    query: { rating_scale: ratingScale },
+    body: formData,
+  });
+  return data.import;
+}
+
+export async function getImport(importId: Id, options: RequestOptions = {}) {
+  const data = await request<{ import: ImportDetail }>(`/me/imports/${importId}`, options);
+  return data.import;
+}
+
+// Pass null to leave the row out of the import.
+export async function resolveImportRow(
+  importId: Id,
+  rowId: Id,
+  albumId: string | null,
+  options: RequestOptions = {}
+) {
+  const data = await request<{
+    row: Pick<ImportRow, "id" | "status" | "spotify_album_id" | "match">;
+  }>(`/me/imports/${importId}/rows/${rowId}`, {
+    ...options,
+    method: "PATCH",
+    body: { spotify_album_id: albumId },
+  });
+  return data.row;
+}
+
+export function commitImport(importId: Id, input: ImportCommitInput, options: RequestOptions = {}) {
+  return request<ImportCommitResult>(`/me/imports/${importId}/commit`, {
+    ...options,
+    method: "POST",
+    body: input,
+  });
+}
+
+// --- listening history
+
+export async function getListeningSummary(options: RequestOptions = {}) {
+  const data = await request<{ summary: ListeningSummary }>("/me/listening", options);
+  return data.summary;
+}
+
+// Spotify's extended streaming history files (Streaming_History_Audio_*.json).
+export function uploadListeningHistory(files: File[], options: RequestOptions = {}) {
+  const formData = new FormData();
+  files.forEach((file) => formData.append("files", file));
+  return request<ListeningUpload>("/me/listening", {
+    ...options,
+    method: "POST",
+    body: formData,
+  });
+}
+
+export function clearListeningHistory(options: RequestOptions = {}) {
+  return request<Status>("/me/listening", { ...options, method: "DELETE" });
+}
+
+export async function getUnratedListens(
+  { limit }: { limit?: number } = {},
+  options: RequestOptions = {}
+) {
+  const data = await request<{ albums: UnratedListen[] }>("/me/listening/unrated", {
+    ...options,
+    query: { limit },
+  });
+  return data.albums;
+}
+
+// --- diary
+
+export function getDiary(query: DiaryQuery = {}, options: RequestOptions = {}) {
+  return request<Page<"entries", DiaryEntry>>("/me/diary", { ...options, query });
+}
+
+export async function createDiaryEntry(input: DiaryEntryInput, options: RequestOptions = {}) {
+  const data = await request<{ entry: DiaryEntry }>("/me/diary", {
+    ...options,
+    method: "POST",
+    body: input,
+  });
+  return data.entry;
+}
+
+export function deleteDiaryEntry(entryId: number, options: RequestOptions = {}) {
+  return request<Status>(`/me/diary/${entryId}`, { ...options, method: "DELETE" });
+}
+
+// --- backlog
+
+export async function getBacklog(options: RequestOptions = {}) {
+  const data = await request<{ items: BacklogItem[] }>("/me/backlog", options);
+  return data.items;
+}
+
+// Resolves with the existing entry when the album is already queued.
+export async function addToBacklog(
+  albumId: string,
+  { priority }: { priority?: BacklogPriority } = {},
+  options: RequestOptions = {}
+) {
+  const data = await request<{ item: BacklogItem }>("/me/backlog", {
+    ...options,
+    method: "POST",
+    body: { spotify_album_id: albumId, priority },
+  });
+  return data.item;
+}
+
+export async function updateBacklogPriority(
+  albumId: string,
+  priority: BacklogPriority,
+  options: RequestOptions = {}
+) {
+  const data = await request<{ item: BacklogItem }>(`/me/backlog/${albumId}`, {
+    ...options,
+    method: "PATCH",
+    body: { priority },
+  });
+  return data.item;
+}
+
+export function removeFromBacklog(albumId: string, options: RequestOptions = {}) {
+  return request<Status>(`/me/backlog/${albumId}`, { ...options, method: "DELETE" });
+}
+
+export function reorderBacklog(order: string[], options: RequestOptions = {}) {
+  return request<Status>("/me/backlog/reorder", {
+    ...options,
+    method: "POST",
+    body: { order },
+  });
+}
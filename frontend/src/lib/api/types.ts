@@ -0,0 +1,378 @@
+// Response shapes of the Express API. Field names mirror the JSON exactly.
+
+export type CurrentUser = {
+  id: number;
+  spotify_id: string;
+  display_name: string | null;
+  needs_reauth?: boolean;
+};
+
+export type UserRef = {
+  id: number;
+  spotify_id: string;
+  display_name: string | null;
+};
+
+export type UserSummary = UserRef & {
+  avatar_url: string | null;
+};
+
+export type Follow = UserSummary & {
+  created_at: string;
+};
+
+export type PublicProfile = UserSummary & {
+  bio: string | null;
+  favorite_genres: string[];
+  favorite_album_ids: string[];
+  favorite_albums?: AlbumCard[];
+  created_at: string;
+  followers_count: number;
+  following_count: number;
+  review_count: number;
+  is_following: boolean;
+};
+
+export type Profile = {
+  id: number;
+  spotify_id: string;
+  display_name: string | null;
+  avatar_url: string | null;
+  bio: string | null;
+  favorite_genres: string[];
+  favorite_album_ids: string[];
+  favorite_albums?: AlbumCard[];
+};
+
+export type ProfileUpdate = {
+  display_name?: string | null;
+  bio?: string | null;
+  favorite_genres?: string[];
+  favorite_album_ids?: string[];
+};
+
+export type ExportFormat = "json" | "reviews.csv" | "lists.csv";
+
+export type Session = {
+  id: string;
+  user_agent: string | null;
+  ip: string | null;
+  created_at: string;
+  last_seen_at: string;
+  expires_at: string;
+  current: boolean;
+};
+
+export type AlbumImage = { url: string; width: number; height: number };
+
+// The inline album card the API attaches to reviews, list items and feed entries.
+export type AlbumCard = {
+  id: string;
+  name: string;
+  artists: string[];
+  image: string | null;
+};
+
+export type AlbumSearchResult = AlbumCard & {
+  release_date: string;
+  total_tracks: number;
+};
+
+export type AlbumSummary = {
+  id: string;
+  name: string;
+  artists: string[];
+  images: AlbumImage[];
+  release_date: string;
+  total_tracks: number;
+  label: string;
+  genres: string[];
+};
+
+export type Track = {
+  id: string;
+  name: string;
+  track_number: number;
+  duration_ms: number;
+  preview_url: string | null;
+};
+
+export type AlbumDetail = AlbumSummary & {
+  tracks: Track[];
+};
+
+export type AlbumStats = {
+  spotify_album_id: string;
+  review_count: number;
+  mean: number | null;
+  median: number | null;
+  histogram: { rating: number; count: number }[];
+  // Every rated track of the album, highest mean first.
+  tracks: { track_id: string; rating_count: number; mean: number }[];
+  following: { review_count: number; mean: number | null } | null;
+  updated_at: string | null;
+};
+
+// A review as it appears on a profile: the reviewer is implied, the album is not.
+export type Review = {
+  id: number;
+  spotify_album_id: string;
+  album?: AlbumCard | null;
+  rating: number;
+  body: string | null;
+  created_at: string;
+  is_pinned?: boolean;
+  pinned_at?: string | null;
+  revised_at?: string | null;
+};
+
+// A review as it appears on an album page: the album is implied, the reviewer is not.
+export type AlbumReview = {
+  id: number;
+  rating: number;
+  body: string | null;
+  created_at: string;
+  is_pinned?: boolean;
+  pinned_at?: string | null;
+  revised_at?: string | null;
+  track_ratings: TrackRating[];
+  user: UserRef;
+};
+
+export type TrackRating = {
+  track_id: string;
+  rating: number;
+  note: string | null;
+};
+
+export type UpdatedReview = {
+  id: number;
+  spotify_album_id: string;
+  rating: number;
+  body: string | null;
+  created_at: string;
+  is_pinned: boolean;
+  pinned_at: string | null;
+  revised_at: string | null;
+};
+
+export type ReviewRevision = {
+  id: number;
+  rating: number;
+  body: string | null;
+  written_at: string;
+  created_at: string;
+};
+
+export type ReviewHistory = {
+  review: {
+    id: number;
+    spotify_album_id: string;
+    rating: number;
+    body: string | null;
+    created_at: string;
+    revised_at: string | null;
+    user: UserRef;
+  };
+  revisions: ReviewRevision[];
+};
+
+export type ReviewInput = {
+  rating: number;
+  body?: string | null;
+};
+
+export type ReviewUpdate = {
+  rating?: number;
+  body?: string | null;
+  is_pinned?: boolean;
+};
+
+export type ListVisibility = "private" | "unlisted" | "public";
+
+export type ListItem = {
+  spotify_album_id: string;
+  album?: AlbumCard | null;
+  created_at: string;
+  position?: number;
+};
+
+export type List = {
+  id: number;
+  title: string;
+  description: string | null;
+  is_ranked: boolean;
+  visibility: ListVisibility;
+  created_at: string;
+  items: ListItem[];
+};
+
+export type ListDetail = List & {
+  is_owner: boolean;
+  user: UserRef;
+};
+
+export type ListInput = {
+  title: string;
+  description?: string | null;
+  is_ranked?: boolean;
+  visibility?: ListVisibility;
+};
+
+export type ListUpdate = Partial<ListInput>;
+
+export type ListItemOperation = {
+  op: "add" | "remove" | "move";
+  spotify_album_id: string;
+  index?: number;
+};
+
+export type ImportStatus = "matching" | "ready" | "failed";
+
+export type ImportRowStatus =
+  | "pending"
+  | "matched"
+  | "ambiguous"
+  | "unmatched"
+  | "confirmed"
+  | "skipped";
+
+// A Spotify search result scored against an import row; 1 is an exact match.
+export type ImportCandidate = AlbumCard & {
+  release_date: string | null;
+  score: number;
+};
+
+export type ImportRow = {
+  id: number;
+  row_number: number;
+  artist: string;
+  album: string;
+  rating: number | null;
+  rated_on: string | null;
+  status: ImportRowStatus;
+  spotify_album_id: string | null;
+  match: AlbumCard | null;
+  candidates: ImportCandidate[];
+};
+
+export type ImportSummary = {
+  id: number;
+  source: "rym" | "csv";
+  filename: string | null;
+  rating_scale: 5 | 10;
+  status: ImportStatus;
+  list_id: number | null;
+  created_at: string;
+  committed_at: string | null;
+  counts: Record<ImportRowStatus | "total", number>;
+};
+
+export type ImportDetail = ImportSummary & {
+  rows: ImportRow[];
+};
+
+export type ImportCommitInput = {
+  target: "reviews" | "list";
+  title?: string;
+  is_ranked?: boolean;
+  visibility?: ListVisibility;
+};
+
+export type ImportCommitResult = {
+  target: "reviews" | "list";
+  created: number;
+  already_present: number;
+  without_rating: number;
+  list_id: number | null;
+};
+
+export type BacklogPriority = "high" | "normal" | "low";
+
+// A queued album. The API returns the queue in listening order: priority first, then position.
+export type BacklogItem = {
+  id: number;
+  spotify_album_id: string;
+  album: AlbumCard | null;
+  priority: BacklogPriority;
+  position: number;
+  created_at: string;
+};
+
+// One logged listen. `listened_on` is a calendar day (YYYY-MM-DD), not a timestamp.
+export type DiaryEntry = {
+  id: number;
+  spotify_album_id: string;
+  album: AlbumCard | null;
+  listened_on: string;
+  is_relisten: boolean;
+  review: { id: number; rating: number; body: string | null } | null;
+  created_at: string;
+};
+
+export type DiaryEntryInput = {
+  spotify_album_id: string;
+  listened_on?: string;
+  // Left out, the API decides from earlier entries and reviews of the album.
+  is_relisten?: boolean;
+  review_id?: number | null;
+};
+
+export type DiaryQuery = PageQuery & { from?: string; to?: string };
+
+export type ListeningSummary = {
+  albums: number;
+  plays: number;
+  first_listened_at: string | null;
+  last_listened_at: string | null;
+  // Albums from the history still waiting to be matched to Spotify.
+  pending_albums: number;
+  unmatched_albums: number;
+};
+
+export type ListeningUpload = {
+  files: { filename: string | null; plays: number; new_plays: number; albums: number }[];
+  summary: ListeningSummary;
+};
+
+export type UnratedListen = {
+  spotify_album_id: string;
+  album: AlbumCard | null;
+  play_count: number;
+  days_listened: number;
+  first_listened_at: string;
+  last_listened_at: string;
+};
+
+export type FeedActivity = {
+  id: number;
+  type:
+    | "review_created"
+    | "review_revised"
+    | "review_pinned"
+    | "list_created"
+    | "list_item_added";
+  spotify_album_id: string | null;
+  album: AlbumCard | null;
+  created_at: string;
+  user: UserSummary;
+  review: { id: number; rating: number; body: string | null } | null;
+  list: { id: number; title: string } | null;
+};
+
+// Cursor-paginated collections; pass next_cursor back as `cursor` for the next page.
+export type PageQuery = {
+  limit?: number;
+  cursor?: string | null;
+};
+
+export type Page<Key extends string, Item> = { [K in Key]: Item[] } & {
+  next_cursor: string | null;
+};
+
+export type FieldError = {
+  in: "params" | "query" | "body";
+  field: string | null;
+  code: string;
+  message: string;
+};
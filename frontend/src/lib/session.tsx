@@ -0,0 +1,247 @@
+"use client";
+
+import { createContext, useCallback, useContext, useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import {
+  getCurrentUser,
+  isAbortError,
+  logout,
+  onUnauthorized,
+  spotifyLoginUrl,
+  type CurrentUser,
+} from "@/lib/api";
+
+export type SessionStatus = "loading" | "authenticated" | "unauthenticated";
+
+type SessionContextValue = {
+  user: CurrentUser | null;
+  status: SessionStatus;
+  // A protected call was rejected while we believed the user was signed in.
+  expired: boolean;
+  updateUser: (update: (user: CurrentUser) => CurrentUser) => void;
+  // Forget the user locally, e.g. after revoking the current session from another call.
+  clearSession: () => void;
+  signOut: () => Promise<void>;
+};
+
+const SessionContext = createContext<SessionContextValue | null>(null);
+
+const userCacheKey = "jukebox.user";
+const returnToKey = "jukebox.returnTo";
+
+function readCachedUser(): CurrentUser | null {
+  try {
+    const value = window.sessionStorage.getItem(userCacheKey);
+    return value ? (JSON.parse(value) as CurrentUser) : null;
+  } catch (err) {
+    return null;
+  }
+}
+
+function writeCachedUser(user: CurrentUser | null) {
+  try {
+    if (user) {
+      window.sessionStorage.setItem(userCacheKey, JSON.stringify(user));
+    } else {
+      window.sessionStorage.removeItem(userCacheKey);
+    }
+  } catch (err) {
+    // storage can be unavailable (private mode, quota); the cache is only a head start
+  }
+}
+
+// Spotify always sends the browser back to the web root after login, so remember where
+// sign-in started and let the provider return there.
+function rememberLocation() {
+  try {
+    window.sessionStorage.setItem(
+      returnToKey,
+      `${window.location.pathname}${window.location.search}`
+    );
+  } catch (err) {
+    // worst case the user lands on the home page
+  }
+}
+
+function takeRememberedLocation() {
+  try {
+    const value = window.sessionStorage.getItem(returnToKey);
+    window.sessionStorage.removeItem(returnToKey);
+    return value;
+  } catch (err) {
+    return null;
+  }
+}
+
+function sameUser(a: CurrentUser, b: CurrentUser) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+export function SessionProvider({ children }: { children: React.ReactNode }) {
+  const router = useRouter();
+  const [user, setUser] = useState<CurrentUser | null>(null);
+  const [status, setStatus] = useState<SessionStatus>("loading");
+  const [expired, setExpired] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    async function loadSession() {
+      // Show the last known user right away, then confirm it with the API.
+      const cached = readCachedUser();
+      if (cached) {
+        setUser(cached);
+        setStatus("authenticated");
+      }
+
+      try {
+        const current = await getCurrentUser({ signal: controller.signal });
+        // Keep the cached object when nothing changed so effects keyed on the user don't rerun.
+        setUser((prev) => (prev && current && sameUser(prev, current) ? prev : current));
+        setStatus(current ? "authenticated" : "unauthenticated");
+        setExpired(false);
+
+        const returnTo = takeRememberedLocation();
+        const here = `${window.location.pathname}${window.location.search}`;
+        if (current && returnTo && returnTo !== here) {
+          router.replace(returnTo);
+        }
+      } catch (err) {
+        if (!isAbortError(err) && !cached) {
+          setStatus("unauthenticated");
+        }
+      }
+    }
+
+    loadSession();
+    return () => {
+      controller.abort();
+    };
+  }, [router]);
+
+  useEffect(() => onUnauthorized(() => setExpired(true)), []);
+
+  useEffect(() => {
+    if (status !== "loading") {
+      writeCachedUser(user);
+    }
+  }, [user, status]);
+
+  const updateUser = useCallback((update: (user: CurrentUser) => CurrentUser) => {
+    setUser((prev) => (prev ? update(prev) : prev));
+  }, []);
+
+  const clearSession = useCallback(() => {
+    setUser(null);
+    setStatus("unauthenticated");
+    setExpired(false);
+  }, []);
+
+  const signOut = useCallback(async () => {
+    try {
+      await logout();
+    } finally {
+      clearSession();
+    }
+  }, [clearSession]);
+
+  const value = useMemo(
+    () => ({ user, status, expired, updateUser, clearSession, signOut }),
+    [user, status, expired, updateUser, clearSession, signOut]
+  );
+
+  return (
+    <SessionContext.Provider value={value}>
+      {children}
+      {expired && user && (
+        <div className="fixed inset-x-0 bottom-0 z-50 border-t border-[color:var(--border)] bg-[color:var(--surface-strong)] px-4 py-4">
+          <div className="mx-auto flex w-full max-w-6xl flex-wrap items-center justify-between gap-3 text-sm">
+            <span className="text-[var(--foreground)]">
+              Your session has expired. Sign in again to keep going.
+            </span>
+            <div className="flex items-center gap-3">
+              <SignInLink className="rounded-none bg-[var(--accent)] px-4 py-2 text-sm font-semibold text-[#0a140c] transition hover:bg-[var(--accent-strong)]">
+                Sign in again
+              </SignInLink>
+              <button
+                className="rounded-none border border-[color:var(--border)] px-4 py-2 text-sm text-[var(--foreground)] transition hover:border-[var(--accent)]"
+                onClick={clearSession}
+              >
+                Dismiss
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </SessionContext.Provider>
+  );
+}
+
+export function useSession() {
+  const context = useContext(SessionContext);
+  if (!context) {
+    throw new Error("useSession must be used inside SessionProvider");
+  }
+  return context;
+}
+
+// "Continue with Spotify" link that brings the user back to the current page afterwards.
+export function SignInLink({
+  className,
+  children,
+}: {
+  className?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <a className={className} href={spotifyLoginUrl} onClick={rememberLocation}>
+      {children}
+    </a>
+  );
+}
+
+// Renders children only for a signed-in user; used by the layouts of protected routes.
+export function RequireSession({
+  message,
+  children,
+}: {
+  message: string;
+  children: React.ReactNode;
+}) {
+  const { status } = useSession();
+
+  if (status === "authenticated") {
+    return <>{children}</>;
+  }
+
+  return (
+    <div className="min-h-screen px-4 py-10 text-[color:var(--foreground)]">
+      <main className="mx-auto w-full max-w-4xl space-y-8">
+        <header className="flex flex-wrap items-center justify-between gap-4 border-b border-[color:var(--border)] pb-6">
+          <p className="text-xs uppercase tracking-[0.4em] text-[var(--muted)]">
+            Jukebox
+          </p>
+          <Link
+            href="/"
+            className="rounded-none border border-[color:var(--border)] px-4 py-2 text-sm text-[var(--foreground)] transition hover:border-[var(--accent)]"
+          >
+            Back to search
+          </Link>
+        </header>
+        {status === "loading" ? (
+          <div className="border border-[color:var(--border)] p-6 text-sm text-[var(--muted)]">
+            Checking session...
+          </div>
+        ) : (
+          <div className="border border-[color:var(--border)] p-6 text-sm text-[var(--foreground)]">
+            <p>{message}</p>
+            <SignInLink className="mt-4 inline-flex items-center justify-center rounded-none bg-[var(--accent)] px-5 py-2 text-sm font-semibold text-[#0a140c] transition hover:bg-[var(--accent-strong)]">
+              Continue with Spotify
+            </SignInLink>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}